@@ -0,0 +1,203 @@
+import { useState } from 'react';
+import { LogOut, Monitor } from 'lucide-react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { apiService } from '@/lib/api-service';
+import { createAuthAwareQuery } from '@/lib/authUtils';
+import type { SessionSummary } from '@shared/schema';
+
+const browsers: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const platforms: Array<[RegExp, string]> = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+// Helper function to turn a user agent into a short "Browser on platform" label
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = platforms.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? userAgent;
+}
+
+// Helper function to format when a session was last used
+function formatLastSeen(session: SessionSummary): string {
+  if (session.current) return 'Active now';
+  if (!session.lastSeenAt) return 'Unknown';
+  return formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true });
+}
+
+export function AccountSettings() {
+  const { user, mode, logout, logoutAllDevices } = useAuth();
+  const [sessionToRevoke, setSessionToRevoke] = useState<SessionSummary | null>(null);
+  const [confirmLogoutAll, setConfirmLogoutAll] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions = [], isLoading } = useQuery({
+    queryKey: ['/api/auth/sessions'],
+    queryFn: createAuthAwareQuery(() => apiService.getSessions()),
+    enabled: mode === 'accounts',
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => apiService.revokeSession(id),
+    onSuccess: () => {
+      toast({
+        title: "Device Signed Out 🔒",
+        description: "That device will need to sign in again.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/sessions'] });
+    },
+    onError: (error) => {
+      console.error('Failed to revoke session:', error);
+      toast({
+        title: "Sign Out Failed ❌",
+        description: "Could not sign out that device. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Single-user local mode has no sessions to end
+  if (mode === 'local') {
+    return null;
+  }
+
+  // Signing out this device is a regular logout; other devices are revoked in place
+  const handleConfirmRevoke = () => {
+    if (!sessionToRevoke) return;
+    if (sessionToRevoke.current) {
+      logout();
+    } else {
+      revokeMutation.mutate(sessionToRevoke.id);
+    }
+    setSessionToRevoke(null);
+  };
+
+  return (
+    <div className="glass-card rounded-2xl p-6 space-y-6" data-testid="settings-account">
+      <div>
+        <h3 className="text-lg font-semibold" data-testid="text-account-title">
+          Account
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          Signed in as {user?.username ?? user?.email}. These are the devices where you are
+          signed in; sign out any you no longer use or don't recognise.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading devices...</p>
+      ) : (
+        <Table data-testid="table-sessions">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Device</TableHead>
+              <TableHead>IP address</TableHead>
+              <TableHead>Last seen</TableHead>
+              <TableHead>Signed in</TableHead>
+              <TableHead className="text-right" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sessions.map((session) => (
+              <TableRow key={session.id} data-testid={`row-session-${session.id}`}>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    <Monitor className="h-4 w-4 text-muted-foreground" />
+                    <span title={session.userAgent ?? undefined}>{describeDevice(session.userAgent)}</span>
+                    {session.current && <Badge variant="secondary">This device</Badge>}
+                  </div>
+                </TableCell>
+                <TableCell className="text-muted-foreground">{session.ipAddress ?? 'Unknown'}</TableCell>
+                <TableCell className="text-muted-foreground">{formatLastSeen(session)}</TableCell>
+                <TableCell className="text-muted-foreground">
+                  {session.createdAt ? new Date(session.createdAt).toLocaleDateString() : 'Unknown'}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setSessionToRevoke(session)}
+                    disabled={revokeMutation.isPending}
+                    data-testid={`button-revoke-session-${session.id}`}
+                  >
+                    Sign out
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="flex justify-end">
+        <Button
+          variant="outline"
+          onClick={() => setConfirmLogoutAll(true)}
+          data-testid="button-logout-all"
+        >
+          <LogOut className="mr-2 h-4 w-4" />
+          Log out of all devices
+        </Button>
+      </div>
+
+      <AlertDialog open={sessionToRevoke !== null} onOpenChange={(open) => !open && setSessionToRevoke(null)}>
+        <AlertDialogContent data-testid="dialog-revoke-session">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {sessionToRevoke?.current ? 'Sign out of this device?' : 'Sign out this device?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {sessionToRevoke?.current
+                ? 'You will need to sign in again to keep tracking on this device.'
+                : `${describeDevice(sessionToRevoke?.userAgent ?? null)} will be signed out and need to sign in again.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-revoke-session-cancel">Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmRevoke} data-testid="button-revoke-session-confirm">
+              Sign out
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={confirmLogoutAll} onOpenChange={setConfirmLogoutAll}>
+        <AlertDialogContent data-testid="dialog-logout-all">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Log out of all devices?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every session ends, including this one, so a lost phone or shared computer can no
+              longer see your prayers.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-logout-all-cancel">Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={logoutAllDevices} data-testid="button-logout-all-confirm">
+              Log out everywhere
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
-import { Trophy, Star, Medal, Calendar, Flame, Target, CheckCircle, Award, Crown, Zap, Moon, Sun, Shield, RotateCcw, CalendarDays } from 'lucide-react';
+import { Trophy, Star, Medal, Calendar, Flame, Target, CheckCircle, Award, Crown, Zap, Moon, Sun, Shield, RotateCcw, CalendarDays, Landmark, type LucideIcon } from 'lucide-react';
 import { Achievement } from '@shared/schema';
+import type { AchievementCatalogEntry, AchievementIcon, AchievementTier } from '@shared/achievement-catalog';
 import { cn } from '@/lib/utils';
 
 // Helper function to convert background color to text color
@@ -17,6 +18,7 @@ function getTextColorFromBg(bgColor: string): string {
     'bg-red-500': 'text-red-600',
     'bg-indigo-500': 'text-indigo-600',
     'bg-teal-500': 'text-teal-600',
+    'bg-slate-500': 'text-slate-600',
   };
   return colorMap[bgColor] || 'text-primary';
 }
@@ -32,6 +34,7 @@ const achievementIcons = {
   perfect_month: Medal,
   streak_milestone: Flame,
   prayer_milestone: Target,
+  jumuah_milestone: Landmark,
   consistency: Calendar,
   early_bird: Star,
   night_owl: Moon,
@@ -50,6 +53,7 @@ const achievementGradients = {
   perfect_month: 'from-purple-400 to-purple-600',
   streak_milestone: 'from-orange-400 to-red-500',
   prayer_milestone: 'from-yellow-400 to-yellow-600',
+  jumuah_milestone: 'from-sky-400 to-sky-600',
   consistency: 'from-teal-400 to-teal-600',
   early_bird: 'from-pink-400 to-pink-600',
   night_owl: 'from-slate-400 to-slate-600',
@@ -63,6 +67,32 @@ const achievementGradients = {
   default: 'from-primary to-accent'
 };
 
+// Icons named in the achievement catalog
+const catalogIcons: Record<AchievementIcon, LucideIcon> = {
+  'check-circle': CheckCircle,
+  'trophy': Trophy,
+  'medal': Medal,
+  'calendar': Calendar,
+  'calendar-days': CalendarDays,
+  'flame': Flame,
+  'target': Target,
+  'landmark': Landmark,
+  'star': Star,
+  'sun': Sun,
+  'moon': Moon,
+  'shield': Shield,
+  'crown': Crown,
+  'rotate-ccw': RotateCcw,
+  'zap': Zap,
+};
+
+const tierColors: Record<AchievementTier, string> = {
+  bronze: 'bg-orange-500',
+  silver: 'bg-slate-500',
+  gold: 'bg-yellow-500',
+  platinum: 'bg-purple-500',
+};
+
 export function AchievementCard({ achievement, index }: AchievementCardProps) {
   const Icon = achievementIcons[achievement.type as keyof typeof achievementIcons] || Trophy;
   const gradient = achievementGradients[achievement.type as keyof typeof achievementGradients] || achievementGradients.default;
@@ -91,6 +121,11 @@ export function AchievementCard({ achievement, index }: AchievementCardProps) {
         <p data-testid={`achievement-date-${index}`}>
           <strong>Date:</strong> {new Date(achievement.earnedDate).toLocaleDateString()}
         </p>
+        {achievement.historical && (
+          <p className="italic" data-testid={`achievement-historical-${index}`}>
+            Historical: earned under rules that no longer apply
+          </p>
+        )}
         {achievement.metadata?.weekNumber && achievement.metadata?.year && (
           <p data-testid={`achievement-week-${index}`}>
             <strong>Week:</strong> {achievement.metadata.weekNumber} of {achievement.metadata.year}
@@ -162,41 +197,48 @@ export function AchievementCard({ achievement, index }: AchievementCardProps) {
 }
 
 interface MilestoneProgressProps {
-  title: string;
-  description: string;
-  current: number;
-  target: number;
-  icon: React.ComponentType<{ className?: string }>;
-  color: string;
+  entry: AchievementCatalogEntry;
 }
 
-export function MilestoneProgress({ title, description, current, target, icon: Icon, color }: MilestoneProgressProps) {
+export function MilestoneProgress({ entry }: MilestoneProgressProps) {
+  const { id, title, description, tier, rule, unlocked, earnedCount, progress: { current, target } } = entry;
+  const Icon = catalogIcons[entry.icon] || Trophy;
+  const color = tierColors[tier];
   const percentage = Math.min((current / target) * 100, 100);
+  const unit = rule.metric === 'perfectDayRate' || rule.metric === 'completionRate' ? '%' : '';
 
   return (
-    <div className="flex items-center justify-between" data-testid={`milestone-${title.toLowerCase().replace(' ', '-')}`}>
+    <div className="flex items-center justify-between" data-testid={`milestone-${id}`}>
       <div className="flex items-center gap-3">
-        <div className={cn("w-10 h-10 rounded-full flex items-center justify-center", color)}>
+        <div className={cn("w-10 h-10 rounded-full flex items-center justify-center", color, !unlocked && "opacity-60")}>
           <Icon className="w-5 h-5 text-white" />
         </div>
         <div>
-          <p className="font-medium" data-testid={`milestone-title-${title.toLowerCase().replace(' ', '-')}`}>
+          <p className="font-medium" data-testid={`milestone-title-${id}`}>
             {title}
+            {unlocked && (
+              <CheckCircle className="inline w-4 h-4 ml-1 text-green-600" aria-label="Unlocked" />
+            )}
+            {earnedCount > 1 && (
+              <span className="ml-1 text-xs text-muted-foreground" data-testid={`milestone-earned-count-${id}`}>
+                ×{earnedCount}
+              </span>
+            )}
           </p>
-          <p className="text-sm text-muted-foreground" data-testid={`milestone-description-${title.toLowerCase().replace(' ', '-')}`}>
+          <p className="text-sm text-muted-foreground" data-testid={`milestone-description-${id}`}>
             {description}
           </p>
         </div>
       </div>
       <div className="text-right">
-        <p className={cn("text-sm font-medium", getTextColorFromBg(color))} data-testid={`milestone-progress-${title.toLowerCase().replace(' ', '-')}`}>
-          {current}/{target}
+        <p className={cn("text-sm font-medium", getTextColorFromBg(color))} data-testid={`milestone-progress-${id}`}>
+          {current}{unit}/{target}{unit}
         </p>
         <div className="w-20 h-2 bg-muted rounded-full overflow-hidden">
           <div 
             className={cn("h-full rounded-full transition-all duration-300", color)}
             style={{ width: `${percentage}%` }}
-            data-testid={`milestone-bar-${title.toLowerCase().replace(' ', '-')}`}
+            data-testid={`milestone-bar-${id}`}
           />
         </div>
       </div>
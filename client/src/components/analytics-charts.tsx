@@ -14,11 +14,22 @@ import {
   Filler,
 } from 'chart.js';
 import { useQuery } from '@tanstack/react-query';
-import { getTrendDataForPeriod, getAnalyticsDataForPeriod, getPeriodSummary } from '../lib/prayer-utils';
+import { format, parseISO } from 'date-fns';
+import type { AnalyticsGranularity } from '@shared/schema';
+import { getVoluntaryAnalyticsForPeriod, getCongregationAnalyticsForPeriod, voluntaryPrayerNames, prayerNames } from '../lib/prayer-utils';
+import { useUserSettings } from '@/hooks/use-user-settings';
+import { useSavedMosques } from '@/hooks/use-saved-mosques';
 import { createAuthAwareQuery } from '../lib/authUtils';
 import { apiService } from '../lib/api-service';
 import { cn } from '@/lib/utils';
 
+// Trend buckets are labelled by their first day: weekday, week start or month
+const trendLabelFormats: Record<AnalyticsGranularity, string> = {
+  day: 'EEE',
+  week: 'MMM d',
+  month: 'MMM',
+};
+
 ChartJS.register(
   CategoryScale,
   LinearScale,
@@ -43,20 +54,20 @@ export function AnalyticsCharts() {
 
   // Fetch trend data for the selected period
   const { data: trendData, isLoading: trendLoading } = useQuery({
-    queryKey: ['/analytics/trend', selectedPeriod],
-    queryFn: createAuthAwareQuery(() => getTrendDataForPeriod(selectedPeriod)),
+    queryKey: ['/api/analytics/trend', selectedPeriod],
+    queryFn: createAuthAwareQuery(() => apiService.getAnalyticsTrend(selectedPeriod)),
   });
 
-  // Fetch analytics data for the selected period
+  // Fetch per-prayer completion for the selected period
   const { data: analyticsData, isLoading: analyticsLoading } = useQuery({
-    queryKey: ['/analytics/data', selectedPeriod],
-    queryFn: createAuthAwareQuery(() => getAnalyticsDataForPeriod(selectedPeriod)),
+    queryKey: ['/api/analytics/by-prayer', selectedPeriod],
+    queryFn: createAuthAwareQuery(() => apiService.getAnalyticsByPrayer(selectedPeriod)),
   });
 
   // Fetch summary statistics for the selected period
   const { data: summaryData, isLoading: summaryLoading } = useQuery({
-    queryKey: ['/analytics/summary', selectedPeriod],
-    queryFn: createAuthAwareQuery(() => getPeriodSummary(selectedPeriod)),
+    queryKey: ['/api/analytics/summary', selectedPeriod],
+    queryFn: createAuthAwareQuery(() => apiService.getAnalyticsSummary(selectedPeriod)),
   });
 
   // Fetch yearly Qaza statistics (independent of selected period)
@@ -65,21 +76,41 @@ export function AnalyticsCharts() {
     queryFn: createAuthAwareQuery(() => apiService.getYearlyQazaStats()),
   });
 
-  // Fetch user statistics for Qaza vs On-time prayer comparison
+  // Fetch user statistics for the prayer performance breakdown
   const { data: userStatsData, isLoading: userStatsLoading } = useQuery({
     queryKey: ['/api/stats'],
     queryFn: createAuthAwareQuery(() => apiService.getUserStats()),
   });
 
+  // Fetch completion of tracked voluntary prayers, kept separate from the fard analytics
+  const { data: settings } = useUserSettings();
+  const trackedVoluntaryPrayers = settings?.trackedVoluntaryPrayers ?? [];
+  const { data: voluntaryData } = useQuery({
+    queryKey: ['/analytics/voluntary', selectedPeriod, trackedVoluntaryPrayers],
+    queryFn: createAuthAwareQuery(() => getVoluntaryAnalyticsForPeriod(selectedPeriod, trackedVoluntaryPrayers)),
+    enabled: trackedVoluntaryPrayers.length > 0,
+  });
+
+  // Fetch jama'ah rates by prayer and by place for prayers tagged in the tracker
+  const { data: mosques = [] } = useSavedMosques();
+  const { data: congregationData } = useQuery({
+    queryKey: ['/analytics/congregation', selectedPeriod, mosques],
+    queryFn: createAuthAwareQuery(() => getCongregationAnalyticsForPeriod(selectedPeriod, mosques)),
+  });
+
   const isLoading = trendLoading || analyticsLoading || summaryLoading || yearlyQazaLoading || userStatsLoading;
 
+  // Average prayers completed per day in each bucket of the trend
+  const trendLabels = trendData?.points.map(point => format(parseISO(point.startDate), trendLabelFormats[trendData.granularity])) || [];
+  const trendDataPoints = trendData?.points.map(point => point.averagePerDay) || [];
+
   // Main trend chart data
   const mainChartData = {
-    labels: trendData?.labels || [],
+    labels: trendLabels,
     datasets: [
       {
         label: 'Completed Prayers',
-        data: trendData?.dataPoints || [],
+        data: trendDataPoints,
         borderColor: 'hsl(158, 70%, 20%)',
         backgroundColor: 'hsla(158, 70%, 20%, 0.1)',
         fill: true,
@@ -117,7 +148,7 @@ export function AnalyticsCharts() {
     labels: ['Fajr', 'Dhuhr', 'Asr', 'Maghrib', 'Isha'],
     datasets: [
       {
-        data: analyticsData ? Object.values(analyticsData).map(prayer => 
+        data: analyticsData ? Object.values(analyticsData.prayers).map(prayer => 
           prayer.total > 0 ? Math.round((prayer.completed / prayer.total) * 100) : 0
         ) : [0, 0, 0, 0, 0],
         backgroundColor: [
@@ -143,11 +174,11 @@ export function AnalyticsCharts() {
 
   // Period comparison chart data (reuses trend data for consistency)
   const comparisonData = {
-    labels: trendData?.labels || [],
+    labels: trendLabels,
     datasets: [
       {
         label: 'Prayers Completed',
-        data: trendData?.dataPoints || [],
+        data: trendDataPoints,
         backgroundColor: 'hsl(158, 70%, 20%)',
         borderRadius: 8,
       },
@@ -170,22 +201,90 @@ export function AnalyticsCharts() {
     },
   };
 
-  // Qaza vs On-time prayer performance chart data
+  // Voluntary prayer completion chart data (percentage of days in the period)
+  const voluntaryChartData = {
+    labels: trackedVoluntaryPrayers.map(prayer => voluntaryPrayerNames[prayer]),
+    datasets: [
+      {
+        label: 'Days Prayed (%)',
+        data: trackedVoluntaryPrayers.map(prayer => {
+          const stats = voluntaryData?.[prayer];
+          return stats && stats.total > 0 ? Math.round((stats.completed / stats.total) * 100) : 0;
+        }),
+        backgroundColor: 'hsl(45, 93%, 55%)',
+        borderRadius: 8,
+      },
+    ],
+  };
+
+  // Shared by the horizontal percentage charts (Sunnah & Nafl, Jama'ah)
+  const percentageBarChartOptions = {
+    indexAxis: 'y' as const,
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: false,
+      },
+    },
+    scales: {
+      x: {
+        beginAtZero: true,
+        max: 100,
+        ticks: {
+          callback: function(value: any) {
+            return value + '%';
+          },
+        },
+      },
+    },
+  };
+
+  // Jama'ah percentage of performed prayers, by prayer and by place
+  const toCongregationRate = (stats: { prayed: number; congregation: number }) =>
+    stats.prayed > 0 ? Math.round((stats.congregation / stats.prayed) * 100) : 0;
+  const congregationByPrayer = congregationData
+    ? Object.entries(congregationData.byPrayer).map(([prayer, stats]) => ({ label: prayerNames[prayer as keyof typeof prayerNames], ...stats }))
+    : [];
+  const congregationByPlace = congregationData?.byPlace ?? [];
+  const hasCongregationData = congregationByPrayer.some(item => item.congregation > 0) || congregationByPlace.length > 0;
+
+  const toCongregationChartData = (items: Array<{ label: string; prayed: number; congregation: number }>) => ({
+    labels: items.map(item => item.label),
+    datasets: [
+      {
+        label: "Prayed in Jama'ah (%)",
+        data: items.map(toCongregationRate),
+        backgroundColor: 'hsl(160, 60%, 45%)',
+        borderRadius: 8,
+      },
+    ],
+  });
+
+  // Prayer counts by state; excused prayers are left out as they are not owed
+  const onTimeCount = userStatsData?.onTimePrayers || 0;
+  const lateCount = userStatsData?.latePrayers || 0;
+  const madeUpCount = userStatsData?.madeUpPrayers || 0;
+  const missedCount = userStatsData?.qazaPrayers || 0;
+  const performanceTotal = onTimeCount + lateCount + madeUpCount + missedCount;
+
+  // Prayer performance chart data by state
   const qazaPerformanceData = {
-    labels: ['On-time Prayers', 'Qaza Prayers'],
+    labels: ['On-time Prayers', 'Late Prayers', 'Made-up Prayers', 'Qaza Prayers'],
     datasets: [
       {
-        data: [
-          userStatsData?.onTimePrayers || 0,
-          userStatsData?.qazaPrayers || 0,
-        ],
+        data: [onTimeCount, lateCount, madeUpCount, missedCount],
         backgroundColor: [
           'hsl(158, 70%, 50%)', // Green for on-time prayers
+          'hsl(45, 93%, 55%)', // Amber for late prayers
+          'hsl(217, 91%, 60%)', // Blue for made-up prayers
           'hsl(0, 84.2%, 60.2%)', // Red for Qaza prayers
         ],
         borderWidth: 2,
         borderColor: [
           'hsl(158, 70%, 40%)',
+          'hsl(45, 93%, 45%)',
+          'hsl(217, 91%, 50%)',
           'hsl(0, 84.2%, 50%)',
         ],
       },
@@ -208,8 +307,7 @@ export function AnalyticsCharts() {
       tooltip: {
         callbacks: {
           label: function(context: any) {
-            const total = (userStatsData?.onTimePrayers || 0) + (userStatsData?.qazaPrayers || 0);
-            const percentage = total > 0 ? Math.round((context.parsed / total) * 100) : 0;
+            const percentage = performanceTotal > 0 ? Math.round((context.parsed / performanceTotal) * 100) : 0;
             return `${context.label}: ${context.parsed} (${percentage}%)`;
           },
         },
@@ -360,25 +458,78 @@ export function AnalyticsCharts() {
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">On-time:</span>
               <span className="font-semibold text-green-600" data-testid="text-ontime-count">
-                {userStatsData?.onTimePrayers || 0}
+                {onTimeCount}
+              </span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Late:</span>
+              <span className="font-semibold text-amber-600" data-testid="text-late-count">
+                {lateCount}
+              </span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Made up:</span>
+              <span className="font-semibold text-blue-600" data-testid="text-madeup-count">
+                {madeUpCount}
               </span>
             </div>
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Qaza:</span>
               <span className="font-semibold text-red-600" data-testid="text-qaza-count">
-                {userStatsData?.qazaPrayers || 0}
+                {missedCount}
               </span>
             </div>
             <div className="flex justify-between text-sm font-medium border-t pt-2">
               <span className="text-muted-foreground">Total:</span>
               <span data-testid="text-performance-total">
-                {(userStatsData?.onTimePrayers || 0) + (userStatsData?.qazaPrayers || 0)}
+                {performanceTotal}
               </span>
             </div>
           </div>
         </div>
       </div>
 
+      {/* Voluntary Prayers */}
+      {trackedVoluntaryPrayers.length > 0 && (
+        <div className="glass-card rounded-2xl p-6">
+          <h3 className="text-lg font-semibold mb-4" data-testid="text-voluntary-prayers-chart">
+            Sunnah & Nafl
+          </h3>
+          <div className="h-48">
+            <Bar data={voluntaryChartData} options={percentageBarChartOptions} />
+          </div>
+        </div>
+      )}
+
+      {/* Congregation (Jama'ah) */}
+      {hasCongregationData && (
+        <div className="glass-card rounded-2xl p-6" data-testid="card-congregation-analytics">
+          <h3 className="text-lg font-semibold mb-4" data-testid="text-congregation-chart">
+            Jama'ah
+          </h3>
+          <div className="grid md:grid-cols-2 gap-6">
+            <div>
+              <h4 className="text-sm font-medium text-muted-foreground mb-2">By prayer</h4>
+              <div className="h-48">
+                <Bar data={toCongregationChartData(congregationByPrayer)} options={percentageBarChartOptions} />
+              </div>
+            </div>
+            <div>
+              <h4 className="text-sm font-medium text-muted-foreground mb-2">By place</h4>
+              {congregationByPlace.length > 0 ? (
+                <div className="h-48">
+                  <Bar data={toCongregationChartData(congregationByPlace)} options={percentageBarChartOptions} />
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground" data-testid="text-congregation-no-places">
+                  Tag where you prayed in the tracker to see this breakdown.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Statistics Summary */}
       <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="glass-card rounded-2xl p-6 text-center">
@@ -0,0 +1,210 @@
+import { useState } from 'react';
+import { CalendarOff, Plus, Square, Trash2 } from 'lucide-react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { apiService } from '@/lib/api-service';
+import { createAuthAwareQuery } from '@/lib/authUtils';
+import { getTodayString } from '@/lib/prayer-utils';
+import { useUserSettings } from '@/hooks/use-user-settings';
+
+type PeriodForm = {
+  startDate: string;
+  endDate: string;
+  label: string;
+};
+
+const emptyForm: PeriodForm = {
+  startDate: '',
+  endDate: '',
+  label: '',
+};
+
+// Helper function to show a period's dates in a short, readable form
+const formatPeriodDates = (startDate: string, endDate: string | null) => {
+  const format = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  return endDate ? `${format(startDate)} – ${format(endDate)}` : `Since ${format(startDate)}`;
+};
+
+export function ExcusedPeriodsSettings() {
+  const { data: settings } = useUserSettings();
+  const [form, setForm] = useState<PeriodForm>(emptyForm);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: periods = [], isLoading } = useQuery({
+    queryKey: ['/api/excused-periods'],
+    queryFn: createAuthAwareQuery(() => apiService.getExcusedPeriods()),
+  });
+
+  // Excused days change streaks and qaza totals, so refresh them along with the list
+  const refreshAfterChange = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/excused-periods'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/stats/yearly-qaza'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/qaza/balance'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/qaza/entries'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/qaza/plan'] });
+  };
+
+  const showError = (error: unknown) => {
+    console.error('Failed to save excused period:', error);
+    toast({
+      title: "Save Failed ❌",
+      description: "Failed to save the excused period. Please check the dates.",
+      variant: "destructive",
+    });
+  };
+
+  const createPeriodMutation = useMutation({
+    mutationFn: () => apiService.createExcusedPeriod({
+      startDate: form.startDate,
+      endDate: form.endDate || null,
+      label: form.label.trim() || null,
+    }),
+    onSuccess: () => {
+      toast({
+        title: "Period Added 🌙",
+        description: "Prayers in this period won't break your streak or count as qaza.",
+      });
+      setForm(emptyForm);
+      refreshAfterChange();
+    },
+    onError: showError,
+  });
+
+  const endPeriodMutation = useMutation({
+    mutationFn: (id: string) => apiService.updateExcusedPeriod(id, { endDate: getTodayString(settings) }),
+    onSuccess: refreshAfterChange,
+    onError: showError,
+  });
+
+  const deletePeriodMutation = useMutation({
+    mutationFn: (id: string) => apiService.deleteExcusedPeriod(id),
+    onSuccess: refreshAfterChange,
+    onError: showError,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="glass-card rounded-2xl p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-6 bg-muted rounded w-48"></div>
+          <div className="h-10 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass-card rounded-2xl p-6 space-y-6" data-testid="settings-excused-periods">
+      <div>
+        <h3 className="text-lg font-semibold" data-testid="text-excused-periods-title">
+          Excused Periods
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          Days when prayers are not owed are skipped in streaks, perfect weeks and qaza totals.
+          Labels are optional and only visible to you.
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="excused-start-date">Start date</Label>
+          <Input
+            id="excused-start-date"
+            type="date"
+            max={getTodayString(settings)}
+            value={form.startDate}
+            onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+            data-testid="input-excused-start-date"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="excused-end-date">End date</Label>
+          <Input
+            id="excused-end-date"
+            type="date"
+            min={form.startDate || undefined}
+            value={form.endDate}
+            onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+            data-testid="input-excused-end-date"
+          />
+          <p className="text-xs text-muted-foreground">Leave empty if it has not ended yet.</p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="excused-label">Label (optional)</Label>
+          <Input
+            id="excused-label"
+            placeholder="e.g. Break"
+            maxLength={50}
+            value={form.label}
+            onChange={(e) => setForm({ ...form, label: e.target.value })}
+            data-testid="input-excused-label"
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          onClick={() => createPeriodMutation.mutate()}
+          disabled={!form.startDate || createPeriodMutation.isPending}
+          className="min-w-[100px]"
+          data-testid="button-add-excused-period"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          {createPeriodMutation.isPending ? 'Adding...' : 'Add period'}
+        </Button>
+      </div>
+
+      {periods.length > 0 && (
+        <div className="space-y-2" data-testid="list-excused-periods">
+          {periods.map((period) => (
+            <div
+              key={period.id}
+              className="flex items-center justify-between gap-4 p-3 rounded-xl bg-muted/30"
+              data-testid={`excused-period-${period.id}`}
+            >
+              <div className="flex items-center gap-3">
+                <CalendarOff className="h-4 w-4 text-muted-foreground" />
+                <div>
+                  <div className="text-sm font-medium">{formatPeriodDates(period.startDate, period.endDate)}</div>
+                  {period.label && (
+                    <div className="text-xs text-muted-foreground">{period.label}</div>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                {!period.endDate && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => endPeriodMutation.mutate(period.id)}
+                    disabled={endPeriodMutation.isPending}
+                    data-testid={`button-end-excused-period-${period.id}`}
+                  >
+                    <Square className="mr-2 h-3 w-3" />
+                    End today
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deletePeriodMutation.mutate(period.id)}
+                  disabled={deletePeriodMutation.isPending}
+                  aria-label="Delete excused period"
+                  data-testid={`button-delete-excused-period-${period.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
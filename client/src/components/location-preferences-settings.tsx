@@ -0,0 +1,341 @@
+import { useState, useEffect } from 'react';
+import { LocateFixed, Save } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useUserSettings } from '@/hooks/use-user-settings';
+import { apiService } from '@/lib/api-service';
+import type { Language } from '@shared/schema';
+
+type PreferencesForm = {
+  locationName: string;
+  latitude: string;
+  longitude: string;
+  timezone: string;
+  weekStartDay: string;
+  language: Language;
+  hijriAdjustment: string;
+  attendsJumuah: boolean;
+  dayStartsAtFajr: boolean;
+};
+
+const defaultForm: PreferencesForm = {
+  locationName: '',
+  latitude: '',
+  longitude: '',
+  timezone: '',
+  weekStartDay: '1',
+  language: 'en',
+  hijriAdjustment: '0',
+  attendsJumuah: true,
+  dayStartsAtFajr: false,
+};
+
+const weekDays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const hijriAdjustments = [
+  { value: '-2', label: '-2 days' },
+  { value: '-1', label: '-1 day' },
+  { value: '0', label: 'None (Umm al-Qura)' },
+  { value: '1', label: '+1 day' },
+  { value: '2', label: '+2 days' },
+];
+
+const languageNames: Record<Language, string> = {
+  en: 'English',
+  ar: 'العربية (Arabic)',
+  ur: 'اردو (Urdu)',
+};
+
+// Time zones offered as suggestions; any valid IANA zone can still be typed in
+const timeZones = Intl.supportedValuesOf('timeZone');
+
+// Empty inputs clear the stored value
+const toNullableNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+const toNullableString = (value: string) => (value.trim() === '' ? null : value.trim());
+
+export function LocationPreferencesSettings() {
+  const { data: settings, isLoading } = useUserSettings();
+  const [form, setForm] = useState<PreferencesForm>(defaultForm);
+  const [isLocating, setIsLocating] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Populate the form once settings are loaded
+  useEffect(() => {
+    if (settings) {
+      setForm({
+        locationName: settings.locationName ?? '',
+        latitude: settings.latitude?.toString() ?? '',
+        longitude: settings.longitude?.toString() ?? '',
+        timezone: settings.timezone ?? '',
+        weekStartDay: settings.weekStartDay.toString(),
+        language: settings.language,
+        hijriAdjustment: settings.hijriAdjustment.toString(),
+        attendsJumuah: settings.attendsJumuah,
+        dayStartsAtFajr: settings.dayStartsAtFajr,
+      });
+    }
+  }, [settings]);
+
+  // Fill coordinates and time zone from the browser
+  const detectCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast({
+        title: "Location Unavailable 📍",
+        description: "Your browser does not support location detection.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setForm((current) => ({
+          ...current,
+          latitude: position.coords.latitude.toFixed(4),
+          longitude: position.coords.longitude.toFixed(4),
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        }));
+        setIsLocating(false);
+      },
+      (error) => {
+        console.error('Failed to get current location:', error);
+        toast({
+          title: "Location Unavailable 📍",
+          description: "Could not detect your location. Please enter it manually.",
+          variant: "destructive",
+        });
+        setIsLocating(false);
+      }
+    );
+  };
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: () => apiService.updateUserSettings({
+      locationName: toNullableString(form.locationName),
+      latitude: toNullableNumber(form.latitude),
+      longitude: toNullableNumber(form.longitude),
+      timezone: toNullableString(form.timezone),
+      weekStartDay: Number(form.weekStartDay),
+      language: form.language,
+      hijriAdjustment: Number(form.hijriAdjustment),
+      attendsJumuah: form.attendsJumuah,
+      dayStartsAtFajr: form.dayStartsAtFajr,
+    }),
+    onSuccess: () => {
+      toast({
+        title: "Settings Saved! ✅",
+        description: "Your location and preferences have been updated.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+    },
+    onError: (error) => {
+      console.error('Failed to save settings:', error);
+      toast({
+        title: "Save Failed ❌",
+        description: "Failed to save settings. Please check your location and time zone.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="glass-card rounded-2xl p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-6 bg-muted rounded w-48"></div>
+          <div className="h-10 bg-muted rounded"></div>
+          <div className="h-10 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass-card rounded-2xl p-6 space-y-6" data-testid="settings-preferences">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold" data-testid="text-preferences-title">
+            Location & Preferences
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            Prayer times are calculated for this location. Makkah is used until one is set.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={detectCurrentLocation}
+          disabled={isLocating}
+          data-testid="button-use-current-location"
+        >
+          <LocateFixed className="mr-2 h-4 w-4" />
+          {isLocating ? 'Locating...' : 'Use my location'}
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="location-name">Location name</Label>
+        <Input
+          id="location-name"
+          placeholder="e.g. London, UK"
+          value={form.locationName}
+          onChange={(e) => setForm({ ...form, locationName: e.target.value })}
+          data-testid="input-location-name"
+        />
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="latitude">Latitude</Label>
+          <Input
+            id="latitude"
+            type="number"
+            step="0.0001"
+            min="-90"
+            max="90"
+            value={form.latitude}
+            onChange={(e) => setForm({ ...form, latitude: e.target.value })}
+            data-testid="input-latitude"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="longitude">Longitude</Label>
+          <Input
+            id="longitude"
+            type="number"
+            step="0.0001"
+            min="-180"
+            max="180"
+            value={form.longitude}
+            onChange={(e) => setForm({ ...form, longitude: e.target.value })}
+            data-testid="input-longitude"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="timezone">Time zone</Label>
+          <Input
+            id="timezone"
+            list="timezone-options"
+            placeholder="e.g. Europe/London"
+            value={form.timezone}
+            onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+            data-testid="input-timezone"
+          />
+          <datalist id="timezone-options">
+            {timeZones.map((zone) => (
+              <option key={zone} value={zone} />
+            ))}
+          </datalist>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="week-start-day">Week starts on</Label>
+          <Select
+            value={form.weekStartDay}
+            onValueChange={(value) => setForm({ ...form, weekStartDay: value })}
+          >
+            <SelectTrigger id="week-start-day" data-testid="select-week-start-day">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {weekDays.map((day, index) => (
+                <SelectItem key={day} value={index.toString()}>
+                  {day}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="language">Language</Label>
+          <Select
+            value={form.language}
+            onValueChange={(value) => setForm({ ...form, language: value as Language })}
+          >
+            <SelectTrigger id="language" data-testid="select-language">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(languageNames).map(([code, name]) => (
+                <SelectItem key={code} value={code}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="hijri-adjustment">Hijri date adjustment</Label>
+          <Select
+            value={form.hijriAdjustment}
+            onValueChange={(value) => setForm({ ...form, hijriAdjustment: value })}
+          >
+            <SelectTrigger id="hijri-adjustment" data-testid="select-hijri-adjustment">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {hijriAdjustments.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-start gap-3">
+          <Checkbox
+            id="attends-jumuah"
+            checked={form.attendsJumuah}
+            onCheckedChange={(checked) => setForm({ ...form, attendsJumuah: checked === true })}
+            data-testid="checkbox-attends-jumuah"
+          />
+          <div className="space-y-1">
+            <Label htmlFor="attends-jumuah">I attend Jumu'ah</Label>
+            <p className="text-xs text-muted-foreground">
+              On Fridays the tracker shows Jumu'ah in place of Dhuhr and keeps a Jumu'ah streak.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-start gap-3">
+          <Checkbox
+            id="day-starts-at-fajr"
+            checked={form.dayStartsAtFajr}
+            onCheckedChange={(checked) => setForm({ ...form, dayStartsAtFajr: checked === true })}
+            data-testid="checkbox-day-starts-at-fajr"
+          />
+          <div className="space-y-1">
+            <Label htmlFor="day-starts-at-fajr">Day starts at Fajr</Label>
+            <p className="text-xs text-muted-foreground">
+              Prayers logged between midnight and Fajr count toward the previous day, so a late Isha stays on the right date.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          onClick={() => saveSettingsMutation.mutate()}
+          disabled={saveSettingsMutation.isPending}
+          className="min-w-[100px]"
+          data-testid="button-save-preferences"
+        >
+          <Save className="mr-2 h-4 w-4" />
+          {saveSettingsMutation.isPending ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+    </div>
+  );
+}
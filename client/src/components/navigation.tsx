@@ -1,5 +1,5 @@
 import { Link, useLocation } from 'wouter';
-import { Home, Trophy, BarChart3, Calendar } from 'lucide-react';
+import { Home, Trophy, BarChart3, Calendar, Settings } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 const navItems = [
@@ -7,6 +7,7 @@ const navItems = [
   { path: '/qaza', icon: Calendar, label: 'Qaza' },
   { path: '/achievements', icon: Trophy, label: 'Achievements' },
   { path: '/analytics', icon: BarChart3, label: 'Analytics' },
+  { path: '/settings', icon: Settings, label: 'Settings' },
 ];
 
 export function Navigation() {
@@ -0,0 +1,286 @@
+import { useState, useEffect } from 'react';
+import { Save } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useUserSettings } from '@/hooks/use-user-settings';
+import { apiService } from '@/lib/api-service';
+import {
+  CALCULATION_METHODS,
+  PRAYER_TIME_KEYS,
+  type CalculationMethod,
+  type AsrMethod,
+  type HighLatitudeRule,
+  type PrayerTimeKey,
+  type PrayerTimeOffsets,
+} from '@shared/prayer-times';
+
+type CalculationForm = {
+  calculationMethod: CalculationMethod;
+  asrMethod: AsrMethod;
+  customFajrAngle: string;
+  customIshaAngle: string;
+  customIshaInterval: string;
+  highLatitudeRule: HighLatitudeRule;
+  prayerOffsets: Record<PrayerTimeKey, string>;
+};
+
+const emptyOffsets: Record<PrayerTimeKey, string> = {
+  fajr: '',
+  sunrise: '',
+  dhuhr: '',
+  asr: '',
+  maghrib: '',
+  isha: '',
+};
+
+const prayerTimeLabels: Record<PrayerTimeKey, string> = {
+  fajr: 'Fajr',
+  sunrise: 'Sunrise',
+  dhuhr: 'Dhuhr',
+  asr: 'Asr',
+  maghrib: 'Maghrib',
+  isha: 'Isha',
+};
+
+const defaultForm: CalculationForm = {
+  calculationMethod: 'MWL',
+  asrMethod: 'standard',
+  customFajrAngle: '',
+  customIshaAngle: '',
+  customIshaInterval: '',
+  highLatitudeRule: 'middleOfNight',
+  prayerOffsets: emptyOffsets,
+};
+
+// Empty inputs clear the stored value
+const toNullableNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+// Helper function to drop empty and zero offsets before saving
+const toPrayerOffsets = (offsets: Record<PrayerTimeKey, string>): PrayerTimeOffsets => {
+  const result: PrayerTimeOffsets = {};
+  PRAYER_TIME_KEYS.forEach((key) => {
+    const minutes = toNullableNumber(offsets[key]);
+    if (minutes) {
+      result[key] = minutes;
+    }
+  });
+  return result;
+};
+
+export function PrayerCalculationSettings() {
+  const { data: settings, isLoading } = useUserSettings();
+  const [form, setForm] = useState<CalculationForm>(defaultForm);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Populate the form once settings are loaded
+  useEffect(() => {
+    if (settings) {
+      setForm({
+        calculationMethod: settings.calculationMethod,
+        asrMethod: settings.asrMethod,
+        customFajrAngle: settings.customFajrAngle?.toString() ?? '',
+        customIshaAngle: settings.customIshaAngle?.toString() ?? '',
+        customIshaInterval: settings.customIshaInterval?.toString() ?? '',
+        highLatitudeRule: settings.highLatitudeRule,
+        prayerOffsets: {
+          ...emptyOffsets,
+          ...Object.fromEntries(
+            Object.entries(settings.prayerOffsets ?? {}).map(([key, minutes]) => [key, minutes?.toString() ?? ''])
+          ),
+        },
+      });
+    }
+  }, [settings]);
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: () => apiService.updateUserSettings({
+      calculationMethod: form.calculationMethod,
+      asrMethod: form.asrMethod,
+      customFajrAngle: toNullableNumber(form.customFajrAngle),
+      customIshaAngle: toNullableNumber(form.customIshaAngle),
+      customIshaInterval: toNullableNumber(form.customIshaInterval),
+      highLatitudeRule: form.highLatitudeRule,
+      prayerOffsets: toPrayerOffsets(form.prayerOffsets),
+    }),
+    onSuccess: () => {
+      toast({
+        title: "Settings Saved! ✅",
+        description: "Prayer times will now use your calculation settings.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+    },
+    onError: (error) => {
+      console.error('Failed to save settings:', error);
+      toast({
+        title: "Save Failed ❌",
+        description: "Failed to save settings. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="glass-card rounded-2xl p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-6 bg-muted rounded w-48"></div>
+          <div className="h-10 bg-muted rounded"></div>
+          <div className="h-10 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass-card rounded-2xl p-6 space-y-6" data-testid="settings-calculation">
+      <div>
+        <h3 className="text-lg font-semibold" data-testid="text-calculation-title">
+          Prayer Time Calculation
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          Choose the convention your local mosque follows.
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="calculation-method">Calculation method</Label>
+          <Select
+            value={form.calculationMethod}
+            onValueChange={(value) => setForm({ ...form, calculationMethod: value as CalculationMethod })}
+          >
+            <SelectTrigger id="calculation-method" data-testid="select-calculation-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(CALCULATION_METHODS).map(([key, method]) => (
+                <SelectItem key={key} value={key}>
+                  {method.name}
+                </SelectItem>
+              ))}
+              <SelectItem value="Custom">Custom angles</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="asr-method">Asr calculation</Label>
+          <Select
+            value={form.asrMethod}
+            onValueChange={(value) => setForm({ ...form, asrMethod: value as AsrMethod })}
+          >
+            <SelectTrigger id="asr-method" data-testid="select-asr-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="standard">Standard (Shafi'i, Maliki, Hanbali)</SelectItem>
+              <SelectItem value="hanafi">Hanafi</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {form.calculationMethod === 'Custom' && (
+        <div className="grid gap-4 md:grid-cols-3" data-testid="settings-custom-angles">
+          <div className="space-y-2">
+            <Label htmlFor="custom-fajr-angle">Fajr angle (°)</Label>
+            <Input
+              id="custom-fajr-angle"
+              type="number"
+              step="0.1"
+              value={form.customFajrAngle}
+              onChange={(e) => setForm({ ...form, customFajrAngle: e.target.value })}
+              data-testid="input-custom-fajr-angle"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="custom-isha-angle">Isha angle (°)</Label>
+            <Input
+              id="custom-isha-angle"
+              type="number"
+              step="0.1"
+              value={form.customIshaAngle}
+              onChange={(e) => setForm({ ...form, customIshaAngle: e.target.value })}
+              data-testid="input-custom-isha-angle"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="custom-isha-interval">Isha minutes after Maghrib</Label>
+            <Input
+              id="custom-isha-interval"
+              type="number"
+              step="1"
+              placeholder="Use angle"
+              value={form.customIshaInterval}
+              onChange={(e) => setForm({ ...form, customIshaInterval: e.target.value })}
+              data-testid="input-custom-isha-interval"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="high-latitude-rule">High latitude adjustment</Label>
+        <Select
+          value={form.highLatitudeRule}
+          onValueChange={(value) => setForm({ ...form, highLatitudeRule: value as HighLatitudeRule })}
+        >
+          <SelectTrigger id="high-latitude-rule" data-testid="select-high-latitude-rule">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="middleOfNight">Middle of the night</SelectItem>
+            <SelectItem value="oneSeventh">One-seventh of the night</SelectItem>
+            <SelectItem value="angleBased">Angle-based</SelectItem>
+            <SelectItem value="none">None</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Keeps Fajr and Isha within the night when twilight never fully ends, as in summer in northern Europe.
+        </p>
+      </div>
+
+      <div className="space-y-2" data-testid="settings-prayer-offsets">
+        <Label>Manual adjustments (minutes)</Label>
+        <p className="text-xs text-muted-foreground">
+          Shift individual times to match your mosque's published timetable.
+        </p>
+        <div className="grid gap-4 grid-cols-2 md:grid-cols-3">
+          {PRAYER_TIME_KEYS.map((key) => (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={`offset-${key}`} className="text-xs">{prayerTimeLabels[key]}</Label>
+              <Input
+                id={`offset-${key}`}
+                type="number"
+                step="1"
+                min="-60"
+                max="60"
+                placeholder="0"
+                value={form.prayerOffsets[key]}
+                onChange={(e) => setForm({ ...form, prayerOffsets: { ...form.prayerOffsets, [key]: e.target.value } })}
+                data-testid={`input-offset-${key}`}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          onClick={() => saveSettingsMutation.mutate()}
+          disabled={saveSettingsMutation.isPending}
+          className="min-w-[100px]"
+          data-testid="button-save-calculation"
+        >
+          <Save className="mr-2 h-4 w-4" />
+          {saveSettingsMutation.isPending ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,38 @@
-import { Bell } from 'lucide-react';
-import { usePrayer } from '../contexts/prayer-context';
-import { prayerNames, prayerTimes, prayerIcons } from '../lib/prayer-utils';
-import { PrayerType } from '@shared/schema';
+import { Bell, Plane } from 'lucide-react';
+import { usePrayer, type PrayerTags } from '../contexts/prayer-context';
+import { prayerNames, prayerIcons, voluntaryPrayerNames, getPrayerTimes, JUMUAH_NAME } from '../lib/prayer-utils';
+import { PrayerType, voluntaryPrayerTypes } from '@shared/schema';
+import { getPrayerState, type PrayerState } from '@shared/prayer-status';
 import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { COMBINABLE_PAIRS } from '@shared/prayer-times';
+import { useUserSettings } from '@/hooks/use-user-settings';
+import { useSavedMosques } from '@/hooks/use-saved-mosques';
+
+// Badges for states other than plain on-time or not yet prayed
+const stateBadges: Partial<Record<PrayerState, { label: string; className: string }>> = {
+  late: { label: 'Late', className: 'bg-amber-500/10 text-amber-600' },
+  'made-up': { label: 'Made up', className: 'bg-blue-500/10 text-blue-600' },
+  excused: { label: 'Excused', className: 'bg-muted text-muted-foreground' },
+};
+
+// Helper function to turn a place select value into tags; saved mosques are 'mosque:<id>'
+const toPlaceTags = (value: string): PrayerTags => {
+  if (value.startsWith('mosque:')) {
+    return { place: 'mosque', mosqueId: value.slice('mosque:'.length) };
+  }
+  return { place: value as PrayerTags['place'] };
+};
 
 export function PrayerTracker() {
-  const { todayPrayers, togglePrayer, isLoading } = usePrayer();
+  const { todayPrayers, todayVoluntaryPrayers, togglePrayer, toggleVoluntaryPrayer, combinePrayers, setPrayedDhuhrInstead, tagPrayer, isTravelling, isJumuahToday, isLoading } = usePrayer();
+  const { data: settings } = useUserSettings();
+  const prayerTimes = getPrayerTimes(new Date(), settings);
+  const trackedVoluntaryPrayers = voluntaryPrayerTypes.filter(prayer => settings?.trackedVoluntaryPrayers?.includes(prayer));
+  const showJumuah = isJumuahToday && todayPrayers.dhuhr.jumuah !== false;
+  const { data: mosques = [] } = useSavedMosques();
 
   const handleNotificationClick = (prayer: PrayerType, e: React.MouseEvent) => {
     e.stopPropagation();
@@ -35,59 +62,193 @@ export function PrayerTracker() {
 
   return (
     <div className="glass-card rounded-2xl p-6 mb-6">
+      {isTravelling && (
+        <div className="flex items-start gap-3 p-4 mb-4 rounded-xl bg-primary/5" data-testid="banner-travel-mode">
+          <Plane className="w-5 h-5 text-primary mt-0.5" />
+          <div className="text-sm">
+            <p className="font-semibold text-foreground">Travel mode</p>
+            <p className="text-muted-foreground">
+              Dhuhr, Asr and Isha are shortened to two rak'ahs. Dhuhr with Asr and Maghrib with Isha may be combined.
+            </p>
+          </div>
+        </div>
+      )}
       <div className="space-y-3">
         {Object.entries(todayPrayers).map(([prayer, status]) => {
           const prayerKey = prayer as PrayerType;
+          const badge = stateBadges[getPrayerState(status)];
+          const prayerName = prayerKey === 'dhuhr' && showJumuah ? JUMUAH_NAME : prayerNames[prayerKey];
+          
+          const placeValue = status.place === 'mosque' && status.mosqueId ? `mosque:${status.mosqueId}` : status.place;
           
           return (
             <div
               key={prayer}
               className={cn(
-                "flex items-center justify-between p-4 rounded-xl transition-all duration-300 hover:bg-muted/50",
+                "p-4 rounded-xl transition-all duration-300 hover:bg-muted/50",
                 status.completed ? "bg-primary/5" : "bg-muted/30"
               )}
               data-testid={`prayer-item-${prayer}`}
             >
-              <div className="flex items-center gap-4 flex-1">
-                <input
-                  type="checkbox"
-                  checked={status.completed}
-                  onChange={() => togglePrayer(prayerKey)}
-                  className="prayer-checkbox cursor-pointer"
-                  data-testid={`checkbox-prayer-${prayer}`}
-                />
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-4 flex-1">
+                  <input
+                    type="checkbox"
+                    checked={status.completed}
+                    onChange={() => togglePrayer(prayerKey)}
+                    className="prayer-checkbox cursor-pointer"
+                    data-testid={`checkbox-prayer-${prayer}`}
+                  />
                 
-                <div 
-                  className="flex items-center gap-3 flex-1 cursor-pointer"
-                  onClick={() => togglePrayer(prayerKey)}
-                >
-                  <span className="text-2xl" data-testid={`emoji-prayer-${prayer}`}>
-                    {prayerIcons[prayerKey]}
-                  </span>
-                  <h4 className="font-semibold text-foreground" data-testid={`text-prayer-name-${prayer}`}>
-                    {prayerNames[prayerKey]}
-                  </h4>
+                  <div 
+                    className="flex items-center gap-3 flex-1 cursor-pointer"
+                    onClick={() => togglePrayer(prayerKey)}
+                  >
+                    <span className="text-2xl" data-testid={`emoji-prayer-${prayer}`}>
+                      {prayerKey === 'dhuhr' && showJumuah ? '🕌' : prayerIcons[prayerKey]}
+                    </span>
+                    <h4 className="font-semibold text-foreground" data-testid={`text-prayer-name-${prayer}`}>
+                      {prayerName}
+                    </h4>
+                    {badge && (
+                      <span
+                        className={cn("text-xs font-medium px-2 py-0.5 rounded-full", badge.className)}
+                        data-testid={`badge-prayer-state-${prayer}`}
+                      >
+                        {badge.label}
+                      </span>
+                    )}
+                    {status.combined && (
+                      <span
+                        className="text-xs font-medium px-2 py-0.5 rounded-full bg-primary/10 text-primary"
+                        data-testid={`badge-prayer-combined-${prayer}`}
+                      >
+                        Combined
+                      </span>
+                    )}
+                    {status.shortened && (
+                      <span
+                        className="text-xs font-medium px-2 py-0.5 rounded-full bg-primary/10 text-primary"
+                        data-testid={`badge-prayer-shortened-${prayer}`}
+                      >
+                        2 rak'ahs
+                      </span>
+                    )}
+                  </div>
                 </div>
-              </div>
               
-              <div className="flex items-center gap-4">
-                <div className="text-xl font-semibold text-foreground" data-testid={`text-prayer-time-${prayer}`}>
-                  {prayerTimes[prayerKey]}
-                </div>
+                <div className="flex items-center gap-4">
+                  <div className="text-xl font-semibold text-foreground" data-testid={`text-prayer-time-${prayer}`}>
+                    {prayerTimes[prayerKey]}
+                  </div>
                 
-                <button
-                  onClick={(e) => handleNotificationClick(prayerKey, e)}
-                  className="p-2 hover:bg-muted/30 rounded-full transition-colors"
-                  data-testid={`button-notification-${prayer}`}
-                  aria-label={`Set notification for ${prayerNames[prayerKey]}`}
-                >
-                  <Bell className="w-5 h-5 text-muted-foreground" />
-                </button>
+                  <button
+                    onClick={(e) => handleNotificationClick(prayerKey, e)}
+                    className="p-2 hover:bg-muted/30 rounded-full transition-colors"
+                    data-testid={`button-notification-${prayer}`}
+                    aria-label={`Set notification for ${prayerName}`}
+                  >
+                    <Bell className="w-5 h-5 text-muted-foreground" />
+                  </button>
+                </div>
               </div>
+              {status.completed && (
+                <div className="flex flex-wrap items-center gap-4 mt-3 pl-10" data-testid={`prayer-tags-${prayer}`}>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`congregation-${prayer}`}
+                      checked={status.congregation ?? false}
+                      onCheckedChange={(checked) => tagPrayer(prayerKey, { place: status.place, mosqueId: status.mosqueId, congregation: checked === true })}
+                      data-testid={`checkbox-congregation-${prayer}`}
+                    />
+                    <label htmlFor={`congregation-${prayer}`} className="text-sm text-muted-foreground cursor-pointer">
+                      In jama'ah
+                    </label>
+                  </div>
+                  <Select
+                    value={placeValue}
+                    onValueChange={(value) => tagPrayer(prayerKey, { congregation: status.congregation, ...toPlaceTags(value) })}
+                  >
+                    <SelectTrigger className="h-8 w-44 text-sm" data-testid={`select-place-${prayer}`}>
+                      <SelectValue placeholder="Where?" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="home">Home</SelectItem>
+                      <SelectItem value="work">Work</SelectItem>
+                      <SelectItem value="mosque">Mosque</SelectItem>
+                      {mosques.map((mosque) => (
+                        <SelectItem key={mosque.id} value={`mosque:${mosque.id}`}>
+                          {mosque.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
             </div>
           );
         })}
       </div>
+      {isJumuahToday && todayPrayers.dhuhr.completed && (
+        <div className="flex items-center gap-3 mt-4 px-4" data-testid="jumuah-dhuhr-toggle">
+          <Checkbox
+            id="prayed-dhuhr-instead"
+            checked={todayPrayers.dhuhr.jumuah === false}
+            onCheckedChange={(checked) => setPrayedDhuhrInstead(checked === true)}
+            data-testid="checkbox-prayed-dhuhr-instead"
+          />
+          <label htmlFor="prayed-dhuhr-instead" className="text-sm text-muted-foreground cursor-pointer">
+            I prayed Dhuhr instead of Jumu'ah today
+          </label>
+        </div>
+      )}
+      {isTravelling && (
+        <div className="flex flex-wrap gap-3 mt-4" data-testid="travel-combine-actions">
+          {COMBINABLE_PAIRS.map(([first, second]) => (
+            !todayPrayers[first].completed && !todayPrayers[second].completed && (
+              <Button
+                key={first}
+                variant="outline"
+                size="sm"
+                onClick={() => combinePrayers(first)}
+                data-testid={`button-combine-${first}-${second}`}
+              >
+                Combine {prayerNames[first]} + {prayerNames[second]}
+              </Button>
+            )
+          ))}
+        </div>
+      )}
+      {trackedVoluntaryPrayers.length > 0 && (
+        <div className="mt-6 pt-6 border-t border-border" data-testid="voluntary-prayers">
+          <h4 className="text-sm font-semibold text-muted-foreground mb-3">Sunnah & Nafl</h4>
+          <div className="grid gap-2 sm:grid-cols-2">
+            {trackedVoluntaryPrayers.map((prayer) => {
+              const completed = todayVoluntaryPrayers[prayer]?.completed ?? false;
+              
+              return (
+                <label
+                  key={prayer}
+                  className={cn(
+                    "flex items-center gap-3 p-3 rounded-xl cursor-pointer transition-all duration-300 hover:bg-muted/50",
+                    completed ? "bg-primary/5" : "bg-muted/30"
+                  )}
+                  data-testid={`voluntary-prayer-item-${prayer}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={completed}
+                    onChange={() => toggleVoluntaryPrayer(prayer)}
+                    className="prayer-checkbox cursor-pointer"
+                    data-testid={`checkbox-voluntary-prayer-${prayer}`}
+                  />
+                  <span className="text-sm font-medium text-foreground">{voluntaryPrayerNames[prayer]}</span>
+                </label>
+              );
+            })}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,275 @@
+import { useState, useEffect } from 'react';
+import { Calculator, Plus, Save, Trash2 } from 'lucide-react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { apiService } from '@/lib/api-service';
+import { createAuthAwareQuery } from '@/lib/authUtils';
+import { getTodayString } from '@/lib/prayer-utils';
+import { useUserSettings } from '@/hooks/use-user-settings';
+import { estimateLifetimeQaza, type PrayedPeriod } from '@shared/qaza-estimate';
+
+type EstimateForm = {
+  maturityDate: string;
+  trackingStartDate: string;
+  prayedPeriods: PrayedPeriod[];
+  excusedDaysPerMonth: string;
+  additionalExcusedDays: string;
+};
+
+// Empty number inputs count as zero
+const toNumber = (value: string) => (value.trim() === '' ? 0 : Number(value));
+
+export function QazaEstimator() {
+  const { data: settings } = useUserSettings();
+  const [form, setForm] = useState<EstimateForm>(() => ({
+    maturityDate: '',
+    trackingStartDate: getTodayString(settings),
+    prayedPeriods: [],
+    excusedDaysPerMonth: '0',
+    additionalExcusedDays: '0',
+  }));
+  const [isEditing, setIsEditing] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: estimate, isLoading } = useQuery({
+    queryKey: ['/api/qaza/estimate'],
+    queryFn: createAuthAwareQuery(() => apiService.getQazaEstimate()),
+  });
+
+  // Populate the form from the saved assumptions so they can be edited
+  useEffect(() => {
+    if (estimate) {
+      setForm({
+        maturityDate: estimate.maturityDate,
+        trackingStartDate: estimate.trackingStartDate,
+        prayedPeriods: estimate.prayedPeriods,
+        excusedDaysPerMonth: estimate.excusedDaysPerMonth.toString(),
+        additionalExcusedDays: estimate.additionalExcusedDays.toString(),
+      });
+    }
+  }, [estimate]);
+
+  const assumptions = {
+    maturityDate: form.maturityDate,
+    trackingStartDate: form.trackingStartDate,
+    prayedPeriods: form.prayedPeriods.filter(period => period.startDate && period.endDate),
+    excusedDaysPerMonth: toNumber(form.excusedDaysPerMonth),
+    additionalExcusedDays: toNumber(form.additionalExcusedDays),
+  };
+  const isFormValid = !!form.maturityDate && !!form.trackingStartDate && form.maturityDate < form.trackingStartDate;
+  const preview = isFormValid ? estimateLifetimeQaza(assumptions) : null;
+
+  const saveEstimateMutation = useMutation({
+    mutationFn: () => apiService.saveQazaEstimate(assumptions),
+    onSuccess: ({ estimate }) => {
+      toast({
+        title: "Estimate Saved! ✅",
+        description: `${estimate.prayersOwed} of each prayer added to your qaza ledger.`,
+      });
+      setIsEditing(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/qaza/estimate'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/qaza/balance'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/qaza/entries'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/qaza/plan'] });
+    },
+    onError: (error) => {
+      console.error('Failed to save qaza estimate:', error);
+      toast({
+        title: "Save Failed ❌",
+        description: "Failed to save the estimate. It cannot be lower than the make-up prayers already logged.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updatePeriod = (index: number, updates: Partial<PrayedPeriod>) => {
+    setForm({
+      ...form,
+      prayedPeriods: form.prayedPeriods.map((period, i) => (i === index ? { ...period, ...updates } : period)),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="animate-pulse space-y-4">
+        <div className="h-6 bg-muted rounded w-48"></div>
+        <div className="h-10 bg-muted rounded"></div>
+      </div>
+    );
+  }
+
+  // Once saved, show a summary until the user chooses to edit the assumptions
+  if (estimate && !isEditing) {
+    return (
+      <div className="flex items-center justify-between gap-4 p-4 rounded-xl bg-muted/30" data-testid="qaza-estimate-summary">
+        <div className="flex items-center gap-3">
+          <Calculator className="h-5 w-5 text-muted-foreground" />
+          <div className="text-sm">
+            <p className="font-medium text-foreground">
+              Lifetime estimate: {estimate.prayersOwed} of each prayer
+            </p>
+            <p className="text-muted-foreground">
+              From {estimate.maturityDate} until tracking started on {estimate.trackingStartDate}
+            </p>
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setIsEditing(true)} data-testid="button-edit-qaza-estimate">
+          Edit
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 p-4 rounded-xl bg-muted/30" data-testid="qaza-estimator">
+      <div>
+        <h3 className="text-lg font-semibold flex items-center gap-2" data-testid="text-qaza-estimator-title">
+          <Calculator className="h-5 w-5" />
+          Estimate your lifetime qaza
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          Count the prayers owed from the age of maturity until you started tracking. The estimate is
+          added to your ledger and can be edited at any time.
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="maturity-date">Date of maturity (buloogh)</Label>
+          <Input
+            id="maturity-date"
+            type="date"
+            max={form.trackingStartDate || undefined}
+            value={form.maturityDate}
+            onChange={(e) => setForm({ ...form, maturityDate: e.target.value })}
+            data-testid="input-maturity-date"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="tracking-start-date">Started tracking on</Label>
+          <Input
+            id="tracking-start-date"
+            type="date"
+            max={getTodayString(settings)}
+            value={form.trackingStartDate}
+            onChange={(e) => setForm({ ...form, trackingStartDate: e.target.value })}
+            data-testid="input-tracking-start-date"
+          />
+          <p className="text-xs text-muted-foreground">Days from here on are counted from your daily records.</p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="excused-days-per-month">Excused days per month</Label>
+          <Input
+            id="excused-days-per-month"
+            type="number"
+            min={0}
+            max={15}
+            step={0.5}
+            value={form.excusedDaysPerMonth}
+            onChange={(e) => setForm({ ...form, excusedDaysPerMonth: e.target.value })}
+            data-testid="input-excused-days-per-month"
+          />
+          <p className="text-xs text-muted-foreground">On average, e.g. for menstruation.</p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="additional-excused-days">Other excused days</Label>
+          <Input
+            id="additional-excused-days"
+            type="number"
+            min={0}
+            value={form.additionalExcusedDays}
+            onChange={(e) => setForm({ ...form, additionalExcusedDays: e.target.value })}
+            data-testid="input-additional-excused-days"
+          />
+          <p className="text-xs text-muted-foreground">In total, e.g. postpartum.</p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>Periods you prayed reliably</Label>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setForm({ ...form, prayedPeriods: [...form.prayedPeriods, { startDate: '', endDate: '' }] })}
+            data-testid="button-add-prayed-period"
+          >
+            <Plus className="mr-2 h-3 w-3" />
+            Add period
+          </Button>
+        </div>
+        {form.prayedPeriods.map((period, index) => (
+          <div key={index} className="flex items-center gap-3" data-testid={`prayed-period-${index}`}>
+            <Input
+              type="date"
+              aria-label="Prayed from"
+              value={period.startDate}
+              onChange={(e) => updatePeriod(index, { startDate: e.target.value })}
+              data-testid={`input-prayed-period-start-${index}`}
+            />
+            <span className="text-muted-foreground">–</span>
+            <Input
+              type="date"
+              aria-label="Prayed until"
+              min={period.startDate || undefined}
+              value={period.endDate}
+              onChange={(e) => updatePeriod(index, { endDate: e.target.value })}
+              data-testid={`input-prayed-period-end-${index}`}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setForm({ ...form, prayedPeriods: form.prayedPeriods.filter((_, i) => i !== index) })}
+              aria-label="Remove period"
+              data-testid={`button-remove-prayed-period-${index}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {preview && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center" data-testid="qaza-estimate-preview">
+          <div>
+            <p className="text-xs text-muted-foreground">Days since maturity</p>
+            <p className="font-semibold">{preview.totalDays}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Days prayed</p>
+            <p className="font-semibold text-green-600">{preview.prayedDays}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Days excused</p>
+            <p className="font-semibold">{preview.excusedDays}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Owed per prayer</p>
+            <p className="font-semibold text-primary" data-testid="text-qaza-estimate-owed">{preview.prayersOwed}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3">
+        {estimate && (
+          <Button variant="outline" onClick={() => setIsEditing(false)} data-testid="button-cancel-qaza-estimate">
+            Cancel
+          </Button>
+        )}
+        <Button
+          onClick={() => saveEstimateMutation.mutate()}
+          disabled={!isFormValid || saveEstimateMutation.isPending}
+          className="min-w-[100px]"
+          data-testid="button-save-qaza-estimate"
+        >
+          <Save className="mr-2 h-4 w-4" />
+          {saveEstimateMutation.isPending ? 'Saving...' : 'Save estimate'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useEffect, useState } from 'react';
+import { Minus, Plus, Trash2 } from 'lucide-react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiService } from '@/lib/api-service';
+import { createAuthAwareQuery } from '@/lib/authUtils';
+import { prayerNames, getTodayString } from '@/lib/prayer-utils';
+import { useUserSettings } from '@/hooks/use-user-settings';
+import type { PrayerType, QazaLedgerKind } from '@shared/schema';
+
+type LedgerForm = {
+  kind: QazaLedgerKind;
+  prayer: PrayerType;
+  count: string;
+  date: string;
+  note: string;
+};
+
+const prayerTypes = Object.keys(prayerNames) as PrayerType[];
+
+// Helper function to show an entry's date in a short, readable form
+const formatEntryDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export function QazaLedger() {
+  const { data: settings } = useUserSettings();
+  const [form, setForm] = useState<LedgerForm>(() => ({
+    kind: 'credit',
+    prayer: 'fajr',
+    count: '1',
+    date: getTodayString(settings),
+    note: '',
+  }));
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Settings load after the first render, so move the default date to the user's today once they do
+  useEffect(() => {
+    if (settings) {
+      setForm(current => ({ ...current, date: getTodayString(settings) }));
+    }
+  }, [settings]);
+
+  const { data: balance, isLoading: balanceLoading } = useQuery({
+    queryKey: ['/api/qaza/balance'],
+    queryFn: createAuthAwareQuery(() => apiService.getQazaBalance()),
+  });
+
+  const { data: entries = [], isLoading: entriesLoading } = useQuery({
+    queryKey: ['/api/qaza/entries'],
+    queryFn: createAuthAwareQuery(() => apiService.getQazaLedgerEntries()),
+  });
+
+  const refreshLedger = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/qaza/balance'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/qaza/entries'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/qaza/plan'] });
+  };
+
+  const showError = (error: unknown) => {
+    console.error('Failed to update qaza ledger:', error);
+    toast({
+      title: "Update Failed ❌",
+      description: "Failed to update the qaza ledger. Make-up prayers cannot be more than the prayers owed.",
+      variant: "destructive",
+    });
+  };
+
+  const createEntryMutation = useMutation({
+    mutationFn: () => apiService.createQazaLedgerEntry({
+      kind: form.kind,
+      prayer: form.prayer,
+      count: Number(form.count),
+      date: form.date,
+      note: form.note.trim() || null,
+    }),
+    onSuccess: () => {
+      toast({
+        title: form.kind === 'credit' ? "Make-up Logged! ✅" : "Qaza Added 📝",
+        description: form.kind === 'credit'
+          ? `${form.count} ${prayerNames[form.prayer]} make-up prayer(s) taken off your balance.`
+          : `${form.count} ${prayerNames[form.prayer]} prayer(s) added to your balance.`,
+      });
+      setForm({ ...form, count: '1', note: '' });
+      refreshLedger();
+    },
+    onError: showError,
+  });
+
+  const deleteEntryMutation = useMutation({
+    mutationFn: (id: string) => apiService.deleteQazaLedgerEntry(id),
+    onSuccess: refreshLedger,
+    onError: showError,
+  });
+
+  const count = Number(form.count);
+  const isFormValid = Number.isInteger(count) && count > 0 && !!form.date;
+
+  if (balanceLoading || entriesLoading) {
+    return (
+      <div className="animate-pulse space-y-4">
+        <div className="h-20 bg-muted rounded"></div>
+        <div className="h-10 bg-muted rounded"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6" data-testid="qaza-ledger">
+      <p className="text-sm text-muted-foreground text-center">
+        Prayers missed in your daily records are added here on their own. Record any other prayers you owe
+        and the make-up prayers you pray. Your daily records stay as they were,
+        so on-time and streak history are not changed.
+      </p>
+
+      {/* Balance per prayer */}
+      <div className="grid grid-cols-3 md:grid-cols-6 gap-3" data-testid="qaza-balance">
+        {prayerTypes.map((prayer) => (
+          <div key={prayer} className="p-3 rounded-xl bg-muted/30 text-center">
+            <div className="text-xs text-muted-foreground">{prayerNames[prayer]}</div>
+            <div className="text-xl font-bold text-foreground" data-testid={`text-qaza-balance-${prayer}`}>
+              {balance?.[prayer] ?? 0}
+            </div>
+          </div>
+        ))}
+        <div className="p-3 rounded-xl bg-primary/10 text-center">
+          <div className="text-xs text-muted-foreground">Total owed</div>
+          <div className="text-xl font-bold text-primary" data-testid="text-qaza-balance-total">
+            {balance?.total ?? 0}
+          </div>
+        </div>
+      </div>
+
+      {/* New entry */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <div className="space-y-2">
+          <Label htmlFor="qaza-entry-kind">Entry</Label>
+          <Select value={form.kind} onValueChange={(value) => setForm({ ...form, kind: value as QazaLedgerKind })}>
+            <SelectTrigger id="qaza-entry-kind" data-testid="select-qaza-entry-kind">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="credit">Make-up prayed</SelectItem>
+              <SelectItem value="debit">Prayers owed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="qaza-entry-prayer">Prayer</Label>
+          <Select value={form.prayer} onValueChange={(value) => setForm({ ...form, prayer: value as PrayerType })}>
+            <SelectTrigger id="qaza-entry-prayer" data-testid="select-qaza-entry-prayer">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {prayerTypes.map((prayer) => (
+                <SelectItem key={prayer} value={prayer}>{prayerNames[prayer]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="qaza-entry-count">Count</Label>
+          <Input
+            id="qaza-entry-count"
+            type="number"
+            min={1}
+            value={form.count}
+            onChange={(e) => setForm({ ...form, count: e.target.value })}
+            data-testid="input-qaza-entry-count"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="qaza-entry-date">Date</Label>
+          <Input
+            id="qaza-entry-date"
+            type="date"
+            max={form.kind === 'credit' ? getTodayString(settings) : undefined}
+            value={form.date}
+            onChange={(e) => setForm({ ...form, date: e.target.value })}
+            data-testid="input-qaza-entry-date"
+          />
+        </div>
+        <div className="space-y-2 md:col-span-3">
+          <Label htmlFor="qaza-entry-note">Note (optional)</Label>
+          <Input
+            id="qaza-entry-note"
+            maxLength={100}
+            value={form.note}
+            onChange={(e) => setForm({ ...form, note: e.target.value })}
+            data-testid="input-qaza-entry-note"
+          />
+        </div>
+        <div className="flex items-end">
+          <Button
+            onClick={() => createEntryMutation.mutate()}
+            disabled={!isFormValid || createEntryMutation.isPending}
+            className="w-full"
+            data-testid="button-add-qaza-entry"
+          >
+            {form.kind === 'credit' ? <Minus className="mr-2 h-4 w-4" /> : <Plus className="mr-2 h-4 w-4" />}
+            {createEntryMutation.isPending ? 'Saving...' : form.kind === 'credit' ? 'Log make-up' : 'Add owed'}
+          </Button>
+        </div>
+      </div>
+
+      {/* Ledger history */}
+      {entries.length > 0 && (
+        <div className="space-y-2" data-testid="list-qaza-entries">
+          {entries.map((entry) => (
+            <div
+              key={entry.id}
+              className="flex items-center justify-between gap-4 p-3 rounded-xl bg-muted/30"
+              data-testid={`qaza-entry-${entry.id}`}
+            >
+              <div>
+                <div className="text-sm font-medium">
+                  <span className={cn(entry.kind === 'credit' ? "text-green-600" : "text-destructive")}>
+                    {entry.kind === 'credit' ? '−' : '+'}{entry.count}
+                  </span>{' '}
+                  {prayerNames[entry.prayer]} {entry.kind === 'credit' ? 'made up' : 'owed'}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatEntryDate(entry.date)}{entry.source === 'missed' ? ' · Missed on this day' : ''}{entry.note ? ` · ${entry.note}` : ''}
+                </div>
+              </div>
+              {/* Estimate debits are replaced by editing the lifetime estimate, and missed debits follow the daily records */}
+              {entry.source === 'manual' && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteEntryMutation.mutate(entry.id)}
+                  disabled={deleteEntryMutation.isPending}
+                  aria-label="Delete ledger entry"
+                  data-testid={`button-delete-qaza-entry-${entry.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState, useEffect } from 'react';
+import { CalendarCheck, Check, Plus, Save } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { useQazaPlan } from '@/hooks/use-qaza-plan';
+import { apiService } from '@/lib/api-service';
+import { prayerNames } from '@/lib/prayer-utils';
+import type { PrayerType } from '@shared/schema';
+
+const prayerTypes = Object.keys(prayerNames) as PrayerType[];
+
+// Helper function to show a projected finish date in a readable form
+const formatFinishDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+
+// Helper function to refresh everything a plan change or logged make-up affects
+const useRefreshQazaPlan = () => {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/qaza/plan'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/qaza/balance'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/qaza/entries'] });
+  };
+};
+
+export function QazaPlanner() {
+  const { data: status, isLoading } = useQazaPlan();
+  const [dailyQuota, setDailyQuota] = useState('2');
+  const { toast } = useToast();
+  const refreshPlan = useRefreshQazaPlan();
+
+  // Populate the form once the plan is loaded
+  useEffect(() => {
+    if (status) {
+      setDailyQuota(status.plan.dailyQuota.toString());
+    }
+  }, [status]);
+
+  const showError = (error: unknown) => {
+    console.error('Failed to update qaza plan:', error);
+    toast({
+      title: "Save Failed ❌",
+      description: "Failed to update the repayment plan. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const savePlanMutation = useMutation({
+    mutationFn: () => apiService.saveQazaPlan(Number(dailyQuota)),
+    onSuccess: () => {
+      toast({
+        title: "Plan Saved! ✅",
+        description: `Make up ${dailyQuota} of each prayer a day.`,
+      });
+      refreshPlan();
+    },
+    onError: showError,
+  });
+
+  const deletePlanMutation = useMutation({
+    mutationFn: () => apiService.deleteQazaPlan(),
+    onSuccess: refreshPlan,
+    onError: showError,
+  });
+
+  const quota = Number(dailyQuota);
+  const isQuotaValid = Number.isInteger(quota) && quota >= 1 && quota <= 50;
+
+  if (isLoading) {
+    return (
+      <div className="animate-pulse space-y-4">
+        <div className="h-6 bg-muted rounded w-48"></div>
+        <div className="h-10 bg-muted rounded"></div>
+      </div>
+    );
+  }
+
+  const progress = status?.progress;
+
+  return (
+    <div className="space-y-4 p-4 rounded-xl bg-muted/30" data-testid="qaza-planner">
+      <div>
+        <h3 className="text-lg font-semibold flex items-center gap-2" data-testid="text-qaza-planner-title">
+          <CalendarCheck className="h-5 w-5" />
+          Repayment plan
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          Choose how many of each prayer to make up every day. Today's progress shows on the dashboard.
+        </p>
+      </div>
+
+      <div className="flex items-end gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="qaza-daily-quota">Make-ups per prayer per day</Label>
+          <Input
+            id="qaza-daily-quota"
+            type="number"
+            min={1}
+            max={50}
+            className="w-32"
+            value={dailyQuota}
+            onChange={(e) => setDailyQuota(e.target.value)}
+            data-testid="input-qaza-daily-quota"
+          />
+        </div>
+        <Button
+          onClick={() => savePlanMutation.mutate()}
+          disabled={!isQuotaValid || savePlanMutation.isPending}
+          className="min-w-[100px]"
+          data-testid="button-save-qaza-plan"
+        >
+          <Save className="mr-2 h-4 w-4" />
+          {savePlanMutation.isPending ? 'Saving...' : status ? 'Update plan' : 'Start plan'}
+        </Button>
+        {status && (
+          <Button
+            variant="outline"
+            onClick={() => deletePlanMutation.mutate()}
+            disabled={deletePlanMutation.isPending}
+            data-testid="button-delete-qaza-plan"
+          >
+            Stop plan
+          </Button>
+        )}
+      </div>
+
+      {progress && (
+        <p className="text-sm" data-testid="text-qaza-plan-projection">
+          {progress.projectedFinishDate
+            ? <>At this pace you will finish on <span className="font-semibold text-primary">{formatFinishDate(progress.projectedFinishDate)}</span>.</>
+            : <>Nothing is owed. Your qaza is fully made up. 🎉</>}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function TodaysMakeups() {
+  const { data: status } = useQazaPlan();
+  const { toast } = useToast();
+  const refreshPlan = useRefreshQazaPlan();
+
+  const logMakeupMutation = useMutation({
+    mutationFn: (prayer: PrayerType) => apiService.createQazaLedgerEntry({
+      kind: 'credit',
+      prayer,
+      count: 1,
+      date: status!.progress.date,
+      note: null,
+    }),
+    onSuccess: refreshPlan,
+    onError: (error) => {
+      console.error('Failed to log make-up prayer:', error);
+      toast({
+        title: "Update Failed ❌",
+        description: "Failed to log the make-up prayer. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Only shown once a plan is set and there is still something to make up
+  if (!status || !status.progress.projectedFinishDate) {
+    return null;
+  }
+
+  const { progress } = status;
+
+  return (
+    <section className="glass-card rounded-2xl p-6 space-y-4" data-testid="todays-makeups">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold" data-testid="text-todays-makeups-title">
+          Today's make-ups
+        </h3>
+        <span className="text-sm text-muted-foreground" data-testid="text-todays-makeups-finish">
+          Finish by {formatFinishDate(progress.projectedFinishDate!)}
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        {prayerTypes.map((prayer) => {
+          const { remaining, madeUpToday, dueToday } = progress.prayers[prayer];
+          const target = madeUpToday + dueToday;
+          const isDone = dueToday === 0;
+          return (
+            <div key={prayer} className="flex items-center gap-4" data-testid={`todays-makeup-${prayer}`}>
+              <div className="w-20 text-sm font-medium">{prayerNames[prayer]}</div>
+              <Progress value={target > 0 ? Math.min(100, (madeUpToday / target) * 100) : 100} className="flex-1" />
+              <div className="w-32 text-right text-sm text-muted-foreground" data-testid={`text-todays-makeup-count-${prayer}`}>
+                {madeUpToday}/{target} · {remaining} left
+              </div>
+              <Button
+                variant={isDone ? 'ghost' : 'outline'}
+                size="sm"
+                onClick={() => logMakeupMutation.mutate(prayer)}
+                disabled={remaining === 0 || logMakeupMutation.isPending}
+                aria-label={`Log a ${prayerNames[prayer]} make-up`}
+                data-testid={`button-log-makeup-${prayer}`}
+              >
+                {isDone ? <Check className="h-4 w-4 text-green-600" /> : <Plus className="h-4 w-4" />}
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+
+      {progress.quotaMetToday && (
+        <p className="text-sm text-center text-green-600" data-testid="text-todays-makeups-done">
+          Today's quota is done. May Allah accept it.
+        </p>
+      )}
+    </section>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Calendar as CalendarIcon, Save, X, Sun, Cloud, Star, Clock } from 'lucide-react';
+import { Calendar as CalendarIcon, Save, X, Sun, Cloud, Star, Clock, BookOpen } from 'lucide-react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
@@ -10,12 +10,16 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
+import { useAchievementToasts } from '@/hooks/use-achievement-toasts';
 import { apiService, convertPrayerRecordToDailyPrayers } from '@/lib/api-service';
 import { prayerNames, getPastWeeks, getWeeksFromJanuary, getPastMonthsFromJanuary, calculateWeekCompletion, calculateMonthCompletion, isWeekInFuture } from '@/lib/prayer-utils';
-import { PrayerType, PrayerRecord } from '@shared/schema';
+import { PrayerType, PrayerRecord, type SavedPrayerRecord } from '@shared/schema';
 import { DailyPrayers } from '@/contexts/prayer-context';
 import { apiRequest } from '@/lib/queryClient';
 import { createAuthAwareQuery } from '@/lib/authUtils';
+import { QazaLedger } from '@/components/qaza-ledger';
+import { QazaEstimator } from '@/components/qaza-estimator';
+import { QazaPlanner } from '@/components/qaza-plan';
 
 const prayerIcons = {
   fajr: Sun,
@@ -43,7 +47,7 @@ const defaultPrayers: DailyPrayers = {
 
 export function QazaPrayerManager() {
   // Tab state
-  const [activeTab, setActiveTab] = useState<"daily" | "weekly" | "monthly">("daily");
+  const [activeTab, setActiveTab] = useState<"ledger" | "daily" | "weekly" | "monthly">("ledger");
   
   // Daily view state
   const [selectedDate, setSelectedDate] = useState<Date>(() => {
@@ -91,6 +95,7 @@ export function QazaPrayerManager() {
   } | null>(null);
   
   const { toast } = useToast();
+  const showNewAchievements = useAchievementToasts();
   const queryClient = useQueryClient();
 
   const selectedDateString = selectedDate ? format(selectedDate, 'yyyy-MM-dd') : '';
@@ -107,24 +112,29 @@ export function QazaPrayerManager() {
   const savePrayersMutation = useMutation({
     mutationFn: async (data: { date: string; prayers: DailyPrayers }) => {
       const response = await apiRequest('POST', '/api/prayers', data);
-      return response.json();
+      return response.json() as Promise<SavedPrayerRecord>;
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       toast({
         title: "Changes Saved! ✅",
         description: "Prayer record has been updated successfully.",
       });
+      showNewAchievements(data.newAchievements);
       
       // Invalidate and refetch relevant queries for cache consistency
       queryClient.invalidateQueries({ queryKey: ['/api/prayers'] });
       queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
       queryClient.invalidateQueries({ queryKey: ['/api/stats/yearly-qaza'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/qaza/balance'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/qaza/entries'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/qaza/plan'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/achievements/catalog'] });
       
       // Invalidate analytics queries for all periods to ensure real-time sync
       ['week', 'month', 'year'].forEach(period => {
-        queryClient.invalidateQueries({ queryKey: ['/analytics/trend', period] });
-        queryClient.invalidateQueries({ queryKey: ['/analytics/data', period] });
-        queryClient.invalidateQueries({ queryKey: ['/analytics/summary', period] });
+        queryClient.invalidateQueries({ queryKey: ['/api/analytics/trend', period] });
+        queryClient.invalidateQueries({ queryKey: ['/api/analytics/by-prayer', period] });
+        queryClient.invalidateQueries({ queryKey: ['/api/analytics/summary', period] });
       });
       
       // Update original prayers to reflect saved state
@@ -155,17 +165,22 @@ export function QazaPrayerManager() {
         title: "Batch Update Successful! ✅",
         description: `${weekCount} week(s) with ${prayerCount} prayer records marked as ${action}.`,
       });
+      showNewAchievements(data.newAchievements);
       
       // Invalidate and refetch relevant queries for cache consistency
       queryClient.invalidateQueries({ queryKey: ['/api/prayers'] });
       queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
       queryClient.invalidateQueries({ queryKey: ['/api/stats/yearly-qaza'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/qaza/balance'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/qaza/entries'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/qaza/plan'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/achievements/catalog'] });
       
       // Invalidate analytics queries for all periods to ensure real-time sync
       ['week', 'month', 'year'].forEach(period => {
-        queryClient.invalidateQueries({ queryKey: ['/analytics/trend', period] });
-        queryClient.invalidateQueries({ queryKey: ['/analytics/data', period] });
-        queryClient.invalidateQueries({ queryKey: ['/analytics/summary', period] });
+        queryClient.invalidateQueries({ queryKey: ['/api/analytics/trend', period] });
+        queryClient.invalidateQueries({ queryKey: ['/api/analytics/by-prayer', period] });
+        queryClient.invalidateQueries({ queryKey: ['/api/analytics/summary', period] });
       });
       
       // Reset weekly selections
@@ -511,12 +526,16 @@ export function QazaPrayerManager() {
           Qaza Prayer Management
         </h2>
         <p className="text-muted-foreground" data-testid="text-qaza-description">
-          Manage your missed prayers individually by date or in bulk by week
+          Make up missed prayers in the ledger, or correct days you forgot to log by date or in bulk
         </p>
       </div>
 
-      <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as "daily" | "weekly" | "monthly")} className="w-full">
-        <TabsList className="grid w-full grid-cols-3" data-testid="tabs-view-selector">
+      <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as "ledger" | "daily" | "weekly" | "monthly")} className="w-full">
+        <TabsList className="grid w-full grid-cols-4" data-testid="tabs-view-selector">
+          <TabsTrigger value="ledger" data-testid="tab-ledger">
+            <BookOpen className="mr-2 h-4 w-4" />
+            Ledger
+          </TabsTrigger>
           <TabsTrigger value="daily" data-testid="tab-daily">
             <CalendarIcon className="mr-2 h-4 w-4" />
             Daily View
@@ -531,6 +550,13 @@ export function QazaPrayerManager() {
           </TabsTrigger>
         </TabsList>
 
+        {/* Qaza Ledger */}
+        <TabsContent value="ledger" className="space-y-6" data-testid="content-ledger-view">
+          <QazaEstimator />
+          <QazaPlanner />
+          <QazaLedger />
+        </TabsContent>
+
         {/* Daily View */}
         <TabsContent value="daily" className="space-y-6" data-testid="content-daily-view">
 
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { Landmark, Plus, Trash2 } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useSavedMosques } from '@/hooks/use-saved-mosques';
+import { apiService } from '@/lib/api-service';
+
+type MosqueForm = {
+  name: string;
+  address: string;
+};
+
+const emptyForm: MosqueForm = {
+  name: '',
+  address: '',
+};
+
+export function SavedMosquesSettings() {
+  const [form, setForm] = useState<MosqueForm>(emptyForm);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: mosques = [], isLoading } = useSavedMosques();
+
+  const refreshMosques = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/mosques'] });
+  };
+
+  const showError = (error: unknown) => {
+    console.error('Failed to save mosque:', error);
+    toast({
+      title: "Save Failed ❌",
+      description: "Failed to save the mosque. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const createMosqueMutation = useMutation({
+    mutationFn: () => apiService.createSavedMosque({
+      name: form.name.trim(),
+      address: form.address.trim() || null,
+    }),
+    onSuccess: () => {
+      toast({
+        title: "Mosque Saved 🕌",
+        description: "You can now tag prayers as prayed at this mosque.",
+      });
+      setForm(emptyForm);
+      refreshMosques();
+    },
+    onError: showError,
+  });
+
+  const deleteMosqueMutation = useMutation({
+    mutationFn: (id: string) => apiService.deleteSavedMosque(id),
+    onSuccess: refreshMosques,
+    onError: showError,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="glass-card rounded-2xl p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-6 bg-muted rounded w-48"></div>
+          <div className="h-10 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass-card rounded-2xl p-6 space-y-6" data-testid="settings-saved-mosques">
+      <div>
+        <h3 className="text-lg font-semibold" data-testid="text-saved-mosques-title">
+          Saved Mosques
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          Mosques you pray at regularly. Tag a completed prayer with one of them to see
+          your jama'ah analytics by place.
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="mosque-name">Name</Label>
+          <Input
+            id="mosque-name"
+            placeholder="e.g. East London Mosque"
+            maxLength={100}
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            data-testid="input-mosque-name"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="mosque-address">Address (optional)</Label>
+          <Input
+            id="mosque-address"
+            maxLength={200}
+            value={form.address}
+            onChange={(e) => setForm({ ...form, address: e.target.value })}
+            data-testid="input-mosque-address"
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          onClick={() => createMosqueMutation.mutate()}
+          disabled={!form.name.trim() || createMosqueMutation.isPending}
+          className="min-w-[100px]"
+          data-testid="button-add-mosque"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          {createMosqueMutation.isPending ? 'Adding...' : 'Add mosque'}
+        </Button>
+      </div>
+
+      {mosques.length > 0 && (
+        <div className="space-y-2" data-testid="list-saved-mosques">
+          {mosques.map((mosque) => (
+            <div
+              key={mosque.id}
+              className="flex items-center justify-between gap-4 p-3 rounded-xl bg-muted/30"
+              data-testid={`saved-mosque-${mosque.id}`}
+            >
+              <div className="flex items-center gap-3">
+                <Landmark className="h-4 w-4 text-muted-foreground" />
+                <div>
+                  <div className="text-sm font-medium">{mosque.name}</div>
+                  {mosque.address && (
+                    <div className="text-xs text-muted-foreground">{mosque.address}</div>
+                  )}
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => deleteMosqueMutation.mutate(mosque.id)}
+                disabled={deleteMosqueMutation.isPending}
+                aria-label="Delete mosque"
+                data-testid={`button-delete-mosque-${mosque.id}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { Plane, Plus, Square, Trash2 } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useTravelPeriods } from '@/hooks/use-travel-periods';
+import { apiService } from '@/lib/api-service';
+import { getTodayString } from '@/lib/prayer-utils';
+import { useUserSettings } from '@/hooks/use-user-settings';
+
+type TripForm = {
+  startDate: string;
+  endDate: string;
+  destination: string;
+};
+
+const emptyForm: TripForm = {
+  startDate: '',
+  endDate: '',
+  destination: '',
+};
+
+// Helper function to show a trip's dates in a short, readable form
+const formatTripDates = (startDate: string, endDate: string | null) => {
+  const format = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  return endDate ? `${format(startDate)} – ${format(endDate)}` : `Since ${format(startDate)}`;
+};
+
+export function TravelPeriodsSettings() {
+  const { data: settings } = useUserSettings();
+  const [form, setForm] = useState<TripForm>(emptyForm);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: periods = [], isLoading } = useTravelPeriods();
+
+  const refreshPeriods = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/travel-periods'] });
+  };
+
+  const showError = (error: unknown) => {
+    console.error('Failed to save travel period:', error);
+    toast({
+      title: "Save Failed ❌",
+      description: "Failed to save the trip. Please check the dates.",
+      variant: "destructive",
+    });
+  };
+
+  const createPeriodMutation = useMutation({
+    mutationFn: () => apiService.createTravelPeriod({
+      startDate: form.startDate,
+      endDate: form.endDate || null,
+      destination: form.destination.trim() || null,
+    }),
+    onSuccess: () => {
+      toast({
+        title: "Trip Added ✈️",
+        description: "Prayers on these days can be shortened and combined.",
+      });
+      setForm(emptyForm);
+      refreshPeriods();
+    },
+    onError: showError,
+  });
+
+  const endPeriodMutation = useMutation({
+    mutationFn: (id: string) => apiService.updateTravelPeriod(id, { endDate: getTodayString(settings) }),
+    onSuccess: refreshPeriods,
+    onError: showError,
+  });
+
+  const deletePeriodMutation = useMutation({
+    mutationFn: (id: string) => apiService.deleteTravelPeriod(id),
+    onSuccess: refreshPeriods,
+    onError: showError,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="glass-card rounded-2xl p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-6 bg-muted rounded w-48"></div>
+          <div className="h-10 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass-card rounded-2xl p-6 space-y-6" data-testid="settings-travel-periods">
+      <div>
+        <h3 className="text-lg font-semibold" data-testid="text-travel-periods-title">
+          Travel
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          While travelling, the tracker lets you shorten Dhuhr, Asr and Isha and combine
+          Dhuhr with Asr and Maghrib with Isha without them counting as late.
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="travel-start-date">Start date</Label>
+          <Input
+            id="travel-start-date"
+            type="date"
+            value={form.startDate}
+            onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+            data-testid="input-travel-start-date"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="travel-end-date">End date</Label>
+          <Input
+            id="travel-end-date"
+            type="date"
+            min={form.startDate || undefined}
+            value={form.endDate}
+            onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+            data-testid="input-travel-end-date"
+          />
+          <p className="text-xs text-muted-foreground">Leave empty if you are not back yet.</p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="travel-destination">Destination (optional)</Label>
+          <Input
+            id="travel-destination"
+            placeholder="e.g. Istanbul"
+            maxLength={100}
+            value={form.destination}
+            onChange={(e) => setForm({ ...form, destination: e.target.value })}
+            data-testid="input-travel-destination"
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          onClick={() => createPeriodMutation.mutate()}
+          disabled={!form.startDate || createPeriodMutation.isPending}
+          className="min-w-[100px]"
+          data-testid="button-add-travel-period"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          {createPeriodMutation.isPending ? 'Adding...' : 'Add trip'}
+        </Button>
+      </div>
+
+      {periods.length > 0 && (
+        <div className="space-y-2" data-testid="list-travel-periods">
+          {periods.map((period) => (
+            <div
+              key={period.id}
+              className="flex items-center justify-between gap-4 p-3 rounded-xl bg-muted/30"
+              data-testid={`travel-period-${period.id}`}
+            >
+              <div className="flex items-center gap-3">
+                <Plane className="h-4 w-4 text-muted-foreground" />
+                <div>
+                  <div className="text-sm font-medium">{formatTripDates(period.startDate, period.endDate)}</div>
+                  {period.destination && (
+                    <div className="text-xs text-muted-foreground">{period.destination}</div>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                {!period.endDate && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => endPeriodMutation.mutate(period.id)}
+                    disabled={endPeriodMutation.isPending}
+                    data-testid={`button-end-travel-period-${period.id}`}
+                  >
+                    <Square className="mr-2 h-3 w-3" />
+                    End today
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deletePeriodMutation.mutate(period.id)}
+                  disabled={deletePeriodMutation.isPending}
+                  aria-label="Delete trip"
+                  data-testid={`button-delete-travel-period-${period.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
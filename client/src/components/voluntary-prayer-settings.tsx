@@ -0,0 +1,101 @@
+import { useState, useEffect } from 'react';
+import { Save } from 'lucide-react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useUserSettings } from '@/hooks/use-user-settings';
+import { apiService } from '@/lib/api-service';
+import { voluntaryPrayerNames } from '@/lib/prayer-utils';
+import { voluntaryPrayerTypes, type VoluntaryPrayerType } from '@shared/schema';
+
+export function VoluntaryPrayerSettings() {
+  const { data: settings, isLoading } = useUserSettings();
+  const [tracked, setTracked] = useState<VoluntaryPrayerType[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Populate the form once settings are loaded
+  useEffect(() => {
+    if (settings) {
+      setTracked(settings.trackedVoluntaryPrayers ?? []);
+    }
+  }, [settings]);
+
+  const toggleTracked = (prayer: VoluntaryPrayerType, checked: boolean) => {
+    setTracked((current) => checked ? [...current, prayer] : current.filter((item) => item !== prayer));
+  };
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: () => apiService.updateUserSettings({
+      // Keep a stable order regardless of the order items were ticked
+      trackedVoluntaryPrayers: voluntaryPrayerTypes.filter((prayer) => tracked.includes(prayer)),
+    }),
+    onSuccess: () => {
+      toast({
+        title: "Settings Saved! ✅",
+        description: "Your tracked Sunnah and Nafl prayers have been updated.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/settings'] });
+    },
+    onError: (error) => {
+      console.error('Failed to save settings:', error);
+      toast({
+        title: "Save Failed ❌",
+        description: "Failed to save settings. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="glass-card rounded-2xl p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-6 bg-muted rounded w-48"></div>
+          <div className="h-10 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass-card rounded-2xl p-6 space-y-6" data-testid="settings-voluntary-prayers">
+      <div>
+        <h3 className="text-lg font-semibold" data-testid="text-voluntary-prayers-title">
+          Sunnah & Nafl Prayers
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          Choose the voluntary prayers to show in the tracker. They have their own analytics and never affect your streaks.
+        </p>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {voluntaryPrayerTypes.map((prayer) => (
+          <div key={prayer} className="flex items-center gap-3">
+            <Checkbox
+              id={`track-${prayer}`}
+              checked={tracked.includes(prayer)}
+              onCheckedChange={(checked) => toggleTracked(prayer, checked === true)}
+              data-testid={`checkbox-track-${prayer}`}
+            />
+            <Label htmlFor={`track-${prayer}`}>{voluntaryPrayerNames[prayer]}</Label>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          onClick={() => saveSettingsMutation.mutate()}
+          disabled={saveSettingsMutation.isPending}
+          className="min-w-[100px]"
+          data-testid="button-save-voluntary-prayers"
+        >
+          <Save className="mr-2 h-4 w-4" />
+          {saveSettingsMutation.isPending ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+    </div>
+  );
+}
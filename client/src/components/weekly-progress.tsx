@@ -7,11 +7,14 @@ import {
   getCalendarWeekData,
   getCalendarMonthData,
   getWeekStart,
+  getTodayString,
+  toLocalDateString,
   formatDateRange
 } from '../lib/prayer-utils';
 import { cn } from '@/lib/utils';
 import { useQuery } from '@tanstack/react-query';
 import { apiService } from '@/lib/api-service';
+import { useUserSettings } from '@/hooks/use-user-settings';
 
 export function WeeklyProgress() {
   const { todayPrayers, weekProgress, currentStreak, qazaCount } = usePrayer();
@@ -108,7 +111,8 @@ export function WeeklyProgress() {
 
 // Component to render individual day circle with its own query
 function CalendarDay({ date, index, viewType }: { date: string; index: number; viewType: 'week' | 'month' }) {
-  const today = new Date().toISOString().split('T')[0];
+  const { data: settings } = useUserSettings();
+  const today = getTodayString(settings);
   const isToday = date === today;
 
   // Query for this specific day's prayer data
@@ -257,6 +261,8 @@ function CalendarDay({ date, index, viewType }: { date: string; index: number; v
 }
 
 export function WeeklyOverview() {
+  const { data: settings } = useUserSettings();
+  const weekStartDay = settings?.weekStartDay ?? 1;
   const [viewType, setViewType] = useState<'week' | 'month'>('week');
   const [currentDate, setCurrentDate] = useState(new Date());
 
@@ -273,12 +279,12 @@ export function WeeklyOverview() {
   // Generate date arrays for the calendar
   const generateCalendarDates = () => {
     if (viewType === 'week') {
-      const weekStart = getWeekStart(currentDate);
+      const weekStart = getWeekStart(currentDate, weekStartDay);
       const dates: string[] = [];
       for (let i = 0; i < 7; i++) {
         const date = new Date(weekStart);
         date.setDate(weekStart.getDate() + i);
-        dates.push(date.toISOString().split('T')[0]);
+        dates.push(toLocalDateString(date));
       }
       return dates;
     } else {
@@ -286,22 +292,23 @@ export function WeeklyOverview() {
       const year = currentDate.getFullYear();
       const month = currentDate.getMonth();
       const firstDay = new Date(year, month, 1);
-      const firstDayOfWeek = firstDay.getDay();
+      const daysFromPrevMonth = (firstDay.getDay() - weekStartDay + 7) % 7;
       const startDate = new Date(firstDay);
-      startDate.setDate(firstDay.getDate() - firstDayOfWeek);
+      startDate.setDate(firstDay.getDate() - daysFromPrevMonth);
 
       const dates: string[] = [];
       for (let i = 0; i < 42; i++) {
         const date = new Date(startDate);
         date.setDate(startDate.getDate() + i);
-        dates.push(date.toISOString().split('T')[0]);
+        dates.push(toLocalDateString(date));
       }
       return dates;
     }
   };
 
   const calendarDates = generateCalendarDates();
-  const dateRange = formatDateRange(viewType, viewType === 'week' ? getWeekStart(currentDate) : currentDate);
+  const weekdayHeaders = Array.from({ length: 7 }, (_, i) => ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][(i + weekStartDay) % 7]);
+  const dateRange = formatDateRange(viewType, viewType === 'week' ? getWeekStart(currentDate, weekStartDay) : currentDate);
 
   return (
     <section className="glass-card rounded-2xl p-6">
@@ -365,7 +372,7 @@ export function WeeklyOverview() {
         <div data-testid="calendar-month-view">
           {/* Month view header */}
           <div className="grid grid-cols-7 gap-2 mb-2">
-            {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day) => (
+            {weekdayHeaders.map((day) => (
               <div key={day} className="text-center text-xs font-medium text-muted-foreground py-2">
                 {day}
               </div>
@@ -1,9 +1,14 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
-import { PrayerType, PrayerStatus } from '@shared/schema';
-import { calculateWeekProgress, calculateWeekProgressFromAPI, getTodayString, checkAchievements, getTodayCompletedCount, getWeekDates, calculateCurrentStreakFromAPI, calculateQazaCountFromAPI, calculateRealTimeStatistics, updateUserStatisticsInBackend } from '@/lib/prayer-utils';
+import { PrayerType, PrayerStatus, type VoluntaryPrayers, type VoluntaryPrayerType } from '@shared/schema';
+import { prayerNames, voluntaryPrayerNames, JUMUAH_NAME, calculateWeekProgress, calculateWeekProgressFromAPI, getTodayString, getPrayerCompletionTiming, calculateRealTimeStatistics } from '@/lib/prayer-utils';
 import { useToast } from '@/hooks/use-toast';
+import { useAchievementToasts } from '@/hooks/use-achievement-toasts';
 import { apiService, convertPrayerRecordToDailyPrayers } from '@/lib/api-service';
+import { useUserSettings } from '@/hooks/use-user-settings';
+import { useTravelPeriods } from '@/hooks/use-travel-periods';
+import { getCombinablePartner, isFriday, SHORTENED_PRAYERS, type PrayerTiming } from '@shared/prayer-times';
+import { isDateInPeriods } from '@shared/prayer-status';
 
 export interface DailyPrayers {
   fajr: PrayerStatus;
@@ -13,12 +18,22 @@ export interface DailyPrayers {
   isha: PrayerStatus;
 }
 
+// Congregation and place details a completed prayer can be tagged with
+export type PrayerTags = Pick<PrayerStatus, 'congregation' | 'place' | 'mosqueId'>;
+
 export interface PrayerContextType {
   todayPrayers: DailyPrayers;
+  todayVoluntaryPrayers: VoluntaryPrayers;
   weekProgress: number;
   currentStreak: number;
   qazaCount: number;
   togglePrayer: (prayer: PrayerType) => void;
+  toggleVoluntaryPrayer: (prayer: VoluntaryPrayerType) => void;
+  combinePrayers: (first: PrayerType) => void;
+  setPrayedDhuhrInstead: (prayedDhuhr: boolean) => void;
+  tagPrayer: (prayer: PrayerType, tags: PrayerTags) => void;
+  isTravelling: boolean;
+  isJumuahToday: boolean;
   isLoading: boolean;
   refreshStatistics: () => Promise<void>;
 }
@@ -35,12 +50,22 @@ const defaultPrayers: DailyPrayers = {
 
 export function PrayerProvider({ children }: { children: React.ReactNode }) {
   const [todayPrayers, setTodayPrayers] = useState<DailyPrayers>(defaultPrayers);
+  const [todayVoluntaryPrayers, setTodayVoluntaryPrayers] = useState<VoluntaryPrayers>({});
   const [weekProgress, setWeekProgress] = useState(0);
   const [currentStreak, setCurrentStreak] = useState(0);
   const [qazaCount, setQazaCount] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const { toast } = useToast();
+  const showNewAchievements = useAchievementToasts();
   const queryClient = useQueryClient();
+  const { data: settings } = useUserSettings();
+  const weekStartDay = settings?.weekStartDay ?? 1;
+  const { data: travelPeriods = [] } = useTravelPeriods();
+  const todayString = getTodayString(settings);
+  const loadedDate = useRef<string | null>(null);
+  const pendingSave = useRef<Promise<unknown>>(Promise.resolve());
+  const isTravelling = isDateInPeriods(todayString, travelPeriods);
+  const isJumuahToday = isFriday(todayString) && (settings?.attendsJumuah ?? true);
 
   // Initialize app
   useEffect(() => {
@@ -49,7 +74,7 @@ export function PrayerProvider({ children }: { children: React.ReactNode }) {
       await loadUserStats();
       try {
         // Ensure we have the latest week progress from API
-        const progress = await calculateWeekProgressFromAPI();
+        const progress = await calculateWeekProgressFromAPI(weekStartDay);
         setWeekProgress(progress);
       } catch (error) {
         console.warn('Failed to get initial week progress from API:', error);
@@ -58,12 +83,38 @@ export function PrayerProvider({ children }: { children: React.ReactNode }) {
     initializeApp();
   }, []);
 
+  // Recalculate week progress once settings load or the week start day changes
+  useEffect(() => {
+    if (!settings) return;
+    calculateWeekProgressFromAPI(weekStartDay)
+      .then(setWeekProgress)
+      .catch(error => console.warn('Failed to recalculate week progress:', error));
+  }, [weekStartDay]);
+
+  // Store the device's time zone for users who haven't set one, so the server counts
+  // "today" on the same calendar as the app instead of UTC
+  useEffect(() => {
+    if (!settings || settings.timezone) return;
+    apiService.updateUserSettings({ timezone: Intl.DateTimeFormat().resolvedOptions().timeZone })
+      .then(() => queryClient.invalidateQueries({ queryKey: ['/api/settings'] }))
+      .catch(error => console.warn('Failed to store device time zone:', error));
+  }, [settings?.timezone]);
+
+  // Reload today's prayers when the tracked date moves, e.g. once settings put it in the
+  // user's time zone or the day rolls over at Fajr
+  useEffect(() => {
+    if (!settings || loadedDate.current === todayString) return;
+    loadTodayPrayers();
+  }, [settings, todayString]);
+
   const loadTodayPrayers = async () => {
     try {
-      const today = getTodayString();
+      const today = getTodayString(settings);
+      loadedDate.current = today;
       
       // Try to load from API first
       const apiRecord = await apiService.getPrayerRecord(today);
+      setTodayVoluntaryPrayers(apiRecord?.voluntaryPrayers ?? {});
       if (apiRecord) {
         const apiPrayers = convertPrayerRecordToDailyPrayers(apiRecord);
         if (apiPrayers) {
@@ -73,11 +124,11 @@ export function PrayerProvider({ children }: { children: React.ReactNode }) {
           
           // Try to get week progress from API first
           try {
-            const progress = await calculateWeekProgressFromAPI();
+            const progress = await calculateWeekProgressFromAPI(weekStartDay);
             setWeekProgress(progress);
           } catch (error) {
             console.warn('Failed to get week progress from API, falling back to localStorage:', error);
-            const progress = calculateWeekProgress();
+            const progress = calculateWeekProgress(weekStartDay);
             setWeekProgress(progress);
           }
           setIsLoading(false);
@@ -92,7 +143,7 @@ export function PrayerProvider({ children }: { children: React.ReactNode }) {
         setTodayPrayers(prayers);
         // Try to sync to backend if we have localStorage data but no API data
         try {
-          await apiService.savePrayerRecord(today, prayers);
+          await queuePrayerSave(today, prayers);
         } catch (error) {
           console.warn('Failed to sync localStorage data to API:', error);
         }
@@ -100,11 +151,11 @@ export function PrayerProvider({ children }: { children: React.ReactNode }) {
       
       // Try to get week progress from API first
       try {
-        const progress = await calculateWeekProgressFromAPI();
+        const progress = await calculateWeekProgressFromAPI(weekStartDay);
         setWeekProgress(progress);
       } catch (error) {
         console.warn('Failed to get week progress from API, falling back to localStorage:', error);
-        const progress = calculateWeekProgress();
+        const progress = calculateWeekProgress(weekStartDay);
         setWeekProgress(progress);
       }
       setIsLoading(false);
@@ -116,41 +167,17 @@ export function PrayerProvider({ children }: { children: React.ReactNode }) {
 
   const loadUserStats = async () => {
     try {
-      // Try to load from API first
-      const apiStats = await apiService.getUserStats();
-      if (apiStats) {
-        setCurrentStreak(apiStats.currentStreak || 0);
-        setQazaCount(apiStats.qazaPrayers || 0);
-        // Save to localStorage for fallback
-        localStorage.setItem('currentStreak', (apiStats.currentStreak || 0).toString());
-        localStorage.setItem('qazaCount', (apiStats.qazaPrayers || 0).toString());
-        return;
+      // Statistics the server has never measured are rebuilt there from the stored records
+      let apiStats = await apiService.getUserStats();
+      if (!apiStats.lastStreakUpdate) {
+        apiStats = (await apiService.rebuildUserStats()).stats;
       }
       
-      // If no API stats, calculate from scratch
-      try {
-        const calculatedStreak = await calculateCurrentStreakFromAPI();
-        const calculatedQaza = await calculateQazaCountFromAPI();
-        
-        setCurrentStreak(calculatedStreak);
-        setQazaCount(calculatedQaza);
-        
-        // Save calculated values to localStorage
-        localStorage.setItem('currentStreak', calculatedStreak.toString());
-        localStorage.setItem('qazaCount', calculatedQaza.toString());
-        
-        // Update backend with calculated values
-        await updateUserStatisticsInBackend({ fajr: { completed: false, onTime: false }, dhuhr: { completed: false, onTime: false }, asr: { completed: false, onTime: false }, maghrib: { completed: false, onTime: false }, isha: { completed: false, onTime: false } });
-      } catch (error) {
-        console.warn('Failed to calculate statistics from API, falling back to localStorage:', error);
-        
-        // Final fallback to localStorage
-        const streak = localStorage.getItem('currentStreak');
-        const qaza = localStorage.getItem('qazaCount');
-        
-        setCurrentStreak(streak ? parseInt(streak) : 0);
-        setQazaCount(qaza ? parseInt(qaza) : 0);
-      }
+      setCurrentStreak(apiStats.currentStreak || 0);
+      setQazaCount(apiStats.qazaPrayers || 0);
+      // Save to localStorage for fallback
+      localStorage.setItem('currentStreak', (apiStats.currentStreak || 0).toString());
+      localStorage.setItem('qazaCount', (apiStats.qazaPrayers || 0).toString());
     } catch (error) {
       console.error('Failed to load user stats:', error);
       // Fallback to localStorage on error
@@ -162,9 +189,17 @@ export function PrayerProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  // Send prayer saves one at a time in the order they were made, so a quick second
+  // toggle cannot reach the server before the first and be overwritten by it
+  const queuePrayerSave = (date: string, prayers: DailyPrayers) => {
+    const save = pendingSave.current.then(() => apiService.savePrayerRecord(date, prayers));
+    pendingSave.current = save.catch(() => undefined);
+    return save;
+  };
+
   const saveTodayPrayers = async (prayers: DailyPrayers) => {
     try {
-      const today = getTodayString();
+      const today = getTodayString(settings);
       
       // Calculate real-time statistics for immediate UI updates
       const currentStats = { currentStreak, qazaCount };
@@ -177,9 +212,10 @@ export function PrayerProvider({ children }: { children: React.ReactNode }) {
       // Save to localStorage immediately for fast UI updates
       localStorage.setItem(`prayers-${today}`, JSON.stringify(prayers));
       
-      // Try to save to API
+      // Try to save to API; the server awards any achievements the save earned
       try {
-        await apiService.savePrayerRecord(today, prayers);
+        const saved = await queuePrayerSave(today, prayers);
+        showNewAchievements(saved.newAchievements);
       } catch (error) {
         console.warn('Failed to save prayers to API, saved to localStorage only:', error);
       }
@@ -187,11 +223,11 @@ export function PrayerProvider({ children }: { children: React.ReactNode }) {
       // Update week progress using backend data for better consistency
       let progress: number;
       try {
-        progress = await calculateWeekProgressFromAPI();
+        progress = await calculateWeekProgressFromAPI(weekStartDay);
         setWeekProgress(progress);
       } catch (error) {
         console.warn('Failed to get week progress from API, falling back to localStorage:', error);
-        progress = calculateWeekProgress();
+        progress = calculateWeekProgress(weekStartDay);
         setWeekProgress(progress);
       }
       
@@ -212,103 +248,60 @@ export function PrayerProvider({ children }: { children: React.ReactNode }) {
       
       // Invalidate React Query cache for real-time sync - be more specific
       // Only invalidate today's prayer record query to avoid refreshing entire calendar
-      const todayDate = getTodayString();
+      const todayDate = getTodayString(settings);
       queryClient.invalidateQueries({ queryKey: ['prayer-record', todayDate] });
       queryClient.invalidateQueries({ queryKey: ['/api/prayers'] });
       queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
       queryClient.invalidateQueries({ queryKey: ['/api/stats/yearly-qaza'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/qaza/balance'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/qaza/entries'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/qaza/plan'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/achievements/catalog'] });
 
       // Invalidate analytics queries for all periods to ensure real-time sync
       ['week', 'month', 'year'].forEach(period => {
-        queryClient.invalidateQueries({ queryKey: ['/analytics/trend', period] });
-        queryClient.invalidateQueries({ queryKey: ['/analytics/data', period] });
-        queryClient.invalidateQueries({ queryKey: ['/analytics/summary', period] });
+        queryClient.invalidateQueries({ queryKey: ['/api/analytics/trend', period] });
+        queryClient.invalidateQueries({ queryKey: ['/api/analytics/by-prayer', period] });
+        queryClient.invalidateQueries({ queryKey: ['/api/analytics/summary', period] });
+        queryClient.invalidateQueries({ queryKey: ['/analytics/congregation', period] });
       });
-
-      // Check for achievements (prevent duplicates using localStorage)
-      const completedCount = getTodayCompletedCount(prayers);
-
-      try {
-        // Load user stats for achievement calculations
-        const userStats = await apiService.getUserStats();
-        const achievements = await checkAchievements(prayers, progress, realTimeStats.currentStreak, userStats);
-
-        achievements.forEach(async (achievement: { type: string; title: string; description: string; metadata?: any }) => {
-        // Use different dedup keys: per day for Perfect Day, per week for Perfect Week
-        let achievementKey: string;
-        let shouldShow = false;
-
-        if (achievement.type === "perfect_day" && completedCount === 5) {
-          achievementKey = `${achievement.title}-${todayDate}`;
-          shouldShow = !localStorage.getItem(achievementKey);
-        } else if (achievement.type === "perfect_week") {
-          // Use week start date for Perfect Week deduplication
-          const weekDates = getWeekDates();
-          const weekStart = weekDates[0]; // Monday of current week
-          achievementKey = `${achievement.title}-${weekStart}`;
-          shouldShow = !localStorage.getItem(achievementKey);
-        } else if (achievement.type === "streak_milestone") {
-          // For streak milestones, use streak days for deduplication
-          achievementKey = `${achievement.type}-${achievement.metadata?.streakDays}`;
-          shouldShow = !localStorage.getItem(achievementKey);
-        } else if (achievement.type === "prayer_milestone") {
-          // For prayer milestones, use total prayer count for deduplication
-          achievementKey = `${achievement.type}-${achievement.metadata?.totalPrayers}`;
-          shouldShow = !localStorage.getItem(achievementKey);
-        } else if (achievement.type === "consistency") {
-          // For consistency achievements, use period and date
-          achievementKey = `${achievement.type}-${achievement.metadata?.period}-${achievement.metadata?.earnedDate}`;
-          shouldShow = !localStorage.getItem(achievementKey);
-        } else {
-          // Generic deduplication for other types
-          achievementKey = `${achievement.type}-${todayDate}`;
-          shouldShow = !localStorage.getItem(achievementKey);
-        }
-        
-        if (shouldShow && achievementKey!) {
-          localStorage.setItem(achievementKey, 'true');
-          
-          // Try to save achievement to API
-          try {
-            await apiService.createAchievement({
-              type: achievement.type,
-              title: achievement.title,
-              description: achievement.description,
-              earnedDate: today,
-              metadata: achievement.metadata || {
-                onTimePrayers: completedCount,
-                year: new Date().getFullYear(),
-              },
-            });
-          } catch (error) {
-            console.warn('Failed to save achievement to API:', error);
-          }
-          
-          toast({
-            title: "Achievement Unlocked! 🏆",
-            description: achievement.description,
-            duration: 5000,
-          });
-        }
-      });
-      } catch (error) {
-        console.error('Failed to check achievements:', error);
-      }
     } catch (error) {
       console.error('Failed to save prayers:', error);
     }
   };
 
+  // Helper function to build a completed entry; prayers are shortened while travelling,
+  // and Dhuhr on a Friday counts as Jumu'ah until the user says they prayed Dhuhr instead
+  const toCompletedEntry = (prayer: PrayerType, timing: PrayerTiming, now: Date, combined: boolean = false): PrayerStatus => ({
+    completed: true,
+    onTime: timing === 'on-time',
+    completedAt: now.toISOString(),
+    status: timing,
+    ...(isTravelling && { shortened: SHORTENED_PRAYERS.includes(prayer), combined }),
+    ...(isJumuahToday && prayer === 'dhuhr' && { jumuah: true }),
+  });
+
   const togglePrayer = (prayer: PrayerType) => {
-    const currentTime = new Date().toISOString();
+    const now = new Date();
     const wasCompleted = todayPrayers[prayer].completed;
+    const prayerName = isJumuahToday && prayer === 'dhuhr' ? JUMUAH_NAME : prayerNames[prayer];
+    
+    // Time the completion against the prayer's window; the server re-checks this on save
+    const timing = wasCompleted ? undefined : getPrayerCompletionTiming(prayer, getTodayString(settings), now, settings, isTravelling);
+    if (timing === 'early') {
+      toast({
+        title: "Not Time Yet ⏳",
+        description: `${prayerName} has not started yet`,
+        duration: 2000,
+      });
+      return;
+    }
+    
     const newPrayers = {
       ...todayPrayers,
-      [prayer]: {
-        completed: !wasCompleted,
-        onTime: !wasCompleted, // Assume on-time if completed now
-        completedAt: !wasCompleted ? currentTime : undefined,
-      }
+      [prayer]: timing
+        ? toCompletedEntry(prayer, timing, now)
+        : { completed: false, onTime: false },
     };
     
     setTodayPrayers(newPrayers);
@@ -328,18 +321,116 @@ export function PrayerProvider({ children }: { children: React.ReactNode }) {
     if (newPrayers[prayer].completed) {
       toast({
         title: "Prayer Completed! ✅",
-        description: `${prayer.charAt(0).toUpperCase() + prayer.slice(1)} prayer marked as completed`,
+        description: timing === 'on-time'
+          ? `${prayerName} prayer marked as completed`
+          : `${prayerName} prayer marked as completed (${timing})`,
         duration: 2000,
       });
     } else {
       toast({
         title: "Prayer Unmarked ❌",
-        description: `${prayer.charAt(0).toUpperCase() + prayer.slice(1)} prayer unmarked`,
+        description: `${prayerName} prayer unmarked`,
         duration: 2000,
       });
     }
   };
 
+  // Voluntary prayers are saved on their own so they never affect fard statistics
+  const toggleVoluntaryPrayer = async (prayer: VoluntaryPrayerType) => {
+    const wasCompleted = todayVoluntaryPrayers[prayer]?.completed ?? false;
+    const newVoluntaryPrayers: VoluntaryPrayers = {
+      ...todayVoluntaryPrayers,
+      [prayer]: wasCompleted ? { completed: false } : { completed: true, completedAt: new Date().toISOString() },
+    };
+    
+    setTodayVoluntaryPrayers(newVoluntaryPrayers);
+    
+    try {
+      await apiService.saveVoluntaryPrayers(getTodayString(settings), newVoluntaryPrayers);
+      queryClient.invalidateQueries({ queryKey: ['/api/prayers'] });
+      ['week', 'month', 'year'].forEach(period => {
+        queryClient.invalidateQueries({ queryKey: ['/analytics/voluntary', period] });
+      });
+    } catch (error) {
+      console.error('Failed to save voluntary prayers:', error);
+      setTodayVoluntaryPrayers(todayVoluntaryPrayers);
+      toast({
+        title: "Save Failed ❌",
+        description: `${voluntaryPrayerNames[prayer]} could not be saved`,
+        variant: "destructive",
+        duration: 2000,
+      });
+    }
+  };
+
+  // Mark a pair of prayers combined while travelling (Dhuhr with Asr, Maghrib with Isha) in one action
+  const combinePrayers = (first: PrayerType) => {
+    const second = getCombinablePartner(first);
+    if (!isTravelling || !second) return;
+    
+    const now = new Date();
+    const firstTiming = getPrayerCompletionTiming(first, getTodayString(settings), now, settings, true);
+    const secondTiming = getPrayerCompletionTiming(second, getTodayString(settings), now, settings, true);
+    const pairName = `${prayerNames[first]} and ${prayerNames[second]}`;
+    
+    if (firstTiming === 'early' || secondTiming === 'early') {
+      toast({
+        title: "Not Time Yet ⏳",
+        description: `${pairName} can be combined from ${prayerNames[first]} time while travelling`,
+        duration: 2000,
+      });
+      return;
+    }
+    
+    const newPrayers = {
+      ...todayPrayers,
+      [first]: toCompletedEntry(first, firstTiming, now, true),
+      [second]: toCompletedEntry(second, secondTiming, now, true),
+    };
+    
+    setTodayPrayers(newPrayers);
+    saveTodayPrayers(newPrayers);
+    
+    toast({
+      title: "Prayers Combined! ✅",
+      description: `${pairName} marked as completed together`,
+      duration: 2000,
+    });
+  };
+
+  // Record whether today's Friday prayer was Jumu'ah or Dhuhr prayed in its place
+  const setPrayedDhuhrInstead = (prayedDhuhr: boolean) => {
+    if (!isJumuahToday || !todayPrayers.dhuhr.completed) return;
+    
+    const newPrayers = {
+      ...todayPrayers,
+      dhuhr: { ...todayPrayers.dhuhr, jumuah: !prayedDhuhr },
+    };
+    
+    setTodayPrayers(newPrayers);
+    saveTodayPrayers(newPrayers);
+    
+    toast({
+      title: "Prayer Updated ✅",
+      description: prayedDhuhr ? "Recorded as Dhuhr instead of Jumu'ah" : "Recorded as Jumu'ah",
+      duration: 2000,
+    });
+  };
+
+  // Record whether a completed prayer was prayed in jama'ah and where
+  const tagPrayer = (prayer: PrayerType, tags: PrayerTags) => {
+    if (!todayPrayers[prayer].completed) return;
+    
+    const { congregation, place, mosqueId, ...entry } = todayPrayers[prayer];
+    const newPrayers = {
+      ...todayPrayers,
+      [prayer]: { ...entry, ...tags },
+    };
+    
+    setTodayPrayers(newPrayers);
+    saveTodayPrayers(newPrayers);
+  };
+
   // Function to refresh statistics from backend
   const refreshStatistics = async () => {
     try {
@@ -347,12 +438,16 @@ export function PrayerProvider({ children }: { children: React.ReactNode }) {
       queryClient.invalidateQueries({ queryKey: ['/api/prayers'] });
       queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
       queryClient.invalidateQueries({ queryKey: ['/api/stats/yearly-qaza'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/qaza/balance'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/qaza/entries'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/qaza/plan'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/achievements/catalog'] });
       
       // Invalidate analytics queries for all periods
       ['week', 'month', 'year'].forEach(period => {
-        queryClient.invalidateQueries({ queryKey: ['/analytics/trend', period] });
-        queryClient.invalidateQueries({ queryKey: ['/analytics/data', period] });
-        queryClient.invalidateQueries({ queryKey: ['/analytics/summary', period] });
+        queryClient.invalidateQueries({ queryKey: ['/api/analytics/trend', period] });
+        queryClient.invalidateQueries({ queryKey: ['/api/analytics/by-prayer', period] });
+        queryClient.invalidateQueries({ queryKey: ['/api/analytics/summary', period] });
       });
       
       // Refresh user statistics from API
@@ -367,7 +462,7 @@ export function PrayerProvider({ children }: { children: React.ReactNode }) {
       }
       
       // Refresh week progress
-      const progress = await calculateWeekProgressFromAPI();
+      const progress = await calculateWeekProgressFromAPI(weekStartDay);
       setWeekProgress(progress);
     } catch (error) {
       console.error('Failed to refresh statistics:', error);
@@ -378,10 +473,17 @@ export function PrayerProvider({ children }: { children: React.ReactNode }) {
     <PrayerContext.Provider
       value={{
         todayPrayers,
+        todayVoluntaryPrayers,
         weekProgress,
         currentStreak,
         qazaCount,
         togglePrayer,
+        toggleVoluntaryPrayer,
+        combinePrayers,
+        setPrayedDhuhrInstead,
+        tagPrayer,
+        isTravelling,
+        isJumuahToday,
         isLoading,
         refreshStatistics,
       }}
@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import type { AchievementCatalogEntry } from '@shared/achievement-catalog';
+import { apiService } from '@/lib/api-service';
+import { createAuthAwareQuery } from '@/lib/authUtils';
+
+export function useAchievementCatalog() {
+  return useQuery<AchievementCatalogEntry[]>({
+    queryKey: ['/api/achievements/catalog'],
+    queryFn: createAuthAwareQuery(() => apiService.getAchievementCatalog()),
+  });
+}
@@ -0,0 +1,23 @@
+import type { Achievement } from '@shared/schema';
+import { useToast } from '@/hooks/use-toast';
+
+// Achievements are awarded by the server when prayers are saved; this only announces them
+export function useAchievementToasts() {
+  const { toast } = useToast();
+
+  return (achievements: Achievement[] | undefined) => {
+    if (!achievements || achievements.length === 0) return;
+
+    toast(achievements.length === 1
+      ? {
+          title: "Achievement Unlocked! 🏆",
+          description: achievements[0].description,
+          duration: 5000,
+        }
+      : {
+          title: `${achievements.length} Achievements Unlocked! 🏆`,
+          description: achievements.map(achievement => achievement.title).join(', '),
+          duration: 5000,
+        });
+  };
+}
@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import type { QazaPlanStatus } from '@shared/qaza-plan';
+import { apiService } from '@/lib/api-service';
+import { createAuthAwareQuery } from '@/lib/authUtils';
+
+export function useQazaPlan() {
+  return useQuery<QazaPlanStatus | null>({
+    queryKey: ['/api/qaza/plan'],
+    queryFn: createAuthAwareQuery(() => apiService.getQazaPlan()),
+  });
+}
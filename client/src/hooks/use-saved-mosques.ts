@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import type { SavedMosque } from '@shared/schema';
+import { apiService } from '@/lib/api-service';
+import { createAuthAwareQuery } from '@/lib/authUtils';
+
+export function useSavedMosques() {
+  return useQuery<SavedMosque[]>({
+    queryKey: ['/api/mosques'],
+    queryFn: createAuthAwareQuery(() => apiService.getSavedMosques()),
+  });
+}
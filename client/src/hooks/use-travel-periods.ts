@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import type { TravelPeriod } from '@shared/schema';
+import { apiService } from '@/lib/api-service';
+import { createAuthAwareQuery } from '@/lib/authUtils';
+
+export function useTravelPeriods() {
+  return useQuery<TravelPeriod[]>({
+    queryKey: ['/api/travel-periods'],
+    queryFn: createAuthAwareQuery(() => apiService.getTravelPeriods()),
+  });
+}
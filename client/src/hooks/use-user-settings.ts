@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import type { UserSettings } from '@shared/schema';
+import { apiService } from '@/lib/api-service';
+import { createAuthAwareQuery } from '@/lib/authUtils';
+
+export function useUserSettings() {
+  return useQuery<UserSettings | null>({
+    queryKey: ['/api/settings'],
+    queryFn: createAuthAwareQuery(() => apiService.getUserSettings()),
+  });
+}
@@ -1,27 +1,22 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { useState, useEffect, createContext, useContext } from 'react';
-import type { User } from '@shared/schema';
+import { createContext, useContext } from 'react';
+import type { AuthMode, User } from '@shared/schema';
+import { apiRequest, getQueryFn } from '@/lib/queryClient';
+import { clearAuthTokens, getAuthToken } from '@/lib/authUtils';
 
 interface AuthContextType {
   user: User | null;
+  mode: AuthMode;
   isLoading: boolean;
   isAuthenticated: boolean;
   login: () => void;
   logout: () => void;
+  logoutAllDevices: () => void;
   refetchUser: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Always use JWT auth for local development
-// In production on Replit, use the server-side detection
-const isCustomAuth = true;
-
-// Custom auth functions
-const getAuthToken = () => localStorage.getItem('authToken');
-const setAuthToken = (token: string) => localStorage.setItem('authToken', token);
-const removeAuthToken = () => localStorage.removeItem('authToken');
-
 export function useAuth() {
   const context = useContext(AuthContext);
   if (context === undefined) {
@@ -30,101 +25,59 @@ export function useAuth() {
   return context;
 }
 
-export function useAuthQuery() {
+export function useAuthQuery(): AuthContextType {
   const queryClient = useQueryClient();
-  const [customUser, setCustomUser] = useState<User | null>(null);
-  const [customLoading, setCustomLoading] = useState(true);
 
-  // For custom JWT auth, check token and fetch user
-  useEffect(() => {
-    if (isCustomAuth) {
-      const token = getAuthToken();
-      if (token) {
-        // Verify token by fetching user
-        fetch('/api/auth/me', {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        })
-        .then(res => res.json())
-        .then(setCustomUser)
-        .catch(() => {
-          removeAuthToken();
-          setCustomUser(null);
-        })
-        .finally(() => setCustomLoading(false));
-      } else {
-        setCustomUser(null);
-        setCustomLoading(false);
-      }
-    }
-  }, []);
+  // The server decides whether accounts are enabled or it runs in single-user local mode
+  const { data: config, isLoading: configLoading } = useQuery<{ mode: AuthMode }>({
+    queryKey: ['/api/auth/config'],
+  });
+  const mode = config?.mode ?? 'accounts';
 
+  // Local mode needs no token; with accounts only ask for the user once we hold one
   const {
-    data: sessionUser,
-    isLoading: sessionLoading,
-    error,
-    refetch: refetchSessionUser
+    data: user,
+    isLoading: userLoading,
+    refetch,
   } = useQuery<User | null>({
-    queryKey: ['/api/auth/user'],
-    retry: false,
-    refetchOnWindowFocus: false,
-    staleTime: 1000 * 60 * 5, // 5 minutes
-    enabled: !isCustomAuth, // Only run for session auth
+    queryKey: ['/api/auth/me'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+    enabled: !!config && (mode === 'local' || !!getAuthToken()),
   });
 
-  const user = isCustomAuth ? customUser : sessionUser;
-  const isLoading = isCustomAuth ? customLoading : sessionLoading;
-  const isAuthenticated = !!user;
-
   const login = () => {
-    if (isCustomAuth) {
-      window.location.href = '/login';
-    } else {
-      window.location.href = '/api/login';
-    }
+    window.location.href = '/login';
   };
 
-  const logout = () => {
-    if (isCustomAuth) {
-      removeAuthToken();
-      setCustomUser(null);
-      window.location.href = '/';
-    } else {
-      queryClient.clear();
-      window.location.href = '/api/logout';
-    }
+  // Revoke the session on the server, then forget the tokens locally either way
+  const endSession = (url: string) => {
+    if (mode === 'local') return;
+
+    apiRequest('POST', url)
+      .catch(error => console.warn('Failed to log out on the server:', error))
+      .finally(() => {
+        clearAuthTokens();
+        queryClient.clear();
+        window.location.href = '/';
+      });
   };
 
+  const logout = () => endSession('/api/auth/logout');
+
+  const logoutAllDevices = () => endSession('/api/auth/logout-all');
+
   const refetchUser = () => {
-    if (isCustomAuth) {
-      const token = getAuthToken();
-      if (token) {
-        setCustomLoading(true);
-        fetch('/api/auth/me', {
-          headers: {
-            'Authorization': `Bearer ${token}`
-          }
-        })
-        .then(res => res.json())
-        .then(setCustomUser)
-        .catch(() => {
-          removeAuthToken();
-          setCustomUser(null);
-        })
-        .finally(() => setCustomLoading(false));
-      }
-    } else {
-      refetchSessionUser();
-    }
+    refetch();
   };
 
   return {
-    user: user || null,
-    isLoading,
-    isAuthenticated,
+    user: user ?? null,
+    mode,
+    isLoading: configLoading || userLoading,
+    isAuthenticated: !!user,
     login,
     logout,
+    logoutAllDevices,
     refetchUser,
   };
 }
@@ -1,23 +1,69 @@
 import { apiRequest } from './queryClient';
-import { PrayerRecord, Achievement, UserStats } from '@shared/schema';
+import { PrayerRecord, SavedPrayerRecord, BatchPrayerUpdateResult, Achievement, UserStats, UserSettings, ExcusedPeriod, TravelPeriod, SavedMosque, QazaLedgerEntry, QazaBalance, QazaEstimate, VoluntaryPrayers, AnalyticsPeriod, AnalyticsSummary, AnalyticsTrend, AnalyticsByPrayer, SessionSummary } from '@shared/schema';
+import type { QazaEstimateAssumptions } from '@shared/qaza-estimate';
+import type { QazaPlanStatus } from '@shared/qaza-plan';
+import type { AchievementCatalogEntry } from '@shared/achievement-catalog';
 import { DailyPrayers } from '../contexts/prayer-context';
-import { handleAuthError } from './authUtils';
+import { authFetch, handleAuthError } from './authUtils';
 
 export interface PrayerApiService {
   // Prayer records
   getPrayerRecord(date: string): Promise<PrayerRecord | null>;
-  savePrayerRecord(date: string, prayers: DailyPrayers): Promise<PrayerRecord>;
+  savePrayerRecord(date: string, prayers: DailyPrayers): Promise<SavedPrayerRecord>;
   getPrayerRecords(startDate?: string, endDate?: string): Promise<PrayerRecord[]>;
-  batchUpdatePrayerRecords(updates: Array<{ date: string; prayers: DailyPrayers }>): Promise<PrayerRecord[]>;
+  batchUpdatePrayerRecords(updates: Array<{ date: string; prayers: DailyPrayers }>): Promise<BatchPrayerUpdateResult>;
+  saveVoluntaryPrayers(date: string, voluntaryPrayers: VoluntaryPrayers): Promise<PrayerRecord>;
 
   // User statistics  
   getUserStats(): Promise<UserStats>;
-  updateUserStats(updates: Partial<UserStats>): Promise<UserStats>;
+  rebuildUserStats(): Promise<{ stats: UserStats; corrected: string[] }>;
   getYearlyQazaStats(): Promise<{ totalPossible: number; completed: number; qazaRemaining: number; currentYear: number }>;
 
+  // Analytics
+  getAnalyticsSummary(period: AnalyticsPeriod): Promise<AnalyticsSummary | null>;
+  getAnalyticsTrend(period: AnalyticsPeriod): Promise<AnalyticsTrend | null>;
+  getAnalyticsByPrayer(period: AnalyticsPeriod): Promise<AnalyticsByPrayer | null>;
+
   // Achievements
   getAchievements(): Promise<Achievement[]>;
-  createAchievement(achievement: Omit<Achievement, 'id' | 'userId' | 'createdAt'>): Promise<Achievement>;
+  getAchievementCatalog(): Promise<AchievementCatalogEntry[]>;
+
+  // User settings
+  getUserSettings(): Promise<UserSettings | null>;
+  updateUserSettings(updates: Partial<Omit<UserSettings, 'id' | 'userId' | 'updatedAt'>>): Promise<UserSettings>;
+
+  // Excused periods
+  getExcusedPeriods(): Promise<ExcusedPeriod[]>;
+  createExcusedPeriod(period: Pick<ExcusedPeriod, 'startDate' | 'endDate' | 'label'>): Promise<ExcusedPeriod>;
+  updateExcusedPeriod(id: string, updates: Partial<Pick<ExcusedPeriod, 'startDate' | 'endDate' | 'label'>>): Promise<ExcusedPeriod>;
+  deleteExcusedPeriod(id: string): Promise<void>;
+
+  // Travel periods
+  getTravelPeriods(): Promise<TravelPeriod[]>;
+  createTravelPeriod(period: Pick<TravelPeriod, 'startDate' | 'endDate' | 'destination'>): Promise<TravelPeriod>;
+  updateTravelPeriod(id: string, updates: Partial<Pick<TravelPeriod, 'startDate' | 'endDate' | 'destination'>>): Promise<TravelPeriod>;
+  deleteTravelPeriod(id: string): Promise<void>;
+  
+  // Saved mosques
+  getSavedMosques(): Promise<SavedMosque[]>;
+  createSavedMosque(mosque: Pick<SavedMosque, 'name' | 'address'>): Promise<SavedMosque>;
+  updateSavedMosque(id: string, updates: Partial<Pick<SavedMosque, 'name' | 'address'>>): Promise<SavedMosque>;
+  deleteSavedMosque(id: string): Promise<void>;
+  
+  // Qaza ledger
+  getQazaLedgerEntries(): Promise<QazaLedgerEntry[]>;
+  getQazaBalance(): Promise<QazaBalance>;
+  createQazaLedgerEntry(entry: Pick<QazaLedgerEntry, 'prayer' | 'kind' | 'count' | 'date' | 'note'>): Promise<QazaLedgerEntry>;
+  deleteQazaLedgerEntry(id: string): Promise<void>;
+  getQazaEstimate(): Promise<QazaEstimate | null>;
+  saveQazaEstimate(assumptions: QazaEstimateAssumptions): Promise<{ estimate: QazaEstimate; balance: QazaBalance }>;
+  getQazaPlan(): Promise<QazaPlanStatus | null>;
+  saveQazaPlan(dailyQuota: number): Promise<QazaPlanStatus>;
+  deleteQazaPlan(): Promise<void>;
+
+  // Signed-in devices
+  getSessions(): Promise<SessionSummary[]>;
+  revokeSession(id: string): Promise<void>;
 }
 
 // Helper function to safely parse JSON from response
@@ -33,7 +79,7 @@ function safeJsonParse(response: Response): Promise<any> {
 class ApiService implements PrayerApiService {
   async getPrayerRecord(date: string): Promise<PrayerRecord | null> {
     try {
-      const response = await fetch(`/api/prayers/${date}`, {
+      const response = await authFetch(`/api/prayers/${date}`, {
         credentials: 'include',
         headers: {
           'Cache-Control': 'no-cache',
@@ -62,7 +108,7 @@ class ApiService implements PrayerApiService {
     }
   }
 
-  async savePrayerRecord(date: string, prayers: DailyPrayers): Promise<PrayerRecord> {
+  async savePrayerRecord(date: string, prayers: DailyPrayers): Promise<SavedPrayerRecord> {
     const response = await apiRequest('POST', '/api/prayers', {
       date,
       prayers,
@@ -78,7 +124,7 @@ class ApiService implements PrayerApiService {
       if (endDate) params.append('endDate', endDate);
       
       const url = `/api/prayers${params.toString() ? '?' + params.toString() : ''}`;
-      const response = await fetch(url, {
+      const response = await authFetch(url, {
         credentials: 'include',
         headers: {
           'Cache-Control': 'no-cache',
@@ -104,7 +150,7 @@ class ApiService implements PrayerApiService {
     }
   }
 
-  async batchUpdatePrayerRecords(updates: Array<{ date: string; prayers: DailyPrayers }>): Promise<PrayerRecord[]> {
+  async batchUpdatePrayerRecords(updates: Array<{ date: string; prayers: DailyPrayers }>): Promise<BatchPrayerUpdateResult> {
     try {
       const response = await apiRequest('POST', '/api/prayers/batch', { updates });
       return await safeJsonParse(response);
@@ -120,9 +166,14 @@ class ApiService implements PrayerApiService {
     }
   }
 
+  async saveVoluntaryPrayers(date: string, voluntaryPrayers: VoluntaryPrayers): Promise<PrayerRecord> {
+    const response = await apiRequest('PUT', `/api/prayers/${date}/voluntary`, voluntaryPrayers);
+    return await safeJsonParse(response);
+  }
+
   async getUserStats(): Promise<UserStats> {
     try {
-      const response = await fetch('/api/stats', {
+      const response = await authFetch('/api/stats', {
         credentials: 'include',
         headers: {
           'Cache-Control': 'no-cache',
@@ -137,12 +188,17 @@ class ApiService implements PrayerApiService {
       const result = await safeJsonParse(response);
       return result || {
         id: 'default',
-        userId: 'demo-user',
+        userId: '',
         totalPrayers: 0,
         onTimePrayers: 0,
+        latePrayers: 0,
+        madeUpPrayers: 0,
+        excusedPrayers: 0,
         qazaPrayers: 0,
         currentStreak: 0,
         bestStreak: 0,
+        jumuahStreak: 0,
+        bestJumuahStreak: 0,
         perfectWeeks: 0,
         lastStreakUpdate: null,
         updatedAt: new Date(),
@@ -158,12 +214,17 @@ class ApiService implements PrayerApiService {
       // Return default stats if API fails
       return {
         id: 'default',
-        userId: 'demo-user',
+        userId: '',
         totalPrayers: 0,
         onTimePrayers: 0,
+        latePrayers: 0,
+        madeUpPrayers: 0,
+        excusedPrayers: 0,
         qazaPrayers: 0,
         currentStreak: 0,
         bestStreak: 0,
+        jumuahStreak: 0,
+        bestJumuahStreak: 0,
         perfectWeeks: 0,
         lastStreakUpdate: null,
         updatedAt: new Date(),
@@ -171,14 +232,14 @@ class ApiService implements PrayerApiService {
     }
   }
 
-  async updateUserStats(updates: Partial<UserStats>): Promise<UserStats> {
-    const response = await apiRequest('PATCH', '/api/stats', updates);
+  async rebuildUserStats(): Promise<{ stats: UserStats; corrected: string[] }> {
+    const response = await apiRequest('POST', '/api/stats/rebuild');
     return await safeJsonParse(response);
   }
 
   async getYearlyQazaStats(): Promise<{ totalPossible: number; completed: number; qazaRemaining: number; currentYear: number }> {
     try {
-      const response = await fetch('/api/stats/yearly-qaza', {
+      const response = await authFetch('/api/stats/yearly-qaza', {
         credentials: 'include',
         headers: {
           'Cache-Control': 'no-cache',
@@ -215,9 +276,90 @@ class ApiService implements PrayerApiService {
     }
   }
 
+  async getAnalyticsSummary(period: AnalyticsPeriod): Promise<AnalyticsSummary | null> {
+    try {
+      const response = await authFetch(`/api/analytics/summary?period=${period}`, {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+        },
+      });
+      
+      if (!response.ok) {
+        const errorMessage = `Failed to fetch analytics summary: ${response.statusText}`;
+        throw new Error(errorMessage);
+      }
+      
+      return await safeJsonParse(response);
+    } catch (error: any) {
+      console.error('Error fetching analytics summary:', error);
+      
+      // Handle auth errors
+      if (handleAuthError(error)) {
+        throw error; // Re-throw for proper error handling upstream
+      }
+      
+      return null;
+    }
+  }
+
+  async getAnalyticsTrend(period: AnalyticsPeriod): Promise<AnalyticsTrend | null> {
+    try {
+      const response = await authFetch(`/api/analytics/trend?period=${period}`, {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+        },
+      });
+      
+      if (!response.ok) {
+        const errorMessage = `Failed to fetch analytics trend: ${response.statusText}`;
+        throw new Error(errorMessage);
+      }
+      
+      return await safeJsonParse(response);
+    } catch (error: any) {
+      console.error('Error fetching analytics trend:', error);
+      
+      // Handle auth errors
+      if (handleAuthError(error)) {
+        throw error; // Re-throw for proper error handling upstream
+      }
+      
+      return null;
+    }
+  }
+
+  async getAnalyticsByPrayer(period: AnalyticsPeriod): Promise<AnalyticsByPrayer | null> {
+    try {
+      const response = await authFetch(`/api/analytics/by-prayer?period=${period}`, {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+        },
+      });
+      
+      if (!response.ok) {
+        const errorMessage = `Failed to fetch analytics by prayer: ${response.statusText}`;
+        throw new Error(errorMessage);
+      }
+      
+      return await safeJsonParse(response);
+    } catch (error: any) {
+      console.error('Error fetching analytics by prayer:', error);
+      
+      // Handle auth errors
+      if (handleAuthError(error)) {
+        throw error; // Re-throw for proper error handling upstream
+      }
+      
+      return null;
+    }
+  }
+
   async getAchievements(): Promise<Achievement[]> {
     try {
-      const response = await fetch('/api/achievements', {
+      const response = await authFetch('/api/achievements', {
         credentials: 'include',
         headers: {
           'Cache-Control': 'no-cache',
@@ -243,10 +385,357 @@ class ApiService implements PrayerApiService {
     }
   }
 
-  async createAchievement(achievement: Omit<Achievement, 'id' | 'userId' | 'createdAt'>): Promise<Achievement> {
-    const response = await apiRequest('POST', '/api/achievements', achievement);
+  async getAchievementCatalog(): Promise<AchievementCatalogEntry[]> {
+    try {
+      const response = await authFetch('/api/achievements/catalog', {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+        },
+      });
+      
+      if (!response.ok) {
+        const errorMessage = `Failed to fetch achievement catalog: ${response.statusText}`;
+        throw new Error(errorMessage);
+      }
+      
+      const result = await safeJsonParse(response);
+      return result || [];
+    } catch (error: any) {
+      console.error('Error fetching achievement catalog:', error);
+      
+      // Handle auth errors
+      if (handleAuthError(error)) {
+        throw error; // Re-throw for proper error handling upstream
+      }
+      
+      return [];
+    }
+  }
+
+  async getUserSettings(): Promise<UserSettings | null> {
+    try {
+      const response = await authFetch('/api/settings', {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+        },
+      });
+      
+      if (!response.ok) {
+        const errorMessage = `Failed to fetch user settings: ${response.statusText}`;
+        throw new Error(errorMessage);
+      }
+      
+      return await safeJsonParse(response);
+    } catch (error: any) {
+      console.error('Error fetching user settings:', error);
+      
+      // Handle auth errors
+      if (handleAuthError(error)) {
+        throw error; // Re-throw for proper error handling upstream
+      }
+      
+      // Callers fall back to default calculation settings
+      return null;
+    }
+  }
+
+  async updateUserSettings(updates: Partial<Omit<UserSettings, 'id' | 'userId' | 'updatedAt'>>): Promise<UserSettings> {
+    const response = await apiRequest('PATCH', '/api/settings', updates);
+    return await safeJsonParse(response);
+  }
+
+  async getExcusedPeriods(): Promise<ExcusedPeriod[]> {
+    try {
+      const response = await authFetch('/api/excused-periods', {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+        },
+      });
+      
+      if (!response.ok) {
+        const errorMessage = `Failed to fetch excused periods: ${response.statusText}`;
+        throw new Error(errorMessage);
+      }
+      
+      const result = await safeJsonParse(response);
+      return result || [];
+    } catch (error: any) {
+      console.error('Error fetching excused periods:', error);
+      
+      // Handle auth errors
+      if (handleAuthError(error)) {
+        throw error; // Re-throw for proper error handling upstream
+      }
+      
+      return [];
+    }
+  }
+
+  async createExcusedPeriod(period: Pick<ExcusedPeriod, 'startDate' | 'endDate' | 'label'>): Promise<ExcusedPeriod> {
+    const response = await apiRequest('POST', '/api/excused-periods', period);
+    return await safeJsonParse(response);
+  }
+
+  async updateExcusedPeriod(id: string, updates: Partial<Pick<ExcusedPeriod, 'startDate' | 'endDate' | 'label'>>): Promise<ExcusedPeriod> {
+    const response = await apiRequest('PATCH', `/api/excused-periods/${id}`, updates);
     return await safeJsonParse(response);
   }
+
+  async deleteExcusedPeriod(id: string): Promise<void> {
+    await apiRequest('DELETE', `/api/excused-periods/${id}`);
+  }
+
+  async getTravelPeriods(): Promise<TravelPeriod[]> {
+    try {
+      const response = await authFetch('/api/travel-periods', {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+        },
+      });
+      
+      if (!response.ok) {
+        const errorMessage = `Failed to fetch travel periods: ${response.statusText}`;
+        throw new Error(errorMessage);
+      }
+      
+      const result = await safeJsonParse(response);
+      return result || [];
+    } catch (error: any) {
+      console.error('Error fetching travel periods:', error);
+      
+      // Handle auth errors
+      if (handleAuthError(error)) {
+        throw error; // Re-throw for proper error handling upstream
+      }
+      
+      return [];
+    }
+  }
+
+  async createTravelPeriod(period: Pick<TravelPeriod, 'startDate' | 'endDate' | 'destination'>): Promise<TravelPeriod> {
+    const response = await apiRequest('POST', '/api/travel-periods', period);
+    return await safeJsonParse(response);
+  }
+
+  async updateTravelPeriod(id: string, updates: Partial<Pick<TravelPeriod, 'startDate' | 'endDate' | 'destination'>>): Promise<TravelPeriod> {
+    const response = await apiRequest('PATCH', `/api/travel-periods/${id}`, updates);
+    return await safeJsonParse(response);
+  }
+
+  async deleteTravelPeriod(id: string): Promise<void> {
+    await apiRequest('DELETE', `/api/travel-periods/${id}`);
+  }
+
+  async getSavedMosques(): Promise<SavedMosque[]> {
+    try {
+      const response = await authFetch('/api/mosques', {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+        },
+      });
+      
+      if (!response.ok) {
+        const errorMessage = `Failed to fetch saved mosques: ${response.statusText}`;
+        throw new Error(errorMessage);
+      }
+      
+      const result = await safeJsonParse(response);
+      return result || [];
+    } catch (error: any) {
+      console.error('Error fetching saved mosques:', error);
+      
+      // Handle auth errors
+      if (handleAuthError(error)) {
+        throw error; // Re-throw for proper error handling upstream
+      }
+      
+      return [];
+    }
+  }
+
+  async createSavedMosque(mosque: Pick<SavedMosque, 'name' | 'address'>): Promise<SavedMosque> {
+    const response = await apiRequest('POST', '/api/mosques', mosque);
+    return await safeJsonParse(response);
+  }
+
+  async updateSavedMosque(id: string, updates: Partial<Pick<SavedMosque, 'name' | 'address'>>): Promise<SavedMosque> {
+    const response = await apiRequest('PATCH', `/api/mosques/${id}`, updates);
+    return await safeJsonParse(response);
+  }
+
+  async deleteSavedMosque(id: string): Promise<void> {
+    await apiRequest('DELETE', `/api/mosques/${id}`);
+  }
+
+  async getQazaLedgerEntries(): Promise<QazaLedgerEntry[]> {
+    try {
+      const response = await authFetch('/api/qaza/entries', {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+        },
+      });
+      
+      if (!response.ok) {
+        const errorMessage = `Failed to fetch qaza ledger: ${response.statusText}`;
+        throw new Error(errorMessage);
+      }
+      
+      const result = await safeJsonParse(response);
+      return result || [];
+    } catch (error: any) {
+      console.error('Error fetching qaza ledger:', error);
+      
+      // Handle auth errors
+      if (handleAuthError(error)) {
+        throw error; // Re-throw for proper error handling upstream
+      }
+      
+      return [];
+    }
+  }
+
+  async getQazaBalance(): Promise<QazaBalance> {
+    try {
+      const response = await authFetch('/api/qaza/balance', {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+        },
+      });
+      
+      if (!response.ok) {
+        const errorMessage = `Failed to fetch qaza balance: ${response.statusText}`;
+        throw new Error(errorMessage);
+      }
+      
+      return await safeJsonParse(response);
+    } catch (error: any) {
+      console.error('Error fetching qaza balance:', error);
+      
+      // Handle auth errors
+      if (handleAuthError(error)) {
+        throw error; // Re-throw for proper error handling upstream
+      }
+      
+      // Return an empty balance if API fails
+      return { fajr: 0, dhuhr: 0, asr: 0, maghrib: 0, isha: 0, total: 0 };
+    }
+  }
+
+  async createQazaLedgerEntry(entry: Pick<QazaLedgerEntry, 'prayer' | 'kind' | 'count' | 'date' | 'note'>): Promise<QazaLedgerEntry> {
+    const response = await apiRequest('POST', '/api/qaza/entries', entry);
+    return await safeJsonParse(response);
+  }
+
+  async deleteQazaLedgerEntry(id: string): Promise<void> {
+    await apiRequest('DELETE', `/api/qaza/entries/${id}`);
+  }
+
+  async getQazaEstimate(): Promise<QazaEstimate | null> {
+    try {
+      const response = await authFetch('/api/qaza/estimate', {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+        },
+      });
+      
+      if (!response.ok) {
+        const errorMessage = `Failed to fetch qaza estimate: ${response.statusText}`;
+        throw new Error(errorMessage);
+      }
+      
+      return await safeJsonParse(response);
+    } catch (error: any) {
+      console.error('Error fetching qaza estimate:', error);
+      
+      // Handle auth errors
+      if (handleAuthError(error)) {
+        throw error; // Re-throw for proper error handling upstream
+      }
+      
+      return null;
+    }
+  }
+
+  async saveQazaEstimate(assumptions: QazaEstimateAssumptions): Promise<{ estimate: QazaEstimate; balance: QazaBalance }> {
+    const response = await apiRequest('PUT', '/api/qaza/estimate', assumptions);
+    return await safeJsonParse(response);
+  }
+
+  async getQazaPlan(): Promise<QazaPlanStatus | null> {
+    try {
+      const response = await authFetch('/api/qaza/plan', {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+        },
+      });
+      
+      if (!response.ok) {
+        const errorMessage = `Failed to fetch qaza plan: ${response.statusText}`;
+        throw new Error(errorMessage);
+      }
+      
+      return await safeJsonParse(response);
+    } catch (error: any) {
+      console.error('Error fetching qaza plan:', error);
+      
+      // Handle auth errors
+      if (handleAuthError(error)) {
+        throw error; // Re-throw for proper error handling upstream
+      }
+      
+      return null;
+    }
+  }
+
+  async saveQazaPlan(dailyQuota: number): Promise<QazaPlanStatus> {
+    const response = await apiRequest('PUT', '/api/qaza/plan', { dailyQuota });
+    return await safeJsonParse(response);
+  }
+
+  async deleteQazaPlan(): Promise<void> {
+    await apiRequest('DELETE', '/api/qaza/plan');
+  }
+
+  async getSessions(): Promise<SessionSummary[]> {
+    try {
+      const response = await authFetch('/api/auth/sessions', {
+        credentials: 'include',
+        headers: {
+          'Cache-Control': 'no-cache',
+        },
+      });
+      
+      if (!response.ok) {
+        const errorMessage = `Failed to fetch sessions: ${response.statusText}`;
+        throw new Error(errorMessage);
+      }
+      
+      const result = await safeJsonParse(response);
+      return result || [];
+    } catch (error: any) {
+      console.error('Error fetching sessions:', error);
+      
+      // Handle auth errors
+      if (handleAuthError(error)) {
+        throw error; // Re-throw for proper error handling upstream
+      }
+      
+      return [];
+    }
+  }
+
+  async revokeSession(id: string): Promise<void> {
+    await apiRequest('DELETE', `/api/auth/sessions/${id}`);
+  }
 }
 
 export const apiService = new ApiService();
@@ -1,5 +1,71 @@
 import { toast } from '@/hooks/use-toast';
 
+const AUTH_TOKEN_KEY = 'authToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+export const getAuthToken = () => localStorage.getItem(AUTH_TOKEN_KEY);
+export const getRefreshToken = () => localStorage.getItem(REFRESH_TOKEN_KEY);
+
+export function setAuthTokens(token: string, refreshToken: string) {
+  localStorage.setItem(AUTH_TOKEN_KEY, token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+}
+
+export function clearAuthTokens() {
+  localStorage.removeItem(AUTH_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
+// Authorization header for API requests; empty in local mode where no token is issued
+export function getAuthHeaders(): Record<string, string> {
+  const token = getAuthToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+// Trade the refresh token for a new pair. Refresh tokens rotate and the server treats a
+// second use as theft, so refreshes are serialized across tabs and skipped when another
+// tab already replaced the access token that was rejected
+export async function refreshAuthTokens(rejectedToken: string | null): Promise<boolean> {
+  const run = async () => {
+    if (getAuthToken() !== rejectedToken) return true;
+
+    const refreshToken = getRefreshToken();
+    if (!refreshToken) return false;
+
+    try {
+      const response = await fetch('/api/auth/refresh', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken }),
+      });
+      if (!response.ok) {
+        clearAuthTokens();
+        return false;
+      }
+      const tokens = await response.json();
+      setAuthTokens(tokens.token, tokens.refreshToken);
+      return true;
+    } catch (error) {
+      console.warn('Failed to refresh session:', error);
+      return false;
+    }
+  };
+
+  return navigator.locks ? navigator.locks.request('auth-refresh', run) : run();
+}
+
+// fetch with the access token attached, refreshing it once when the server rejects it
+export async function authFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const token = getAuthToken();
+  const send = () => fetch(url, { ...init, headers: { ...init.headers, ...getAuthHeaders() } });
+
+  const response = await send();
+  if (response.status !== 401 || !token) {
+    return response;
+  }
+  return (await refreshAuthTokens(token)) ? send() : response;
+}
+
 export function handleAuthError(error: any) {
   if (error?.message?.includes('401') || error?.message?.includes('Unauthorized')) {
     toast({
@@ -9,8 +75,9 @@ export function handleAuthError(error: any) {
     });
     
     // Redirect to login after a short delay
+    clearAuthTokens();
     setTimeout(() => {
-      window.location.href = '/api/login';
+      window.location.href = '/login';
     }, 2000);
     
     return true; // Indicates this was an auth error
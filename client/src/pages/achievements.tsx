@@ -1,19 +1,35 @@
 import { useState, useEffect } from 'react';
-import { Flame, Clock, Mountain, Calendar, Target, Trophy, Star } from 'lucide-react';
+import { Flame, Calendar } from 'lucide-react';
 import { AchievementCard, MilestoneProgress } from '../components/achievement-card';
 import { usePrayer } from '../contexts/prayer-context';
 import { Achievement, UserStats } from '@shared/schema';
+import type { AchievementCatalogEntry } from '@shared/achievement-catalog';
 import { apiService } from '@/lib/api-service';
-import { getPeriodSummary } from '@/lib/prayer-utils';
+import { useAchievementCatalog } from '@/hooks/use-achievement-catalog';
+
+// Helper function to pick one catalog entry per family: the next one to unlock,
+// or the last one once the whole family is unlocked. The catalog lists each family
+// from the lowest threshold up.
+function getNextMilestones(catalog: AchievementCatalogEntry[]): AchievementCatalogEntry[] {
+  const families = new Map<string, AchievementCatalogEntry>();
+  catalog.forEach(entry => {
+    const family = `${entry.type}:${entry.rule.metric}:${entry.rule.window}`;
+    const shown = families.get(family);
+    if (!shown || shown.unlocked) {
+      families.set(family, entry);
+    }
+  });
+  return Array.from(families.values());
+}
 
 export default function Achievements() {
   const { currentStreak, isLoading: contextLoading } = usePrayer();
   const [achievements, setAchievements] = useState<Achievement[]>([]);
   const [userStats, setUserStats] = useState<UserStats | null>(null);
-  const [milestones, setMilestones] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [monthSummary, setMonthSummary] = useState<any>(null);
-  const [weekSummary, setWeekSummary] = useState<any>(null);
+  const { data: catalog = [], isLoading: catalogLoading } = useAchievementCatalog();
+  const milestones = getNextMilestones(catalog);
+  const unlockedCount = catalog.filter(entry => entry.unlocked).length;
 
   useEffect(() => {
     loadAchievementsData();
@@ -31,20 +47,6 @@ export default function Achievements() {
       
       setAchievements(achievementsData);
       setUserStats(statsData);
-      
-      // Load analytics data for milestones
-      const [monthData, weekData] = await Promise.all([
-        getPeriodSummary('month').catch(() => ({ successRate: 0, totalPrayers: 0, onTimePrayers: 0 })),
-        getPeriodSummary('week').catch(() => ({ successRate: 0, totalPrayers: 0, onTimePrayers: 0 }))
-      ]);
-      
-      setMonthSummary(monthData);
-      setWeekSummary(weekData);
-      
-      // Calculate milestones based on real data
-      const calculatedMilestones = calculateMilestones(statsData, monthData, weekData);
-      setMilestones(calculatedMilestones);
-      
     } catch (error) {
       console.error('Failed to load achievements data:', error);
       // Fallback to localStorage for achievements if API fails
@@ -56,64 +58,6 @@ export default function Achievements() {
       setIsLoading(false);
     }
   };
-  
-  const calculateMilestones = (stats: UserStats, monthData: any, weekData: any) => {
-    const currentMonth = new Date().getMonth();
-    const daysInMonth = new Date(new Date().getFullYear(), currentMonth + 1, 0).getDate();
-    const maxMonthlyPrayers = daysInMonth * 5;
-    
-    return [
-      {
-        title: "7-Day Streak",
-        description: "Complete prayers for 7 consecutive days",
-        current: Math.min(currentStreak, 7),
-        target: 7,
-        icon: Flame,
-        color: "bg-orange-500",
-      },
-      {
-        title: "30-Day Streak",
-        description: "Complete prayers for 30 consecutive days",
-        current: Math.min(currentStreak, 30),
-        target: 30,
-        icon: Calendar,
-        color: "bg-primary",
-      },
-      {
-        title: "100-Day Streak",
-        description: "Complete prayers for 100 consecutive days",
-        current: Math.min(currentStreak, 100),
-        target: 100,
-        icon: Trophy,
-        color: "bg-yellow-500",
-      },
-      {
-        title: "Prayer Master",
-        description: "Complete 1000 prayers total",
-        current: Math.min(stats.totalPrayers || 0, 1000),
-        target: 1000,
-        icon: Target,
-        color: "bg-green-500",
-      },
-      {
-        title: "Weekly Consistency",
-        description: "80%+ prayer completion this week",
-        current: weekData.successRate || 0,
-        target: 80,
-        icon: Star,
-        color: "bg-blue-500",
-      },
-      {
-        title: "Monthly Devotee",
-        description: "Complete 80% of prayers this month",
-        current: monthData.successRate || 0,
-        target: 80,
-        icon: Mountain,
-        color: "bg-purple-500",
-      },
-    ];
-  };
-
 
   return (
     <div className="space-y-8" data-testid="page-achievements">
@@ -148,6 +92,18 @@ export default function Achievements() {
               <p className="text-muted-foreground">On-Time Prayers</p>
               <p className="font-semibold text-green-600">{userStats.onTimePrayers || 0}</p>
             </div>
+            <div>
+              <p className="text-muted-foreground">Jumu'ah Streak</p>
+              <p className="font-semibold text-primary" data-testid="text-jumuah-streak">
+                {userStats.jumuahStreak || 0} Fridays
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Best Jumu'ah Streak</p>
+              <p className="font-semibold text-primary" data-testid="text-best-jumuah-streak">
+                {userStats.bestJumuahStreak || 0} Fridays
+              </p>
+            </div>
           </div>
         )}
       </div>
@@ -179,10 +135,17 @@ export default function Achievements() {
 
       {/* Milestone Progress */}
       <div className="glass-card rounded-2xl p-6">
-        <h3 className="text-lg font-semibold mb-4" data-testid="text-milestones-title">
-          Milestones
-        </h3>
-        {isLoading || contextLoading ? (
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold" data-testid="text-milestones-title">
+            Milestones
+          </h3>
+          {catalog.length > 0 && (
+            <span className="text-sm text-muted-foreground" data-testid="text-achievements-unlocked">
+              {unlockedCount} of {catalog.length} unlocked
+            </span>
+          )}
+        </div>
+        {isLoading || catalogLoading || contextLoading ? (
           <div className="space-y-4">
             {[1, 2, 3].map((i) => (
               <div key={i} className="animate-pulse">
@@ -204,16 +167,8 @@ export default function Achievements() {
           </div>
         ) : (
           <div className="space-y-4">
-            {milestones.map((milestone) => (
-              <MilestoneProgress
-                key={milestone.title}
-                title={milestone.title}
-                description={milestone.description}
-                current={milestone.current}
-                target={milestone.target}
-                icon={milestone.icon}
-                color={milestone.color}
-              />
+            {milestones.map((entry) => (
+              <MilestoneProgress key={entry.id} entry={entry} />
             ))}
           </div>
         )}
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import { PrayerTracker } from '../components/prayer-tracker';
 import { WeeklyProgress, WeeklyOverview } from '../components/weekly-progress';
+import { TodaysMakeups } from '../components/qaza-plan';
 import { 
   getHijriDate, 
   formatDateForDisplay, 
@@ -9,23 +10,30 @@ import {
   getNextPrayer,
   getCurrentTime
 } from '../lib/prayer-utils';
+import { useUserSettings } from '@/hooks/use-user-settings';
+import { formatHijriDate } from '@shared/hijri';
 
 export default function Dashboard() {
+  const { data: settings } = useUserSettings();
   const [selectedDate, setSelectedDate] = useState(new Date());
-  const [currentTime, setCurrentTime] = useState(getCurrentTime());
-  const [nextPrayer, setNextPrayer] = useState(getNextPrayer());
+  const timezone = settings?.timezone ?? undefined;
+  const locale = settings?.language ?? 'en-US';
+  const [currentTime, setCurrentTime] = useState(getCurrentTime(timezone, locale));
+  const [nextPrayer, setNextPrayer] = useState(getNextPrayer(new Date(), settings));
 
   useEffect(() => {
+    setNextPrayer(getNextPrayer(new Date(), settings));
+    
     const timer = setInterval(() => {
-      setCurrentTime(getCurrentTime());
-      setNextPrayer(getNextPrayer());
+      setCurrentTime(getCurrentTime(timezone, locale));
+      setNextPrayer(getNextPrayer(new Date(), settings));
     }, 1000);
 
     return () => clearInterval(timer);
-  }, []);
+  }, [settings, timezone, locale]);
 
-  const currentPrayer = getCurrentPrayer();
-  const hijriDate = getHijriDate(selectedDate);
+  const currentPrayer = getCurrentPrayer(new Date(), settings);
+  const hijriDate = formatHijriDate(getHijriDate(selectedDate, settings?.hijriAdjustment ?? 0));
   const isToday = selectedDate.toDateString() === new Date().toDateString();
 
   const navigateDate = (direction: 'prev' | 'next') => {
@@ -50,7 +58,7 @@ export default function Dashboard() {
 
           <div className="text-center">
             <h2 className="text-2xl font-bold text-foreground" data-testid="text-current-date">
-              {isToday ? 'Today' : ''}{isToday ? ', ' : ''}{formatDateForDisplay(selectedDate)}
+              {isToday ? 'Today' : ''}{isToday ? ', ' : ''}{formatDateForDisplay(selectedDate, locale)}
             </h2>
             <p className="text-sm text-muted-foreground mt-1" data-testid="text-hijri-date">
               {hijriDate}
@@ -105,6 +113,8 @@ export default function Dashboard() {
         <PrayerTracker />
       </section>
 
+      <TodaysMakeups />
+
       <WeeklyProgress />
       <WeeklyOverview />
     </div>
@@ -6,7 +6,7 @@ import { Calendar, Trophy, BarChart3, Clock, Zap, Star } from 'lucide-react';
 
 export default function Landing() {
   const handleLogin = () => {
-    window.location.href = '/api/login';
+    window.location.href = '/login';
   };
 
   return (
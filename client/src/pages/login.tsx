@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { useLocation } from 'wouter';
+import { useQueryClient } from '@tanstack/react-query';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -10,6 +11,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ThemeToggle } from '@/components/theme-toggle';
 import { Calendar } from 'lucide-react';
+import { setAuthTokens } from '@/lib/authUtils';
 
 const loginSchema = z.object({
   username: z.string().min(1, 'Username is required'),
@@ -28,9 +30,10 @@ type LoginForm = z.infer<typeof loginSchema>;
 type RegisterForm = z.infer<typeof registerSchema>;
 
 export default function Login() {
-  const [location, navigate] = useLocation();
+  const [, navigate] = useLocation();
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const queryClient = useQueryClient();
 
   const loginForm = useForm<LoginForm>({
     resolver: zodResolver(loginSchema),
@@ -56,13 +59,14 @@ export default function Login() {
         throw new Error(errorData.message || 'Login failed');
       }
 
-      const { token, user } = await response.json();
+      const { token, refreshToken, user } = await response.json();
 
-      // Store token in localStorage
-      localStorage.setItem('authToken', token);
+      // Store tokens and hand the signed-in user to the auth provider
+      setAuthTokens(token, refreshToken);
+      queryClient.setQueryData(['/api/auth/me'], user);
 
       // Redirect to dashboard or original location
-      const redirectTo = new URLSearchParams(location.split('?')[1]).get('redirect') || '/dashboard';
+      const redirectTo = new URLSearchParams(window.location.search).get('redirect') || '/';
       navigate(redirectTo);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed');
@@ -79,10 +83,7 @@ export default function Login() {
       const response = await fetch('/api/auth/register', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          ...data,
-          passwordHash: data.password, // Pass plain password, let server hash it
-        }),
+        body: JSON.stringify(data),
       });
 
       if (!response.ok) {
@@ -90,13 +91,14 @@ export default function Login() {
         throw new Error(errorData.message || 'Registration failed');
       }
 
-      const { token, user } = await response.json();
+      const { token, refreshToken, user } = await response.json();
 
-      // Store token in localStorage
-      localStorage.setItem('authToken', token);
+      // Store tokens and hand the signed-in user to the auth provider
+      setAuthTokens(token, refreshToken);
+      queryClient.setQueryData(['/api/auth/me'], user);
 
       // Redirect to dashboard
-      navigate('/dashboard');
+      navigate('/');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Registration failed');
     } finally {
@@ -0,0 +1,24 @@
+import { LocationPreferencesSettings } from '../components/location-preferences-settings';
+import { PrayerCalculationSettings } from '../components/prayer-calculation-settings';
+import { ExcusedPeriodsSettings } from '../components/excused-periods-settings';
+import { TravelPeriodsSettings } from '../components/travel-periods-settings';
+import { VoluntaryPrayerSettings } from '../components/voluntary-prayer-settings';
+import { SavedMosquesSettings } from '../components/saved-mosques-settings';
+import { AccountSettings } from '../components/account-settings';
+
+export default function Settings() {
+  return (
+    <div className="space-y-6" data-testid="page-settings">
+      <h2 className="text-2xl font-bold text-center" data-testid="text-settings-title">
+        Settings
+      </h2>
+      <LocationPreferencesSettings />
+      <PrayerCalculationSettings />
+      <VoluntaryPrayerSettings />
+      <SavedMosquesSettings />
+      <TravelPeriodsSettings />
+      <ExcusedPeriodsSettings />
+      <AccountSettings />
+    </div>
+  );
+}
@@ -0,0 +1,526 @@
+// Achievement rules, evaluated on the server after prayers are saved so every device sees the
+// same awards. The achievements themselves are data in the shared catalog; this module measures
+// each rule's metric over its window. Each earned achievement carries a key naming exactly what
+// was earned (the catalog id, plus the period for windowed rules); storage only awards a key once
+// per user. Keys also let earned achievements be re-checked when history is edited.
+
+import type { Achievement, AchievementLogAction, InsertAchievement, PrayerRecord, UserStats } from "@shared/schema";
+import { achievementCatalog, type AchievementCatalogEntry, type AchievementDefinition, type AchievementPeriodWindow, type AchievementRule } from "@shared/achievement-catalog";
+import { getDayStreakState, getPrayerState } from "@shared/prayer-status";
+import { addDaysToDateString } from "@shared/prayer-times";
+import { HIJRI_MONTHS, formatHijriDate, getHijriMonthLength, toGregorian, toHijri } from "@shared/hijri";
+
+type DayRecord = Pick<PrayerRecord, 'date' | 'prayers'>;
+type FardPrayer = keyof PrayerRecord['prayers'];
+type Metadata = EarnedAchievement['metadata'];
+
+export type EarnedAchievement = Omit<InsertAchievement, 'userId' | 'key'> & { key: string };
+
+export interface AchievementReview {
+  achievement: Achievement;
+  action: AchievementLogAction;
+  reason: string;
+}
+
+export interface AchievementContext {
+  records: DayRecord[]; // Fard records with excused periods applied
+  stats: UserStats | undefined;
+  today: string; // YYYY-MM-DD in the user's time zone
+  dates: string[]; // Days whose records were just saved
+  weekStartDay: number;
+  hijriAdjustment: number;
+  historyStartDate?: string; // Set when only records from this day on were loaded; earlier ones exist
+}
+
+// A stretch of days a windowed rule is measured over
+interface Period {
+  key: string; // Appended to the catalog id in the achievement key
+  startDate: string;
+  endDate: string;
+  metadata: Metadata;
+}
+
+type HijriSeasonWindow = Exclude<AchievementPeriodWindow, 'day' | 'week' | 'month' | 'year'>;
+
+// Seasons of the Hijri year, by month and day range; toDay 30 runs to the end of the month
+const hijriSeasons: Record<HijriSeasonWindow, { season: string; month: number; fromDay: number; toDay: number; specialMonth: string }> = {
+  'ramadan': { season: 'ramadan', month: HIJRI_MONTHS.ramadan, fromDay: 1, toDay: 30, specialMonth: 'Ramadan' },
+  'last-ten-nights': { season: 'last_ten_nights', month: HIJRI_MONTHS.ramadan, fromDay: 21, toDay: 30, specialMonth: 'Ramadan' },
+  'arafah': { season: 'arafah', month: HIJRI_MONTHS.dhulHijjah, fromDay: 9, toDay: 9, specialMonth: 'Dhul Hijjah' },
+  'dhul-hijjah-ten': { season: 'dhul_hijjah_ten', month: HIJRI_MONTHS.dhulHijjah, fromDay: 1, toDay: 10, specialMonth: 'Dhul Hijjah' },
+  'ashura': { season: 'ashura', month: HIJRI_MONTHS.muharram, fromDay: 10, toDay: 10, specialMonth: 'Muharram' },
+};
+
+// Metrics read from the stored statistics rather than the records
+const statisticsMetrics: Array<AchievementRule['metric']> = ['currentStreak', 'totalPrayers', 'jumuahStreak'];
+
+// What each metric counts, as read in the reason an achievement was revoked
+const metricLabels: Record<AchievementRule['metric'], string> = {
+  perfectDayRate: '% of days fully kept',
+  completionRate: '% of prayers prayed on their day',
+  perfectWeekends: ' perfect weekends',
+  perfectMonths: ' perfect months',
+  currentStreak: ' days in the best daily streak',
+  totalPrayers: ' prayers in total',
+  jumuahStreak: " Fridays in the best Jumu'ah streak",
+  fajrStreak: ' days in the best Fajr streak',
+  maghribStreak: ' days in the best Maghrib streak',
+  ishaStreak: ' days in the best Isha streak',
+  perfectWeekendStreak: ' weekends in the best run of perfect weekends',
+  comebackStreak: ' days kept since the comeback began',
+};
+
+// Helper function to get the day of the week for a YYYY-MM-DD date (0 = Sunday)
+function getDayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+// Helper function to get the first day of the week containing a date
+function getWeekStartDate(date: string, weekStartDay: number): string {
+  return addDaysToDateString(date, -((getDayOfWeek(date) - weekStartDay + 7) % 7));
+}
+
+// Helper function to get the last day of a YYYY-MM month
+function getMonthEndDate(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthNumber, 0)).toISOString().split('T')[0];
+}
+
+// Helper function to check a prayer was prayed on its day, on time or late
+function isPrayedOnDay(prayer: PrayerRecord['prayers'][FardPrayer]): boolean {
+  const state = getPrayerState(prayer);
+  return state === 'on-time' || state === 'late';
+}
+
+// Helper function to get the key a catalog achievement is stored under for a period
+function getAchievementKey(definition: AchievementDefinition, period?: Period): string {
+  return period ? `${definition.id}:${period.key}` : definition.id;
+}
+
+/**
+ * Measure catalog rules against one user's records and statistics. Days without
+ * a record count as missed, so a period that is still running can only reach
+ * thresholds its remaining days cannot take away.
+ */
+function createMetricReader(context: Omit<AchievementContext, 'dates'>) {
+  const { records, stats, today, weekStartDay, hijriAdjustment, historyStartDate } = context;
+  const recordsByDate = new Map(records.map(record => [record.date, record]));
+  const getDayState = (date: string) => {
+    const record = recordsByDate.get(date);
+    return record ? getDayStreakState(record.prayers) : 'broken';
+  };
+
+  // Share of days with nothing broken, rounded down; a period needs at least one kept day
+  const getPerfectDayRate = (startDate: string, endDate: string): number => {
+    let days = 0;
+    let unbrokenDays = 0;
+    let keptDays = 0;
+    for (let date = startDate; date <= endDate; date = addDaysToDateString(date, 1)) {
+      const dayState = getDayState(date);
+      days++;
+      if (dayState !== 'broken') unbrokenDays++;
+      if (dayState === 'kept') keptDays++;
+    }
+    return keptDays > 0 ? Math.floor((unbrokenDays / days) * 100) : 0;
+  };
+
+  // Share of owed prayers prayed on their day
+  const getCompletionRate = (startDate: string, endDate: string): number => {
+    let prayed = 0;
+    let required = 0;
+    for (let date = startDate; date <= endDate; date = addDaysToDateString(date, 1)) {
+      const record = recordsByDate.get(date);
+      if (!record) {
+        required += 5;
+        continue;
+      }
+      Object.values(record.prayers).forEach(prayer => {
+        if (getPrayerState(prayer) !== 'excused') {
+          required++;
+          if (isPrayedOnDay(prayer)) prayed++;
+        }
+      });
+    }
+    return required > 0 ? Math.round((prayed / required) * 100) : 0;
+  };
+
+  const isPerfectWeekend = (sunday: string) => getPerfectDayRate(addDaysToDateString(sunday, -1), sunday) === 100;
+
+  // Count consecutive days back from today that pass the check; today only counts once it passes
+  const countConsecutiveDays = (check: (record: DayRecord | undefined) => 'kept' | 'excused' | 'broken'): { days: number; startDate: string } => {
+    let days = 0;
+    let startDate = today;
+    for (let date = today; ; date = addDaysToDateString(date, -1)) {
+      const dayState = check(recordsByDate.get(date));
+      if (dayState === 'broken') {
+        if (date === today) continue;
+        break;
+      }
+      if (dayState === 'kept') days++;
+      startDate = date;
+    }
+    return { days, startDate };
+  };
+
+  // Consecutive days of one prayer; excused prayers neither add to nor break the run
+  const getPrayerDayState = (prayerType: FardPrayer) => (record: DayRecord | undefined): 'kept' | 'excused' | 'broken' => {
+    if (!record) return 'broken';
+    const prayer = record.prayers[prayerType];
+    if (getPrayerState(prayer) === 'excused') return 'excused';
+    return isPrayedOnDay(prayer) ? 'kept' : 'broken';
+  };
+  const countPrayerStreak = (prayerType: FardPrayer): number => countConsecutiveDays(getPrayerDayState(prayerType)).days;
+
+  // Longest run of one prayer anywhere in the records
+  const getBestPrayerStreak = (prayerType: FardPrayer): number => {
+    const check = getPrayerDayState(prayerType);
+    const firstDate = records.reduce((first, record) => (record.date < first ? record.date : first), today);
+    let best = 0;
+    let days = 0;
+    for (let date = firstDate; date <= today; date = addDaysToDateString(date, 1)) {
+      const dayState = check(recordsByDate.get(date));
+      if (dayState === 'broken') days = 0;
+      if (dayState === 'kept') best = Math.max(best, ++days);
+    }
+    return best;
+  };
+
+  // A weekend ending today still counts towards the run once it is perfect
+  const countPerfectWeekendStreak = (): number => {
+    const lastSunday = addDaysToDateString(today, -getDayOfWeek(today));
+    let weekends = 0;
+    let sunday = lastSunday === today && !isPerfectWeekend(today) ? addDaysToDateString(today, -7) : lastSunday;
+    for (; isPerfectWeekend(sunday); sunday = addDaysToDateString(sunday, -7)) {
+      weekends++;
+    }
+    return weekends;
+  };
+
+  // Longest run of perfect weekends anywhere in the records
+  const getBestPerfectWeekendStreak = (): number => {
+    const firstDate = records.reduce((first, record) => (record.date < first ? record.date : first), today);
+    let best = 0;
+    let weekends = 0;
+    for (let sunday = addDaysToDateString(firstDate, 7 - getDayOfWeek(firstDate)); sunday <= today; sunday = addDaysToDateString(sunday, 7)) {
+      weekends = isPerfectWeekend(sunday) ? weekends + 1 : 0;
+      best = Math.max(best, weekends);
+    }
+    return best;
+  };
+
+  const hasRecordsBefore = (date: string) =>
+    (historyStartDate !== undefined && historyStartDate <= date) || records.some(record => record.date < date);
+
+  // Kept days in a run starting on a date; only a comeback when there are records before it
+  const countComebackDays = (startDate: string): number => {
+    if (!hasRecordsBefore(startDate)) return 0;
+    let days = 0;
+    for (let date = startDate; date <= today; date = addDaysToDateString(date, 1)) {
+      const dayState = getDayState(date);
+      if (dayState === 'broken') break;
+      if (dayState === 'kept') days++;
+    }
+    return days;
+  };
+
+  // The current run of kept days
+  const run = countConsecutiveDays(record => (record ? getDayStreakState(record.prayers) : 'broken'));
+  const comebackDays = hasRecordsBefore(run.startDate) ? run.days : 0;
+
+  // Whether every day a period is measured over was loaded; a run reaching back to the first
+  // loaded day may have begun earlier
+  const isPeriodLoaded = (period: Period) => !historyStartDate || period.startDate > historyStartDate;
+
+  /** Get the period of a Hijri season in a Hijri year. */
+  const getSeasonPeriod = (window: HijriSeasonWindow, hijriYear: number): Period => {
+    const { season, month, fromDay, toDay, specialMonth } = hijriSeasons[window];
+    const endHijri = { year: hijriYear, month, day: Math.min(toDay, getHijriMonthLength(hijriYear, month)) };
+    return {
+      key: String(hijriYear),
+      startDate: toGregorian({ year: hijriYear, month, day: fromDay }, hijriAdjustment),
+      endDate: toGregorian(endHijri, hijriAdjustment),
+      metadata: { season, specialMonth, hijriYear, hijriDate: formatHijriDate(endHijri) },
+    };
+  };
+
+  /** Get the period of a window that contains a date. */
+  const getPeriod = (window: AchievementPeriodWindow, date: string): Period => {
+    switch (window) {
+      case 'day':
+        return { key: date, startDate: date, endDate: date, metadata: {} };
+      case 'week': {
+        const startDate = getWeekStartDate(date, weekStartDay);
+        const endDate = addDaysToDateString(startDate, 6);
+        return { key: startDate, startDate, endDate, metadata: { year: Number(endDate.slice(0, 4)), dateRange: { start: startDate, end: endDate } } };
+      }
+      case 'month': {
+        const month = date.slice(0, 7);
+        return { key: month, startDate: `${month}-01`, endDate: getMonthEndDate(month), metadata: { month: Number(month.slice(5)), year: Number(month.slice(0, 4)) } };
+      }
+      case 'year': {
+        const year = date.slice(0, 4);
+        return { key: year, startDate: `${year}-01-01`, endDate: `${year}-12-31`, metadata: { year: Number(year) } };
+      }
+      default:
+        return getSeasonPeriod(window, toHijri(date, hijriAdjustment).year);
+    }
+  };
+
+  /** Get the period an achievement key was earned for, so it can be measured again. */
+  const getPeriodFromKey = (window: AchievementPeriodWindow, key: string): Period => {
+    switch (window) {
+      case 'day':
+        return getPeriod('day', key);
+      case 'week': {
+        // Measure the week that was earned, even if the week start setting has changed since
+        const endDate = addDaysToDateString(key, 6);
+        return { key, startDate: key, endDate, metadata: { year: Number(endDate.slice(0, 4)), dateRange: { start: key, end: endDate } } };
+      }
+      case 'month':
+        return getPeriod('month', `${key}-01`);
+      case 'year':
+        return getPeriod('year', `${key}-01-01`);
+      default:
+        return getSeasonPeriod(window, Number(key));
+    }
+  };
+
+  /** Measure a rule's metric, over a period for windowed rules. */
+  const measure = (rule: AchievementRule, period?: Period): number => {
+    switch (rule.metric) {
+      case 'perfectDayRate':
+        return getPerfectDayRate(period!.startDate, period!.endDate);
+      case 'completionRate':
+        return getCompletionRate(period!.startDate, period!.endDate);
+      case 'perfectWeekends': {
+        let weekends = 0;
+        const lastSunday = addDaysToDateString(today, -getDayOfWeek(today));
+        for (let sunday = lastSunday; sunday >= period!.startDate; sunday = addDaysToDateString(sunday, -7)) {
+          if (sunday <= period!.endDate && isPerfectWeekend(sunday)) weekends++;
+        }
+        return weekends;
+      }
+      case 'perfectMonths': {
+        let months = 0;
+        for (let date = period!.startDate; date <= period!.endDate && date <= today; date = addDaysToDateString(getMonthEndDate(date.slice(0, 7)), 1)) {
+          if (getPerfectDayRate(date, getMonthEndDate(date.slice(0, 7))) === 100) months++;
+        }
+        return months;
+      }
+      case 'currentStreak':
+        return stats?.currentStreak ?? 0;
+      case 'totalPrayers':
+        return stats?.totalPrayers ?? 0;
+      case 'jumuahStreak':
+        return stats?.jumuahStreak ?? 0;
+      case 'fajrStreak':
+        return countPrayerStreak('fajr');
+      case 'maghribStreak':
+        return countPrayerStreak('maghrib');
+      case 'ishaStreak':
+        return countPrayerStreak('isha');
+      case 'perfectWeekendStreak':
+        return countPerfectWeekendStreak();
+      case 'comebackStreak':
+        return comebackDays;
+    }
+  };
+
+  /** Get the period a rule is measured over today; running totals have none. */
+  const getCurrentPeriod = (rule: AchievementRule): Period | undefined => {
+    if (rule.window === 'ever') return undefined;
+    if (rule.window === 'run') return { key: run.startDate, startDate: run.startDate, endDate: today, metadata: {} };
+    return getPeriod(rule.window, today);
+  };
+
+  /** Check an earned achievement can be measured again from the loaded records. */
+  const canMeasureEarned = (rule: AchievementRule, periodKey: string): boolean => {
+    switch (rule.window) {
+      case 'ever':
+        // Best streaks are searched for from the first record
+        return !historyStartDate || statisticsMetrics.includes(rule.metric);
+      case 'run':
+        return isPeriodLoaded({ key: periodKey, startDate: periodKey, endDate: today, metadata: {} });
+      default:
+        return isPeriodLoaded(getPeriodFromKey(rule.window, periodKey));
+    }
+  };
+
+  /**
+   * Measure whether an earned achievement still holds. Running totals and streaks
+   * use their best value in the records, since they held when they were earned.
+   */
+  const measureEarned = (rule: AchievementRule, periodKey: string): number => {
+    switch (rule.window) {
+      case 'ever':
+        switch (rule.metric) {
+          case 'currentStreak':
+            return stats?.bestStreak ?? 0;
+          case 'jumuahStreak':
+            return stats?.bestJumuahStreak ?? 0;
+          case 'fajrStreak':
+            return getBestPrayerStreak('fajr');
+          case 'maghribStreak':
+            return getBestPrayerStreak('maghrib');
+          case 'ishaStreak':
+            return getBestPrayerStreak('isha');
+          case 'perfectWeekendStreak':
+            return getBestPerfectWeekendStreak();
+          default:
+            return measure(rule);
+        }
+      case 'run':
+        return countComebackDays(periodKey);
+      default:
+        return measure(rule, getPeriodFromKey(rule.window, periodKey));
+    }
+  };
+
+  return { recordsByDate, getPeriod, getCurrentPeriod, isPeriodLoaded, measure, measureEarned, canMeasureEarned };
+}
+
+// Helper function to describe what was reached in the metadata shown on achievement cards
+function getMetricMetadata(rule: AchievementRule, value: number): Metadata {
+  switch (rule.metric) {
+    case 'completionRate':
+      return { consistencyRate: value, period: rule.window };
+    case 'perfectWeekends':
+      return { perfectWeekends: rule.threshold };
+    case 'perfectMonths':
+      return { perfectMonths: rule.threshold };
+    case 'currentStreak':
+      return { streakDays: rule.threshold };
+    case 'totalPrayers':
+      return { totalPrayers: rule.threshold };
+    case 'jumuahStreak':
+      return { jumuahStreak: rule.threshold };
+    case 'fajrStreak':
+    case 'maghribStreak':
+    case 'ishaStreak':
+      return { consecutiveDays: rule.threshold, prayerType: rule.metric.replace('Streak', '') };
+    case 'perfectWeekendStreak':
+      return { consecutiveWeekends: rule.threshold };
+    case 'comebackStreak':
+      return { comebackDays: rule.threshold };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Evaluate every catalog rule against the user's records and statistics.
+ * Returns all achievements that currently hold, already earned ones included;
+ * windowed achievements are checked for the current period and the periods
+ * containing the days that were just saved. Missing earlier history only lowers
+ * what is measured, so anything reaching its threshold is still earned.
+ */
+export function evaluateAchievements(context: AchievementContext): EarnedAchievement[] {
+  const { today } = context;
+  const reader = createMetricReader(context);
+  const dates = Array.from(new Set([today, ...context.dates])).filter(date => date <= today);
+  const earned: EarnedAchievement[] = [];
+
+  achievementCatalog.forEach(definition => {
+    const { rule } = definition;
+    const periods = rule.window === 'ever' || rule.window === 'run'
+      ? [reader.getCurrentPeriod(rule)]
+      : Array.from(new Map(dates.map(date => {
+          const period = reader.getPeriod(rule.window, date);
+          return [period.key, period] as const;
+        })).values());
+
+    periods.forEach(period => {
+      const value = reader.measure(rule, period);
+      if (value < rule.threshold || (period && !reader.isPeriodLoaded(period))) return;
+
+      let metadata = { ...period?.metadata, ...getMetricMetadata(rule, value) };
+      if (rule.window === 'day') {
+        const prayers = reader.recordsByDate.get(period!.startDate)!.prayers;
+        metadata = { onTimePrayers: Object.values(prayers).filter(prayer => getPrayerState(prayer) === 'on-time').length };
+      }
+
+      earned.push({
+        key: getAchievementKey(definition, rule.window === 'ever' ? undefined : period),
+        type: definition.type,
+        title: definition.title,
+        description: definition.description,
+        earnedDate: period && period.endDate < today ? period.endDate : today,
+        metadata,
+      });
+    });
+  });
+
+  return earned;
+}
+
+/**
+ * Get the catalog with one user's state: whether each achievement has been
+ * earned, how often, and progress toward it in the current period.
+ */
+export function getAchievementCatalog(context: Omit<AchievementContext, 'dates'>, achievements: Achievement[]): AchievementCatalogEntry[] {
+  const reader = createMetricReader(context);
+
+  return achievementCatalog.map(definition => {
+    const earned = achievements.filter(achievement =>
+      achievement.key === definition.id || achievement.key?.startsWith(`${definition.id}:`)
+    );
+    const lastEarnedDate = earned.reduce<string | null>(
+      (latest, achievement) => (!latest || achievement.earnedDate > latest ? achievement.earnedDate : latest),
+      null
+    );
+
+    return {
+      ...definition,
+      unlocked: earned.length > 0,
+      earnedCount: earned.length,
+      lastEarnedDate,
+      progress: {
+        current: Math.min(reader.measure(definition.rule, reader.getCurrentPeriod(definition.rule)), definition.rule.threshold),
+        target: definition.rule.threshold,
+      },
+    };
+  });
+}
+
+/**
+ * Re-check earned achievements against the current records, e.g. after history
+ * was edited. Returns those that no longer hold, to be revoked, and those the
+ * catalog can no longer check, to be kept as historical, each with the reason.
+ * When only recent history was loaded, achievements it cannot measure are left
+ * for a check against the full history.
+ */
+export function reviewAchievements(context: Omit<AchievementContext, 'dates'>, achievements: Achievement[]): AchievementReview[] {
+  const reader = createMetricReader(context);
+  const reviews: AchievementReview[] = [];
+
+  achievements
+    .filter(achievement => !achievement.historical)
+    .forEach(achievement => {
+      if (!achievement.key) {
+        reviews.push({ achievement, action: 'historical', reason: "Earned before achievements were tied to catalog rules, so it cannot be re-checked" });
+        return;
+      }
+
+      const separator = achievement.key.indexOf(':');
+      const id = separator === -1 ? achievement.key : achievement.key.slice(0, separator);
+      const periodKey = separator === -1 ? '' : achievement.key.slice(separator + 1);
+      const definition = achievementCatalog.find(entry => entry.id === id);
+      if (!definition) {
+        reviews.push({ achievement, action: 'historical', reason: `"${id}" is no longer in the achievement catalog, so it cannot be re-checked` });
+        return;
+      }
+
+      const { rule } = definition;
+      if (!reader.canMeasureEarned(rule, periodKey)) return;
+      const value = reader.measureEarned(rule, periodKey);
+      if (value < rule.threshold) {
+        reviews.push({
+          achievement,
+          action: 'revoked',
+          reason: `Records now show ${value}${metricLabels[rule.metric]}${periodKey ? ` for ${periodKey}` : ''} (needs ${rule.threshold})`,
+        });
+      }
+    });
+
+  return reviews;
+}
@@ -1,12 +1,30 @@
 import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
+import { createHash, randomBytes } from "crypto";
 import { storage } from "./storage";
-import type { User } from "@shared/schema";
-import { registerUserSchema, loginUserSchema, safeUserSchema } from "@shared/schema";
-import type { RequestHandler, Request, Response } from "express";
+import type { AuthMode, Session, SessionSummary, User } from "@shared/schema";
+import { registerUserSchema, loginUserSchema, refreshTokenSchema, safeUserSchema } from "@shared/schema";
+import type { Express, RequestHandler, Request, Response } from "express";
 
 const JWT_SECRET = process.env.JWT_SECRET || "your-jwt-secret-here";
 
+// Access tokens are short-lived; the refresh token keeps a device signed in
+const ACCESS_TOKEN_TTL = '15m';
+const REFRESH_TOKEN_TTL_DAYS = 30;
+
+// How stale a session's last-seen time may get before a request writes it again
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+// Self-hosters can set AUTH_MODE=local to run without accounts; everyone else signs in
+export const authMode: AuthMode = process.env.AUTH_MODE === "local" ? "local" : "accounts";
+
+// Accounts allowed to run maintenance for every user, e.g. ADMIN_USERNAMES=alice,bob
+const adminUsernames = (process.env.ADMIN_USERNAMES ?? "").split(",").map(name => name.trim()).filter(Boolean);
+
+// Local mode keeps the id the demo user always had so existing data stays attached
+export const LOCAL_USER_ID = "demo-user";
+const localUser = { userId: LOCAL_USER_ID, username: "demo", email: "demo@example.com" };
+
 // Hash password
 export const hashPassword = async (password: string): Promise<string> => {
   return await bcrypt.hash(password, 12);
@@ -17,19 +35,47 @@ export const verifyPassword = async (password: string, hashedPassword: string):
   return await bcrypt.compare(password, hashedPassword);
 };
 
-// Generate JWT token
-export const generateToken = (user: User): string => {
+// Generate JWT access token for a session
+export const generateToken = (user: User, sessionId: string): string => {
   return jwt.sign(
     {
       userId: user.id,
       username: user.username,
-      email: user.email
+      email: user.email,
+      sessionId
     },
     JWT_SECRET,
-    { expiresIn: '7d' }
+    { expiresIn: ACCESS_TOKEN_TTL }
   );
 };
 
+// Only a hash of the refresh secret is stored, so the sessions table cannot be replayed
+const hashRefreshSecret = (secret: string): string => {
+  return createHash("sha256").update(secret).digest("hex");
+};
+
+const createRefreshSecret = (): string => randomBytes(32).toString("base64url");
+
+const getRefreshExpiry = (): Date => new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+// Device details shown in the session list
+const getClientDetails = (req: Request): Pick<Session, 'userAgent' | 'ipAddress'> => ({
+  userAgent: req.get('user-agent') ?? null,
+  ipAddress: req.ip ?? null,
+});
+
+// Start a session for a user who just proved who they are and issue its first token pair
+const startSession = async (user: User, req: Request): Promise<{ token: string; refreshToken: string }> => {
+  const secret = createRefreshSecret();
+  const session = await storage.createSession({
+    userId: user.id,
+    refreshTokenHash: hashRefreshSecret(secret),
+    expiresAt: getRefreshExpiry(),
+    ...getClientDetails(req),
+  });
+  return { token: generateToken(user, session.id), refreshToken: `${session.id}.${secret}` };
+};
+
 // Verify JWT token
 export const verifyToken = (token: string): any => {
   try {
@@ -40,7 +86,7 @@ export const verifyToken = (token: string): any => {
 };
 
 // Middleware for authentication
-export const authenticate: RequestHandler = (req: Request & { user?: any }, res: Response, next) => {
+export const authenticate: RequestHandler = async (req: Request & { user?: any }, res: Response, next) => {
   try {
     const authHeader = req.headers.authorization;
 
@@ -55,6 +101,18 @@ export const authenticate: RequestHandler = (req: Request & { user?: any }, res:
       return res.status(401).json({ message: "Invalid token" });
     }
 
+    // A revoked session stops its access tokens before they expire
+    const session = decoded.sessionId ? await storage.getSession(decoded.sessionId) : undefined;
+    if (!session || session.revokedAt || session.userId !== decoded.userId) {
+      return res.status(401).json({ message: "Session has been revoked" });
+    }
+
+    // Keep the session list's last-seen time roughly current without a write per request
+    if (!session.lastSeenAt || Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_INTERVAL_MS) {
+      storage.touchSession(session.id, { lastSeenAt: new Date(), ...getClientDetails(req) })
+        .catch(error => console.error("Failed to record session activity:", error));
+    }
+
     req.user = decoded;
     next();
   } catch (error) {
@@ -62,6 +120,64 @@ export const authenticate: RequestHandler = (req: Request & { user?: any }, res:
   }
 };
 
+// Middleware for single-user local mode
+export const authenticateLocal: RequestHandler = (req: Request & { user?: any }, res: Response, next) => {
+  req.user = localUser;
+  next();
+};
+
+// Middleware for admin-only routes, after authentication; the local user runs the server so is admin
+export const requireAdmin: RequestHandler = (req: Request & { user?: any }, res: Response, next) => {
+  if (authMode === "local" || adminUsernames.includes(req.user?.username)) {
+    return next();
+  }
+  res.status(403).json({ message: "Admin access required" });
+};
+
+// Make sure the local user exists so records referencing it satisfy foreign keys
+const ensureLocalUser = async (): Promise<void> => {
+  const existing = await storage.getUser(LOCAL_USER_ID);
+  if (!existing) {
+    await storage.upsertUser({
+      id: LOCAL_USER_ID,
+      username: localUser.username,
+      email: localUser.email,
+      passwordHash: "",
+      firstName: "Demo",
+      lastName: "User",
+    });
+  }
+};
+
+// Register the /api/auth routes for the configured mode and return the middleware
+// that every other /api route uses to identify the user
+export const setupAuth = async (app: Express): Promise<RequestHandler> => {
+  app.get('/api/auth/config', (req, res) => {
+    res.json({ mode: authMode });
+  });
+
+  if (authMode === "local") {
+    console.log("Authentication disabled - single-user local mode");
+    await ensureLocalUser();
+    app.get('/api/auth/me', authenticateLocal, getMe);
+    return authenticateLocal;
+  }
+
+  if (!process.env.JWT_SECRET && app.get("env") === "production") {
+    throw new Error("JWT_SECRET must be set when AUTH_MODE is not local");
+  }
+
+  app.post('/api/auth/register', register);
+  app.post('/api/auth/login', login);
+  app.post('/api/auth/refresh', refresh);
+  app.post('/api/auth/logout', authenticate, logout);
+  app.post('/api/auth/logout-all', authenticate, logoutAll);
+  app.get('/api/auth/sessions', authenticate, listSessions);
+  app.delete('/api/auth/sessions/:id', authenticate, revokeSessionById);
+  app.get('/api/auth/me', authenticate, getMe);
+  return authenticate;
+};
+
 // Register user
 export const register = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -69,8 +185,8 @@ export const register = async (req: Request, res: Response): Promise<void> => {
 
     // Check if user already exists
     const existingUsers = await Promise.all([
-      validatedData.username ? storage.getUserByUsername(validatedData.username) : Promise.resolve(null),
-      validatedData.email ? storage.getUserByEmail(validatedData.email) : Promise.resolve(null)
+      storage.getUserByUsername(validatedData.username),
+      storage.getUserByEmail(validatedData.email)
     ]);
 
     if (existingUsers[0]) {
@@ -83,13 +199,13 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Hash password (validatedData.passwordHash should be present for JWT auth)
-    const passwordHash = await hashPassword(validatedData.passwordHash!);
+    // Hash password
+    const passwordHash = await hashPassword(validatedData.password);
 
     // Create user
     const userData: Omit<User, 'id' | 'createdAt' | 'updatedAt'> = {
-      username: validatedData.username as string,
-      email: validatedData.email as string,
+      username: validatedData.username,
+      email: validatedData.email,
       passwordHash,
       firstName: validatedData.firstName || null,
       lastName: validatedData.lastName || null,
@@ -99,8 +215,8 @@ export const register = async (req: Request, res: Response): Promise<void> => {
 
     const newUser = await storage.createUser(userData);
 
-    // Generate token
-    const token = generateToken(newUser as User);
+    // Start a session
+    const { token, refreshToken } = await startSession(newUser as User, req);
 
     // Return safe user data (without password)
     const safeUser = safeUserSchema.parse(newUser);
@@ -108,6 +224,7 @@ export const register = async (req: Request, res: Response): Promise<void> => {
     res.status(201).json({
       user: safeUser,
       token,
+      refreshToken,
       message: "Registration successful"
     });
 
@@ -146,8 +263,8 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Generate token
-    const token = generateToken(user);
+    // Start a session
+    const { token, refreshToken } = await startSession(user, req);
 
     // Return safe user data (without password)
     const safeUser = safeUserSchema.parse(user);
@@ -155,6 +272,7 @@ export const login = async (req: Request, res: Response): Promise<void> => {
     res.json({
       user: safeUser,
       token,
+      refreshToken,
       message: "Login successful"
     });
 
@@ -193,7 +311,117 @@ export const getMe = async (req: Request & { user?: any }, res: Response): Promi
   }
 };
 
-// Logout (client-side token removal)
-export const logout = (req: Request, res: Response): void => {
-  res.json({ message: "Logged out successfully" });
+// Exchange a refresh token for a new token pair; the refresh token rotates on every use
+export const refresh = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = refreshTokenSchema.parse(req.body);
+    const [sessionId, secret] = refreshToken.split(".");
+
+    const session = await storage.getSession(sessionId);
+    if (!session || !session.userId || session.revokedAt || session.expiresAt <= new Date()) {
+      res.status(401).json({ message: "Invalid refresh token" });
+      return;
+    }
+
+    const presentedHash = hashRefreshSecret(secret);
+    const nextSecret = createRefreshSecret();
+    const rotated = presentedHash === session.refreshTokenHash
+      ? await storage.rotateSessionToken(session.id, presentedHash, hashRefreshSecret(nextSecret), getRefreshExpiry())
+      : undefined;
+
+    // A token that was already rotated away came back: either copy may be stolen, so end the session
+    if (!rotated) {
+      await storage.revokeSession(session.userId, session.id, "refresh_reuse");
+      console.warn(`Refresh token reuse detected for session ${session.id} of user ${session.userId}; session revoked`);
+      res.status(401).json({ message: "Refresh token reuse detected" });
+      return;
+    }
+
+    const user = await storage.getUser(session.userId);
+    if (!user || !user.isActive) {
+      res.status(401).json({ message: "Invalid refresh token" });
+      return;
+    }
+
+    await storage.touchSession(session.id, { lastSeenAt: new Date(), ...getClientDetails(req) });
+
+    res.json({
+      token: generateToken(user, session.id),
+      refreshToken: `${session.id}.${nextSecret}`
+    });
+
+  } catch (error) {
+    console.error("Refresh error:", error);
+    if (error instanceof Error && error.name === "ZodError") {
+      res.status(400).json({ message: "Validation error", errors: (error as any).errors });
+    } else {
+      res.status(500).json({ message: "Token refresh failed" });
+    }
+  }
+};
+
+// Logout by revoking the current session
+export const logout = async (req: Request & { user?: any }, res: Response): Promise<void> => {
+  try {
+    await storage.revokeSession(req.user.userId, req.user.sessionId, "logout");
+    res.json({ message: "Logged out successfully" });
+  } catch (error) {
+    console.error("Logout error:", error);
+    res.status(500).json({ message: "Logout failed" });
+  }
+};
+
+// Logout everywhere by revoking every session the user has
+export const logoutAll = async (req: Request & { user?: any }, res: Response): Promise<void> => {
+  try {
+    const revoked = await storage.revokeUserSessions(req.user.userId, "logout_all");
+    res.json({ message: "Logged out of all devices", revoked });
+  } catch (error) {
+    console.error("Logout all error:", error);
+    res.status(500).json({ message: "Logout failed" });
+  }
+};
+
+// List the devices the user is signed in on, most recently active first
+export const listSessions = async (req: Request & { user?: any }, res: Response): Promise<void> => {
+  try {
+    const sessions = await storage.getActiveSessions(req.user.userId);
+    const summaries: SessionSummary[] = sessions.map(session => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      expiresAt: session.expiresAt,
+      current: session.id === req.user.sessionId,
+    }));
+
+    // Add cache control headers
+    res.set({
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+      'Pragma': 'no-cache',
+      'Expires': '0'
+    });
+
+    res.json(summaries);
+  } catch (error) {
+    console.error("List sessions error:", error);
+    res.status(500).json({ message: "Failed to list sessions" });
+  }
+};
+
+// Sign out one device from the session list
+export const revokeSessionById = async (req: Request & { user?: any }, res: Response): Promise<void> => {
+  try {
+    const revoked = await storage.revokeSession(req.user.userId, req.params.id, "remote_logout");
+    if (!revoked) {
+      res.status(404).json({ message: "Session not found" });
+      return;
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    console.error("Revoke session error:", error);
+    res.status(500).json({ message: "Failed to revoke session" });
+  }
 };
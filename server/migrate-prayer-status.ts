@@ -0,0 +1,45 @@
+// One-off data migration: give every prayer in existing prayer_records rows an explicit status.
+// Rows where no prayer is completed or has a status were never tracked, e.g. ones created only to
+// hold voluntary prayers, so they are left without statuses rather than read as fully missed days.
+// Run after `npm run db:push` with: npm run db:migrate-prayer-status
+import { eq } from "drizzle-orm";
+import { db } from "./db";
+import { prayerRecords, type PrayerRecord } from "@shared/schema";
+import { getPrayerState } from "@shared/prayer-status";
+import { hasFardEntries } from "./statistics";
+
+async function migratePrayerStatus(): Promise<void> {
+  if (!db) {
+    console.log("DATABASE_URL is not set - nothing to migrate");
+    return;
+  }
+
+  const records: PrayerRecord[] = await db.select().from(prayerRecords);
+  let migrated = 0;
+
+  for (const record of records) {
+    const needsStatus = Object.values(record.prayers).some(prayer => !prayer.status);
+    if (!needsStatus || !hasFardEntries(record)) {
+      continue;
+    }
+
+    const prayers = Object.fromEntries(
+      Object.entries(record.prayers).map(([name, prayer]) => [name, { ...prayer, status: getPrayerState(prayer) }])
+    ) as PrayerRecord["prayers"];
+
+    await db
+      .update(prayerRecords)
+      .set({ prayers, updatedAt: new Date() })
+      .where(eq(prayerRecords.id, record.id));
+    migrated++;
+  }
+
+  console.log(`Migrated ${migrated} of ${records.length} prayer records`);
+}
+
+migratePrayerStatus()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error("Prayer status migration failed:", error);
+    process.exit(1);
+  });
@@ -1,190 +1,268 @@
 import type { Express, RequestHandler } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertPrayerRecordSchema, insertAchievementSchema, dateParamSchema, dateRangeQuerySchema, userStatsUpdateSchema, batchUpdatePrayersSchema } from "@shared/schema";
-interface DevAuth {
-  (req: any, res: any, next: any): void;
-}
-
-// Development middleware that provides a demo user when not using authentication
-const devAuth: DevAuth = (req: any, res, next) => {
-  req.user = demoUser;
-  next();
-};
-
+import { insertPrayerRecordSchema, dateParamSchema, dateRangeQuerySchema, statisticsRebuildSchema, batchUpdatePrayersSchema, prayerTimesQuerySchema, userSettingsUpdateSchema, dailyPrayersSchema, excusedPeriodSchema, excusedPeriodUpdateSchema, travelPeriodSchema, travelPeriodUpdateSchema, voluntaryPrayersSchema, savedMosqueSchema, savedMosqueUpdateSchema, qazaLedgerEntrySchema, qazaEstimateSchema, qazaPlanSchema, analyticsQuerySchema, prayerTypes, type DailyPrayers, type PrayerType, type PrayerRecord, type QazaPlan, type Achievement, type AchievementLogEntry, type AnalyticsGranularity, type AnalyticsPeriod } from "@shared/schema";
+import { getPrayerState, isPrayerPerformed, isDateInPeriods, toPrayerEntry } from "@shared/prayer-status";
+import { estimateLifetimeQaza } from "@shared/qaza-estimate";
+import { evaluateAchievements, getAchievementCatalog, reviewAchievements, type AchievementContext } from "./achievements";
+import { applyExcusedPeriods, hasFardEntries, rebuildUserStatistics, runSerializedForUser, updateUserStatistics } from "./statistics";
+import { projectQazaPlan, type QazaPlanStatus } from "@shared/qaza-plan";
+import { addDaysToDateString, calculatePrayerTimes, classifyPrayerCompletion, getCombinablePartner, getPrayerDate, isFriday, resolveCalculationParameters, resolvePrayerLocation, SHORTENED_PRAYERS } from "@shared/prayer-times";
+import { requireAdmin, setupAuth } from "./auth";
 // Import z here
 import { z } from "zod";
 
-// Helper function to calculate and update user statistics
-async function updateUserStatistics(userId: string): Promise<void> {
+// How far before the earliest saved day records are loaded to check achievements after a save:
+// a year covers every period containing that day or today, and is longer than any streak a rule
+// asks for
+const ACHIEVEMENT_LOOKBACK_DAYS = 366;
+
+// Helper function to load what achievement rules are measured against for a user. Given the days
+// just saved, only the records around them are loaded; otherwise the whole history is.
+async function getAchievementContext(userId: string, dates: string[] = []): Promise<Omit<AchievementContext, 'dates'>> {
+  const settings = await storage.getUserSettings(userId);
+  const excused = await storage.getExcusedPeriods(userId);
+  const today = getPrayerDate(new Date(), settings);
+  const range = await storage.getPrayerRecordDateRange(userId);
+  
+  const earliestDate = [today, ...dates].sort()[0];
+  const windowStart = addDaysToDateString(earliestDate, -ACHIEVEMENT_LOOKBACK_DAYS);
+  const historyStartDate = dates.length > 0 && range && range.firstDate < windowStart ? windowStart : undefined;
+  const records = historyStartDate
+    ? await storage.getPrayerRecords(userId, historyStartDate, range!.lastDate)
+    : await storage.getPrayerRecords(userId);
+
+  return {
+    records: applyExcusedPeriods(records.filter(hasFardEntries), excused, today),
+    stats: await storage.getUserStats(userId),
+    today,
+    weekStartDay: settings?.weekStartDay ?? 1,
+    hijriAdjustment: settings?.hijriAdjustment ?? 0,
+    historyStartDate,
+  };
+}
+
+// Helper function to bring achievements in line with the records after they change.
+// Achievements that no longer hold are revoked and ones no rule can re-check are marked
+// historical, each logged with the reason; then the given dates are checked for new awards.
+// Without dates every achievement is checked against the whole history.
+// Runs after updateUserStatistics so milestones see the new totals; returns only new awards.
+async function syncAchievements(userId: string, dates: string[]): Promise<{ awarded: Achievement[]; log: AchievementLogEntry[] }> {
+  const log: AchievementLogEntry[] = [];
+  const awarded: Achievement[] = [];
   try {
-    // Get all prayer records for the user
-    const allRecords = await storage.getPrayerRecords(userId);
+    const context = await getAchievementContext(userId, dates);
     
-    let totalPrayers = 0;
-    let onTimePrayers = 0;
-    let qazaPrayers = 0;
-    let currentStreak = 0;
-    let bestStreak = 0;
-    let perfectWeeks = 0;
-    
-    // Sort records by date for streak calculation
-    const sortedRecords = allRecords.sort((a, b) => b.date.localeCompare(a.date));
-    
-    // Calculate current streak (from most recent date backwards)
-    let streakBroken = false;
-    let previousDate: Date | null = null;
+    for (const { achievement, action, reason } of reviewAchievements(context, await storage.getAchievements(userId))) {
+      const applied = action === 'revoked'
+        ? await storage.deleteAchievement(userId, achievement.id)
+        : !!await storage.markAchievementHistorical(userId, achievement.id);
+      if (applied) {
+        console.log(`Achievement ${achievement.key ?? achievement.id} ${action} for user ${userId}: ${reason}`);
+        log.push(await storage.createAchievementLogEntry({ userId, achievementKey: achievement.key, title: achievement.title, action, reason }));
+      }
+    }
     
-    for (const record of sortedRecords) {
-      if (record.prayers) {
-        const currentDate = new Date(record.date);
-        const dayPrayers = Object.values(record.prayers);
-        const allCompleted = dayPrayers.every(prayer => prayer.completed);
-        
-        // Check for date gap (more than 1 day difference)
-        if (previousDate) {
-          const daysDiff = Math.floor((previousDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24));
-          if (daysDiff > 1) {
-            streakBroken = true;
+    for (const achievement of evaluateAchievements({ ...context, dates })) {
+      const created = await storage.awardAchievement({ ...achievement, userId });
+      if (created) {
+        awarded.push(created);
+      }
+    }
+  } catch (error) {
+    console.error('Failed to update achievements:', error);
+  }
+  return { awarded, log };
+}
+
+// Helper function to list the days periods cover up to the user's today, ongoing ones included
+async function getPeriodDates(userId: string, periods: Array<{ startDate: string; endDate: string | null }>): Promise<string[]> {
+  const today = getPrayerDate(new Date(), await storage.getUserSettings(userId));
+  const dates = new Set<string>();
+  periods.forEach(period => {
+    const endDate = period.endDate && period.endDate < today ? period.endDate : today;
+    for (let date = period.startDate; date <= endDate; date = addDaysToDateString(date, 1)) {
+      dates.add(date);
+    }
+  });
+  return Array.from(dates).sort();
+}
+
+// Helper function to keep the 'missed' qaza debits of the given days, or of every day when none
+// are given, in line with the fard prayers their records hold as missed. Prayers on excused days
+// are not owed. Where make-up prayers were already logged against a debit that is no longer
+// recorded, enough of it is kept that the balance never drops below zero.
+async function syncMissedQazaDebits(userId: string, dates?: string[]): Promise<void> {
+  const excused = await storage.getExcusedPeriods(userId);
+  const records = new Map<string, PrayerRecord>();
+  let syncDates = dates;
+  
+  if (syncDates) {
+    for (const date of syncDates) {
+      const record = await storage.getPrayerRecord(userId, date);
+      if (record) {
+        records.set(date, record);
+      }
+    }
+  } else {
+    const range = await storage.getPrayerRecordDateRange(userId);
+    const recorded = range ? await storage.getPrayerRecords(userId, range.firstDate, range.lastDate) : [];
+    recorded.forEach(record => records.set(record.date, record));
+    const debited = (await storage.getQazaLedgerEntries(userId))
+      .filter(entry => entry.source === 'missed')
+      .map(entry => entry.date);
+    syncDates = Array.from(new Set([...Array.from(records.keys()), ...debited])).sort();
+  }
+  
+  await storage.updateQazaLedger(userId, async ledger => {
+    for (const date of syncDates) {
+      const removed = await ledger.deleteQazaLedgerEntriesBySource(userId, 'missed', date);
+      
+      const record = records.get(date);
+      if (record && hasFardEntries(record) && !isDateInPeriods(date, excused)) {
+        for (const prayer of prayerTypes) {
+          if (getPrayerState(record.prayers[prayer]) === 'missed') {
+            await ledger.createQazaLedgerEntry({ userId, prayer, kind: 'debit', count: 1, date, source: 'missed' });
           }
         }
-        
-        if (!streakBroken && allCompleted) {
-          currentStreak++;
-          previousDate = currentDate;
-        } else if (!allCompleted) {
-          streakBroken = true;
-        }
       }
-    }
-    
-    // Calculate historical streaks to find best streak
-    let tempStreak = 0;
-    const chronologicalRecords = allRecords.sort((a, b) => a.date.localeCompare(b.date));
-    
-    for (const record of chronologicalRecords) {
-      if (record.prayers) {
-        const dayPrayers = Object.values(record.prayers);
-        
-        // Count prayers for totals
-        dayPrayers.forEach(prayer => {
-          if (prayer.completed) {
-            totalPrayers++;
-            if (prayer.onTime) {
-              onTimePrayers++;
-            }
-          } else {
-            qazaPrayers++;
+      
+      if (removed > 0) {
+        const balance = await ledger.getQazaBalance(userId);
+        for (const prayer of prayerTypes) {
+          if (balance[prayer] < 0) {
+            await ledger.createQazaLedgerEntry({ userId, prayer, kind: 'debit', count: -balance[prayer], date, source: 'missed' });
           }
-        });
-        
-        // Check streak
-        const allCompleted = dayPrayers.every(prayer => prayer.completed);
-        if (allCompleted) {
-          tempStreak++;
-          bestStreak = Math.max(bestStreak, tempStreak);
-        } else {
-          tempStreak = 0;
         }
       }
     }
-    
-    // Calculate perfect weeks
-    const weekGroups = groupRecordsByWeek(chronologicalRecords);
-    perfectWeeks = weekGroups.filter(week => week.completionRate === 100).length;
-    
-    // Ensure best streak includes current streak
-    bestStreak = Math.max(bestStreak, currentStreak);
-    
-    // Update or create user statistics
-    let userStats = await storage.getUserStats(userId);
-    
-    if (userStats) {
-      await storage.updateUserStats(userId, {
-        totalPrayers,
-        onTimePrayers,
-        qazaPrayers,
-        currentStreak,
-        bestStreak,
-        perfectWeeks,
-        lastStreakUpdate: new Date().toISOString().split('T')[0],
-        updatedAt: new Date(),
-      });
-    } else {
-      await storage.createUserStats({
-        userId,
-        totalPrayers,
-        onTimePrayers,
-        qazaPrayers,
-        currentStreak,
-        bestStreak,
-        perfectWeeks,
-        lastStreakUpdate: new Date().toISOString().split('T')[0],
-      });
-    }
-  } catch (error) {
-    console.error('Failed to update user statistics:', error);
-  }
+  });
+}
+
+// Helper function to rebuild a user's statistics from their whole history and then re-check
+// every achievement, since saves only check achievements around the days saved
+function rebuildUser(userId: string) {
+  return runSerializedForUser(userId, async () => {
+    await syncMissedQazaDebits(userId);
+    const { stats, corrected } = await rebuildUserStatistics(userId);
+    const { awarded, log } = await syncAchievements(userId, []);
+    return { stats, corrected, newAchievements: awarded, log };
+  });
 }
 
-// Helper function to group records by week
-function groupRecordsByWeek(records: any[]): Array<{ completionRate: number }> {
-  const weeks: { [key: string]: { completed: number; total: number } } = {};
+// Helper function to set prayer states on the server instead of trusting the client.
+// Prayers already completed in the stored record keep their original state; newly completed
+// prayers are timed by when the request arrived. Prayers whose window has not opened stay missed.
+// Clients may only choose 'excused' or 'missed' directly. On travel days the combined windows
+// apply, and a prayer is only recorded as combined when its pair is completed too.
+// On Fridays, users who attend Jumu'ah have Dhuhr recorded as Jumu'ah unless the client
+// says Dhuhr was prayed instead. Congregation and place tags are taken from the client for
+// completed prayers; a mosque id is only kept if it is one of the user's saved mosques.
+async function applyPrayerTimings(userId: string, date: string, prayers: DailyPrayers): Promise<DailyPrayers> {
+  const existing = await storage.getPrayerRecord(userId, date);
+  const settings = await storage.getUserSettings(userId);
+  const location = resolvePrayerLocation(settings);
+  const params = resolveCalculationParameters(settings);
+  const travelling = isDateInPeriods(date, await storage.getTravelPeriods(userId));
+  const jumuahDay = isFriday(date) && (settings?.attendsJumuah ?? true);
+  const mosqueIds = new Set((await storage.getSavedMosques(userId)).map(mosque => mosque.id));
+  const receivedAt = new Date();
   
-  records.forEach(record => {
-    const date = new Date(record.date);
-    const weekStart = new Date(date);
-    weekStart.setDate(date.getDate() - (date.getDay() === 0 ? 6 : date.getDay() - 1));
-    const weekKey = weekStart.toISOString().split('T')[0];
+  const timedPrayers = { ...prayers };
+  (Object.keys(prayers) as PrayerType[]).forEach(prayer => {
+    const stored = existing?.prayers?.[prayer];
     
-    if (!weeks[weekKey]) {
-      weeks[weekKey] = { completed: 0, total: 0 };
+    if (!prayers[prayer].completed) {
+      timedPrayers[prayer] = toPrayerEntry(prayers[prayer].status === 'excused' ? 'excused' : 'missed');
+      return;
     }
     
-    if (record.prayers) {
-      Object.values(record.prayers).forEach((prayer: any) => {
-        weeks[weekKey].total++;
-        if (prayer.completed) {
-          weeks[weekKey].completed++;
-        }
-      });
+    if (stored?.completed) {
+      timedPrayers[prayer] = { ...stored, status: getPrayerState(stored) };
+      return;
     }
+    
+    const timing = classifyPrayerCompletion(prayer, date, receivedAt, location, params, travelling);
+    const entry = toPrayerEntry(timing === 'early' ? 'missed' : timing, receivedAt.toISOString());
+    const partner = getCombinablePartner(prayer);
+    timedPrayers[prayer] = travelling && entry.completed
+      ? {
+          ...entry,
+          shortened: SHORTENED_PRAYERS.includes(prayer),
+          combined: Boolean(partner && prayers[prayer].combined && prayers[partner].completed),
+        }
+      : entry;
   });
   
-  return Object.values(weeks)
-    .filter(week => week.total >= 35) // Only count complete weeks (7 days * 5 prayers)
-    .map(week => ({
-      completionRate: week.total > 0 ? Math.round((week.completed / week.total) * 100) : 0
-    }));
+  (Object.keys(timedPrayers) as PrayerType[]).forEach(prayer => {
+    const { congregation, place, mosqueId, ...entry } = timedPrayers[prayer];
+    const tags = prayers[prayer];
+    timedPrayers[prayer] = entry.completed
+      ? {
+          ...entry,
+          ...(tags.congregation !== undefined && { congregation: tags.congregation }),
+          ...(tags.place && { place: tags.place }),
+          ...(tags.place === 'mosque' && tags.mosqueId && mosqueIds.has(tags.mosqueId) && { mosqueId: tags.mosqueId }),
+        }
+      : entry;
+  });
+  
+  const { jumuah, ...dhuhr } = timedPrayers.dhuhr;
+  timedPrayers.dhuhr = jumuahDay && dhuhr.completed
+    ? { ...dhuhr, jumuah: prayers.dhuhr.jumuah !== false }
+    : dhuhr;
+  
+  return timedPrayers;
+}
+
+// Helper function to project a qaza plan from the ledger as it stands in the user's today. The
+// balance includes the debits posted for prayers missed in the daily records.
+async function getQazaPlanStatus(userId: string, plan: QazaPlan): Promise<QazaPlanStatus> {
+  const settings = await storage.getUserSettings(userId);
+  const today = getPrayerDate(new Date(), settings);
+  const balance = await storage.getQazaBalance(userId);
+  
+  const madeUpToday: Partial<Record<PrayerType, number>> = {};
+  (await storage.getQazaLedgerEntries(userId))
+    .filter(entry => entry.kind === 'credit' && entry.date === today)
+    .forEach(entry => {
+      madeUpToday[entry.prayer] = (madeUpToday[entry.prayer] ?? 0) + entry.count;
+    });
+  
+  return { plan, progress: projectQazaPlan(balance, madeUpToday, plan.dailyQuota, today) };
 }
 
-// Create a fake user for demo purposes when not using authentication
-const demoUser = { userId: "demo-user", username: "Demo User", email: "demo@example.com" };
+// Helper function to resolve the date range and bucket size an analytics query covers.
+// Ranges default to the current week, month or year and never run past the user's today.
+async function resolveAnalyticsRange(userId: string, query: z.infer<typeof analyticsQuerySchema>): Promise<{ startDate: string; endDate: string; granularity: AnalyticsGranularity; weekStartDay: number }> {
+  const settings = await storage.getUserSettings(userId);
+  const weekStartDay = settings?.weekStartDay ?? 1;
+  const today = getPrayerDate(new Date(), settings);
+  
+  const defaultGranularity: Record<AnalyticsPeriod, AnalyticsGranularity> = { week: 'day', month: 'week', year: 'month' };
+  let periodStart: string;
+  if (query.period === 'week') {
+    const dayOfWeek = new Date(`${today}T00:00:00Z`).getUTCDay();
+    periodStart = addDaysToDateString(today, -((dayOfWeek - weekStartDay + 7) % 7));
+  } else if (query.period === 'month') {
+    periodStart = `${today.slice(0, 7)}-01`;
+  } else {
+    periodStart = `${today.slice(0, 4)}-01-01`;
+  }
+  
+  const endDate = query.endDate && query.endDate < today ? query.endDate : today;
+  const startDate = query.startDate ?? periodStart;
+  return {
+    startDate: startDate <= endDate ? startDate : endDate,
+    endDate,
+    granularity: query.granularity ?? defaultGranularity[query.period],
+    weekStartDay
+  };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  console.log("Authentication disabled - using demo user");
-
-  // Import custom auth functions - COMMENTED OUT
-  // const { register, login, getMe, authenticate } = await import("./auth");
-  // Use devAuth middleware instead
-  const isAuthenticated = devAuth;
-
-  // Custom Authentication Routes - COMMENTED OUT
-  // app.post('/api/auth/register', register);
-  // app.post('/api/auth/login', login);
-  // app.get('/api/auth/me', isAuthenticated, getMe);
-
-  // Auth routes - COMMENTED OUT
-  // app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
-  //   try {
-  //     const userId = req.user.userId;
-  //     const user = await storage.getUser(userId);
-  //     res.json(user);
-  //   } catch (error) {
-  //     console.error("Error fetching user:", error);
-  //     res.status(500).json({ message: "Failed to fetch user" });
-  //   }
-  // });
+  // Every /api route below scopes its data by req.user.userId
+  const isAuthenticated = await setupAuth(app);
 
   // Get prayer record for a specific date
   app.get("/api/prayers/:date", isAuthenticated, async (req: any, res) => {
@@ -221,6 +299,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.userId;
       const validatedData = insertPrayerRecordSchema.parse({ ...req.body, userId });
+      const validatedPrayers = dailyPrayersSchema.parse(validatedData.prayers);
       
       // Add cache control headers
       res.set({
@@ -229,16 +308,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         'Expires': '0'
       });
       
-      const record = await storage.updatePrayerRecord(
-        validatedData.userId!,
-        validatedData.date,
-        validatedData.prayers as any
-      );
-      
-      // Automatically update user statistics after saving prayer record
-      await updateUserStatistics(userId);
+      const { record, newAchievements } = await runSerializedForUser(userId, async () => {
+        // Time the prayers against the record as the previous save left it
+        const prayers = await applyPrayerTimings(userId, validatedData.date, validatedPrayers);
+        const previous = await storage.getPrayerRecord(userId, validatedData.date);
+        const record = await storage.updatePrayerRecord(validatedData.userId!, validatedData.date, prayers);
+        
+        // Automatically update user statistics and qaza debits from the day that changed
+        await updateUserStatistics(userId, new Map([[validatedData.date, previous]]));
+        await syncMissedQazaDebits(userId, [validatedData.date]);
+        const { awarded } = await syncAchievements(userId, [validatedData.date]);
+        return { record, newAchievements: awarded };
+      });
       
-      res.json(record);
+      res.json({ ...record, newAchievements });
     } catch (error: unknown) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ 
@@ -266,13 +349,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         'Expires': '0'
       });
       
-      // Perform batch update
-      const updatedRecords = await storage.batchUpdatePrayerRecords(userId, validatedData.updates);
-      
-      // Automatically update user statistics after batch update
-      await updateUserStatistics(userId);
+      const { updatedRecords, newAchievements } = await runSerializedForUser(userId, async () => {
+        // Re-derive timings for each day against the records as the previous save left them
+        const timedUpdates: Array<{ date: string; prayers: DailyPrayers }> = [];
+        for (const update of validatedData.updates) {
+          timedUpdates.push({ date: update.date, prayers: await applyPrayerTimings(userId, update.date, update.prayers) });
+        }
+        
+        // Keep the records as they were so statistics can be updated from the days that changed
+        const previous = new Map<string, PrayerRecord | undefined>();
+        for (const update of timedUpdates) {
+          previous.set(update.date, await storage.getPrayerRecord(userId, update.date));
+        }
+        
+        // Perform batch update
+        const updatedRecords = await storage.batchUpdatePrayerRecords(userId, timedUpdates);
+        
+        // Automatically update user statistics and qaza debits after batch update
+        await updateUserStatistics(userId, previous);
+        await syncMissedQazaDebits(userId, Array.from(previous.keys()));
+        const { awarded } = await syncAchievements(userId, timedUpdates.map(update => update.date));
+        return { updatedRecords, newAchievements: awarded };
+      });
       
-      res.json(updatedRecords);
+      res.json({ records: updatedRecords, newAchievements });
     } catch (error: unknown) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ 
@@ -320,6 +420,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Update voluntary prayers (Sunnah, Witr and Nafl) for a date without touching the fard prayers
+  app.put("/api/prayers/:date/voluntary", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const { date } = dateParamSchema.parse(req.params);
+      const validatedPrayers = voluntaryPrayersSchema.parse(req.body);
+      
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+      
+      // Keep the original completion time of prayers that were already completed
+      const existing = await storage.getPrayerRecord(userId, date);
+      const receivedAt = new Date().toISOString();
+      const voluntaryPrayers = Object.fromEntries(
+        Object.entries(validatedPrayers).map(([prayer, status]) => {
+          const stored = existing?.voluntaryPrayers?.[prayer as keyof typeof validatedPrayers];
+          if (!status.completed) {
+            return [prayer, { completed: false }];
+          }
+          return [prayer, { completed: true, completedAt: stored?.completed ? stored.completedAt : receivedAt }];
+        })
+      );
+      
+      const record = await storage.updateVoluntaryPrayers(userId, date, voluntaryPrayers);
+      res.json(record);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid voluntary prayer data', 
+          errors: error.errors.map(e => e.message) 
+        });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Validation error';
+      res.status(400).json({ message: errorMessage });
+    }
+  });
+
   // Get user achievements
   app.get("/api/achievements", isAuthenticated, async (req: any, res) => {
     try {
@@ -340,30 +481,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Create achievement
-  app.post("/api/achievements", isAuthenticated, async (req: any, res) => {
+  // Re-check every achievement against the current records, e.g. after history was edited
+  app.post("/api/achievements/recompute", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.userId;
-      const validatedData = insertAchievementSchema.parse({ ...req.body, userId });
-      
+
       // Add cache control headers
       res.set({
         'Cache-Control': 'no-cache, no-store, must-revalidate',
         'Pragma': 'no-cache',
         'Expires': '0'
       });
-      
-      const achievement = await storage.createAchievement(validatedData);
-      res.json(achievement);
+
+      const { awarded, log } = await runSerializedForUser(userId, async () => {
+        const records = await storage.getPrayerRecords(userId);
+        await rebuildUserStatistics(userId);
+        return syncAchievements(userId, records.map(record => record.date));
+      });
+      res.json({ newAchievements: awarded, log });
     } catch (error: unknown) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ 
-          message: 'Invalid achievement data', 
-          errors: error.errors.map(e => e.message) 
-        });
-      }
-      const errorMessage = error instanceof Error ? error.message : 'Validation error';
-      res.status(400).json({ message: errorMessage });
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+
+  // Get why achievements were revoked or marked historical
+  app.get("/api/achievements/log", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+
+      const log = await storage.getAchievementLog(userId);
+      res.json(log);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+
+  // Get the achievement catalog with the user's unlocked state and progress
+  app.get("/api/achievements/catalog", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+
+      const achievements = await storage.getAchievements(userId);
+      res.json(getAchievementCatalog(await getAchievementContext(userId), achievements));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ message: errorMessage });
     }
   });
 
@@ -392,13 +570,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update user statistics
-  app.patch("/api/stats", isAuthenticated, async (req: any, res) => {
+  // Rebuild user statistics and re-check achievements from the full history, to repair any drift
+  app.post("/api/stats/rebuild", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.userId;
 
-      // Validate request body
-      const validatedUpdates = userStatsUpdateSchema.parse(req.body);
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+      
+      res.json(await rebuildUser(userId));
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+
+  // Rebuild statistics and achievements for one user, or for every user when none is given
+  app.post("/api/admin/stats/rebuild", isAuthenticated, requireAdmin, async (req: any, res) => {
+    try {
+      const { userId } = statisticsRebuildSchema.parse(req.body ?? {});
       
       // Add cache control headers
       res.set({
@@ -407,17 +601,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         'Expires': '0'
       });
       
-      const stats = await storage.updateUserStats(userId, validatedUpdates);
-      res.json(stats);
+      if (userId && !await storage.getUser(userId)) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      const userIds = userId ? [userId] : await storage.getUserIds();
+      const results = [];
+      for (const id of userIds) {
+        const { corrected, newAchievements, log } = await rebuildUser(id);
+        results.push({ userId: id, corrected, newAchievements, log });
+      }
+      res.json({ results });
     } catch (error: unknown) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ 
-          message: 'Invalid user statistics data', 
+          message: 'Invalid rebuild request', 
           errors: error.errors.map(e => e.message) 
         });
       }
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      res.status(400).json({ message: errorMessage });
+      res.status(500).json({ message: errorMessage });
     }
   });
 
@@ -433,36 +636,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
         'Expires': '0'
       });
       
-      // Calculate yearly Qaza statistics
-      const today = new Date();
-      const currentYear = today.getFullYear();
-      const startOfYear = new Date(currentYear, 0, 1);
-      
-      // Calculate total days from start of year to today (inclusive)
-      const daysSinceStartOfYear = Math.floor((today.getTime() - startOfYear.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-      
-      // Total possible prayers for the year so far (5 prayers per day)
-      const totalPossible = daysSinceStartOfYear * 5;
+      // Calculate yearly Qaza statistics for the year the user's today falls in
+      const settings = await storage.getUserSettings(userId);
+      const today = getPrayerDate(new Date(), settings);
+      const currentYear = Number(today.slice(0, 4));
       
       // Get year dates up to today
       const yearDates: string[] = [];
-      for (let d = new Date(startOfYear); d <= today; d.setDate(d.getDate() + 1)) {
-        yearDates.push(d.toISOString().split('T')[0]);
+      for (let date = `${currentYear}-01-01`; date <= today; date = addDaysToDateString(date, 1)) {
+        yearDates.push(date);
       }
       
+      // Total prayers for the year so far (5 prayers per day), before excused prayers are removed
+      let totalPossible = yearDates.length * 5;
+      
       const startDate = yearDates[0];
       const endDate = yearDates[yearDates.length - 1];
       
       const records = await storage.getPrayerRecords(userId, startDate, endDate);
+      const excused = await storage.getExcusedPeriods(userId);
       
       let completed = 0;
       
       yearDates.forEach(date => {
         const record = records.find(r => r.date === date);
+        const dayExcused = isDateInPeriods(date, excused);
         if (record && record.prayers) {
           Object.values(record.prayers).forEach(prayer => {
-            if (prayer.completed) completed++;
+            const state = getPrayerState(prayer);
+            if (isPrayerPerformed(state)) completed++;
+            else if (state === 'excused' || dayExcused) totalPossible--; // Excused prayers are not owed
           });
+        } else if (dayExcused) {
+          totalPossible -= 5;
         }
       });
       
@@ -483,6 +689,829 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get prayer totals for a period
+  app.get("/api/analytics/summary", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const query = analyticsQuerySchema.parse(req.query);
+      const { startDate, endDate } = await resolveAnalyticsRange(userId, query);
+      
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+      
+      const summary = await storage.getAnalyticsSummary(userId, startDate, endDate);
+      res.json(summary);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid analytics query', 
+          errors: error.errors.map(e => e.message) 
+        });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+
+  // Get completed prayers over a period, bucketed by day, week or month
+  app.get("/api/analytics/trend", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const query = analyticsQuerySchema.parse(req.query);
+      const { startDate, endDate, granularity, weekStartDay } = await resolveAnalyticsRange(userId, query);
+      
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+      
+      const trend = await storage.getAnalyticsTrend(userId, startDate, endDate, granularity, weekStartDay);
+      res.json(trend);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid analytics query', 
+          errors: error.errors.map(e => e.message) 
+        });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+
+  // Get completed prayers per prayer type for a period
+  app.get("/api/analytics/by-prayer", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const query = analyticsQuerySchema.parse(req.query);
+      const { startDate, endDate } = await resolveAnalyticsRange(userId, query);
+      
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+      
+      const byPrayer = await storage.getAnalyticsByPrayer(userId, startDate, endDate);
+      res.json(byPrayer);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid analytics query', 
+          errors: error.errors.map(e => e.message) 
+        });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+
+  // Get user settings
+  app.get("/api/settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      let settings = await storage.getUserSettings(userId);
+      
+      if (!settings) {
+        // Create default settings if they don't exist
+        settings = await storage.upsertUserSettings(userId, {});
+      }
+      
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+      
+      res.json(settings);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+
+  // Update user settings
+  app.patch("/api/settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+
+      // Validate request body
+      const validatedUpdates = userSettingsUpdateSchema.parse(req.body);
+      
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+      
+      const settings = await runSerializedForUser(userId, async () => {
+        const previous = await storage.getUserSettings(userId);
+        const settings = await storage.upsertUserSettings(userId, validatedUpdates);
+        
+        // Perfect weeks are counted from the first day of the week
+        if (settings.weekStartDay !== (previous?.weekStartDay ?? 1)) {
+          await updateUserStatistics(userId);
+        }
+        return settings;
+      });
+      
+      res.json(settings);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid settings data', 
+          errors: error.errors.map(e => e.message) 
+        });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(400).json({ message: errorMessage });
+    }
+  });
+
+  // Get excused periods
+  app.get("/api/excused-periods", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+
+      const periods = await storage.getExcusedPeriods(userId);
+      res.json(periods);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+
+  // Create excused period
+  app.post("/api/excused-periods", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const validatedData = excusedPeriodSchema.parse(req.body);
+      
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+      
+      const period = await runSerializedForUser(userId, async () => {
+        const period = await storage.createExcusedPeriod({ ...validatedData, userId });
+        
+        // Excused days change streaks, perfect weeks and qaza totals
+        await updateUserStatistics(userId);
+        await syncMissedQazaDebits(userId, await getPeriodDates(userId, [period]));
+        await syncAchievements(userId, []);
+        return period;
+      });
+      
+      res.json(period);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid excused period data', 
+          errors: error.errors.map(e => e.message) 
+        });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Validation error';
+      res.status(400).json({ message: errorMessage });
+    }
+  });
+
+  // Update excused period, e.g. to end an ongoing one
+  app.patch("/api/excused-periods/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const validatedUpdates = excusedPeriodUpdateSchema.parse(req.body);
+      
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+      
+      const periods = await storage.getExcusedPeriods(userId);
+      const existing = periods.find(period => period.id === req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Excused period not found' });
+      }
+      
+      const startDate = validatedUpdates.startDate ?? existing.startDate;
+      const endDate = validatedUpdates.endDate !== undefined ? validatedUpdates.endDate : existing.endDate;
+      if (endDate && startDate > endDate) {
+        return res.status(400).json({ message: 'Start date must be before or equal to end date' });
+      }
+      
+      const period = await runSerializedForUser(userId, async () => {
+        const period = await storage.updateExcusedPeriod(userId, existing.id, validatedUpdates);
+        await updateUserStatistics(userId);
+        await syncMissedQazaDebits(userId, await getPeriodDates(userId, period ? [existing, period] : [existing]));
+        await syncAchievements(userId, []);
+        return period;
+      });
+      
+      res.json(period);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid excused period data', 
+          errors: error.errors.map(e => e.message) 
+        });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(400).json({ message: errorMessage });
+    }
+  });
+
+  // Delete excused period
+  app.delete("/api/excused-periods/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      
+      const periods = await storage.getExcusedPeriods(userId);
+      const existing = periods.find(period => period.id === req.params.id);
+      
+      const deleted = await runSerializedForUser(userId, async () => {
+        const deleted = await storage.deleteExcusedPeriod(userId, req.params.id);
+        if (deleted) {
+          await updateUserStatistics(userId);
+          await syncMissedQazaDebits(userId, await getPeriodDates(userId, existing ? [existing] : []));
+          await syncAchievements(userId, []);
+        }
+        return deleted;
+      });
+      if (!deleted) {
+        return res.status(404).json({ message: 'Excused period not found' });
+      }
+      
+      res.status(204).end();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+
+  // Get travel periods
+  app.get("/api/travel-periods", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+
+      const periods = await storage.getTravelPeriods(userId);
+      res.json(periods);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+
+  // Create travel period
+  app.post("/api/travel-periods", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const validatedData = travelPeriodSchema.parse(req.body);
+      
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+      
+      const period = await runSerializedForUser(userId, async () => {
+        const period = await storage.createTravelPeriod({ ...validatedData, userId });
+        
+        // Fridays spent travelling do not count against the Jumu'ah streak
+        await updateUserStatistics(userId);
+        await syncAchievements(userId, await getPeriodDates(userId, [period]));
+        return period;
+      });
+      
+      res.json(period);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid travel period data', 
+          errors: error.errors.map(e => e.message) 
+        });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Validation error';
+      res.status(400).json({ message: errorMessage });
+    }
+  });
+
+  // Update travel period, e.g. to end an ongoing trip
+  app.patch("/api/travel-periods/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const validatedUpdates = travelPeriodUpdateSchema.parse(req.body);
+      
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+      
+      const periods = await storage.getTravelPeriods(userId);
+      const existing = periods.find(period => period.id === req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Travel period not found' });
+      }
+      
+      const startDate = validatedUpdates.startDate ?? existing.startDate;
+      const endDate = validatedUpdates.endDate !== undefined ? validatedUpdates.endDate : existing.endDate;
+      if (endDate && startDate > endDate) {
+        return res.status(400).json({ message: 'Start date must be before or equal to end date' });
+      }
+      
+      const period = await runSerializedForUser(userId, async () => {
+        const period = await storage.updateTravelPeriod(userId, existing.id, validatedUpdates);
+        await updateUserStatistics(userId);
+        await syncAchievements(userId, await getPeriodDates(userId, period ? [existing, period] : [existing]));
+        return period;
+      });
+      res.json(period);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid travel period data', 
+          errors: error.errors.map(e => e.message) 
+        });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(400).json({ message: errorMessage });
+    }
+  });
+
+  // Delete travel period
+  app.delete("/api/travel-periods/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      
+      const deleted = await runSerializedForUser(userId, async () => {
+        const existing = (await storage.getTravelPeriods(userId)).find(period => period.id === req.params.id);
+        const deleted = await storage.deleteTravelPeriod(userId, req.params.id);
+        if (deleted) {
+          await updateUserStatistics(userId);
+          await syncAchievements(userId, await getPeriodDates(userId, existing ? [existing] : []));
+        }
+        return deleted;
+      });
+      if (!deleted) {
+        return res.status(404).json({ message: 'Travel period not found' });
+      }
+      
+      res.status(204).end();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+
+  // Get qaza ledger entries, newest first
+  app.get("/api/qaza/entries", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+
+      const entries = await storage.getQazaLedgerEntries(userId);
+      res.json(entries);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+
+  // Get the qaza balance per prayer type
+  app.get("/api/qaza/balance", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+
+      const balance = await storage.getQazaBalance(userId);
+      res.json(balance);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+
+  // Add a debit (prayers owed) or a credit (make-up prayers prayed) to the qaza ledger
+  app.post("/api/qaza/entries", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const validatedData = qazaLedgerEntrySchema.parse(req.body);
+      
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+      
+      if (validatedData.kind === 'credit') {
+        const settings = await storage.getUserSettings(userId);
+        const today = getPrayerDate(new Date(), settings);
+        if (validatedData.date > today) {
+          return res.status(400).json({ message: 'Make-up prayers cannot be logged for a future date' });
+        }
+      }
+      
+      const result = await storage.updateQazaLedger(userId, async ledger => {
+        // Credits can only pay off prayers that are owed
+        if (validatedData.kind === 'credit') {
+          const balance = await ledger.getQazaBalance(userId);
+          if (validatedData.count > balance[validatedData.prayer]) {
+            return { message: `Only ${balance[validatedData.prayer]} ${validatedData.prayer} prayer(s) are owed` };
+          }
+        }
+        return { entry: await ledger.createQazaLedgerEntry({ ...validatedData, userId }) };
+      });
+      if ('message' in result) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json(result.entry);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid qaza ledger entry', 
+          errors: error.errors.map(e => e.message) 
+        });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Validation error';
+      res.status(400).json({ message: errorMessage });
+    }
+  });
+
+  // Delete a qaza ledger entry, e.g. one added by mistake
+  app.delete("/api/qaza/entries/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      
+      const entries = await storage.getQazaLedgerEntries(userId);
+      const existing = entries.find(entry => entry.id === req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Qaza ledger entry not found' });
+      }
+      
+      // Estimate debits are replaced by editing the estimate, not removed one by one
+      if (existing.source === 'estimate') {
+        return res.status(400).json({ message: 'Edit the lifetime estimate to change these prayers' });
+      }
+      
+      // Missed debits follow the daily records
+      if (existing.source === 'missed') {
+        return res.status(400).json({ message: 'Mark the prayer as prayed on its day to remove this debt' });
+      }
+      
+      const result = await storage.updateQazaLedger(userId, async ledger => {
+        // Removing a debit must not leave more make-ups than prayers owed
+        if (existing.kind === 'debit') {
+          const balance = await ledger.getQazaBalance(userId);
+          if (balance[existing.prayer] - existing.count < 0) {
+            return { message: 'Delete the make-up prayers for this debt first' };
+          }
+        }
+        return { deleted: await ledger.deleteQazaLedgerEntry(userId, existing.id) };
+      });
+      if ('message' in result) {
+        return res.status(400).json({ message: result.message });
+      }
+      if (!result.deleted) {
+        return res.status(404).json({ message: 'Qaza ledger entry not found' });
+      }
+      res.status(204).end();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+
+  // Get the lifetime qaza estimate and its assumptions
+  app.get("/api/qaza/estimate", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+
+      const estimate = await storage.getQazaEstimate(userId);
+      res.json(estimate || null);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+
+  // Save the lifetime qaza estimate and replace the debits it seeded in the ledger
+  app.put("/api/qaza/estimate", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const assumptions = qazaEstimateSchema.parse(req.body);
+      
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+      
+      const settings = await storage.getUserSettings(userId);
+      const today = getPrayerDate(new Date(), settings);
+      if (assumptions.trackingStartDate > today) {
+        return res.status(400).json({ message: 'Tracking start date cannot be in the future' });
+      }
+      
+      const { prayersOwed } = estimateLifetimeQaza(assumptions);
+      const result = await storage.updateQazaLedger(userId, async ledger => {
+        // Make-up prayers already logged must still be covered by the new estimate
+        const previousOwed = (await ledger.getQazaEstimate(userId))?.prayersOwed ?? 0;
+        const balance = await ledger.getQazaBalance(userId);
+        const uncovered = prayerTypes.find(prayer => balance[prayer] - previousOwed + prayersOwed < 0);
+        if (uncovered) {
+          return { message: `The estimate is lower than the ${uncovered} make-up prayers already logged` };
+        }
+        
+        const estimate = await ledger.upsertQazaEstimate({ ...assumptions, userId, prayersOwed });
+        await ledger.deleteQazaLedgerEntriesBySource(userId, 'estimate');
+        if (prayersOwed > 0) {
+          for (const prayer of prayerTypes) {
+            await ledger.createQazaLedgerEntry({
+              userId,
+              prayer,
+              kind: 'debit',
+              count: prayersOwed,
+              date: today,
+              note: 'Lifetime estimate',
+              source: 'estimate',
+            });
+          }
+        }
+        return { estimate, balance: await ledger.getQazaBalance(userId) };
+      });
+      if ('message' in result) {
+        return res.status(400).json({ message: result.message });
+      }
+      
+      res.json(result);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid qaza estimate', 
+          errors: error.errors.map(e => e.message) 
+        });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Validation error';
+      res.status(400).json({ message: errorMessage });
+    }
+  });
+
+  // Get the qaza repayment plan with today's progress and the projected finish date
+  app.get("/api/qaza/plan", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+
+      const plan = await storage.getQazaPlan(userId);
+      res.json(plan ? await getQazaPlanStatus(userId, plan) : null);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+
+  // Create or update the qaza repayment plan
+  app.put("/api/qaza/plan", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const { dailyQuota } = qazaPlanSchema.parse(req.body);
+      
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+      
+      // Changing the quota keeps the plan's original start date
+      const existing = await storage.getQazaPlan(userId);
+      const settings = await storage.getUserSettings(userId);
+      const startDate = existing?.startDate ?? getPrayerDate(new Date(), settings);
+      
+      const plan = await runSerializedForUser(userId, async () => {
+        // Start a new plan from every prayer the daily records hold as missed, including days
+        // saved before missed prayers were posted to the ledger
+        if (!existing) {
+          await syncMissedQazaDebits(userId);
+        }
+        return storage.upsertQazaPlan({ userId, dailyQuota, startDate });
+      });
+      res.json(await getQazaPlanStatus(userId, plan));
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid qaza plan', 
+          errors: error.errors.map(e => e.message) 
+        });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Validation error';
+      res.status(400).json({ message: errorMessage });
+    }
+  });
+
+  // Stop the qaza repayment plan; the ledger is left as it is
+  app.delete("/api/qaza/plan", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      
+      const deleted = await storage.deleteQazaPlan(userId);
+      if (!deleted) {
+        return res.status(404).json({ message: 'Qaza plan not found' });
+      }
+      
+      res.status(204).end();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+
+  // Get saved mosques
+  app.get("/api/mosques", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+
+      const mosques = await storage.getSavedMosques(userId);
+      res.json(mosques);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+
+  // Save a mosque
+  app.post("/api/mosques", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const validatedData = savedMosqueSchema.parse(req.body);
+      
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+      
+      const mosque = await storage.createSavedMosque({ ...validatedData, userId });
+      res.json(mosque);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid mosque data', 
+          errors: error.errors.map(e => e.message) 
+        });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Validation error';
+      res.status(400).json({ message: errorMessage });
+    }
+  });
+
+  // Rename a saved mosque or change its address
+  app.patch("/api/mosques/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const validatedUpdates = savedMosqueUpdateSchema.parse(req.body);
+      
+      // Add cache control headers
+      res.set({
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0'
+      });
+      
+      const mosque = await storage.updateSavedMosque(userId, req.params.id, validatedUpdates);
+      if (!mosque) {
+        return res.status(404).json({ message: 'Mosque not found' });
+      }
+      res.json(mosque);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid mosque data', 
+          errors: error.errors.map(e => e.message) 
+        });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(400).json({ message: errorMessage });
+    }
+  });
+
+  // Delete a saved mosque; prayers already tagged with it keep the mosque place
+  app.delete("/api/mosques/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      
+      const deleted = await storage.deleteSavedMosque(userId, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: 'Mosque not found' });
+      }
+      
+      res.status(204).end();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+
+  // Get computed prayer times for a date and location
+  app.get("/api/prayer-times", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.userId;
+      const validatedQuery = prayerTimesQuerySchema.parse(req.query);
+      const settings = await storage.getUserSettings(userId);
+      
+      // Query parameters override the user's saved location
+      const savedLocation = resolvePrayerLocation(settings);
+      const location = {
+        latitude: validatedQuery.latitude ?? savedLocation.latitude,
+        longitude: validatedQuery.longitude ?? savedLocation.longitude,
+        timezone: validatedQuery.timezone ?? savedLocation.timezone,
+      };
+      const date = validatedQuery.date ?? getPrayerDate(new Date(), { ...settings, ...location });
+      
+      const times = calculatePrayerTimes(date, location, resolveCalculationParameters(settings));
+      
+      res.json({
+        date,
+        location,
+        times: Object.fromEntries(
+          Object.entries(times).map(([key, time]) => [key, isNaN(time.getTime()) ? null : time.toISOString()])
+        ),
+      });
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid query parameters', 
+          errors: error.errors.map(e => e.message) 
+        });
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      res.status(500).json({ message: errorMessage });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,132 @@
+// Checks that statistics updated from the days that changed always match a rebuild from full
+// history, over random sequences of saves against the in-memory storage. Run with `npm test`,
+// which clears DATABASE_URL so no database is touched.
+
+import { after, before, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { prayerTypes, type DailyPrayers, type PrayerRecord } from "@shared/schema";
+import { prayerStates, toPrayerEntry } from "@shared/prayer-status";
+import { addDaysToDateString, getPrayerDate, isFriday } from "@shared/prayer-times";
+import { storage } from "./storage";
+import { rebuildUserStatistics, runSerializedForUser, updateUserStatistics } from "./statistics";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SEQUENCES = 25;
+const STEPS = 40;
+
+// Small seeded generator so a failing sequence can be replayed from its seed
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: () => number, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function randomDay(random: () => number, date: string): DailyPrayers {
+  const prayers = Object.fromEntries(prayerTypes.map(prayer => [prayer, toPrayerEntry(pick(random, prayerStates))])) as DailyPrayers;
+  if (isFriday(date) && prayers.dhuhr.completed && random() < 0.7) {
+    prayers.dhuhr = { ...prayers.dhuhr, jumuah: true };
+  }
+  return prayers;
+}
+
+// Saves days the way POST /api/prayers and /api/prayers/batch do
+async function saveDays(userId: string, updates: Array<{ date: string; prayers: DailyPrayers }>): Promise<void> {
+  const previous = new Map<string, PrayerRecord | undefined>();
+  for (const update of updates) {
+    previous.set(update.date, await storage.getPrayerRecord(userId, update.date));
+  }
+  await storage.batchUpdatePrayerRecords(userId, updates);
+  await updateUserStatistics(userId, previous);
+}
+
+async function assertMatchesRebuild(userId: string, message: string): Promise<void> {
+  const { corrected } = await rebuildUserStatistics(userId);
+  assert.deepEqual(corrected, [], message);
+}
+
+before(() => {
+  mock.timers.enable({ apis: ['Date'], now: new Date('2026-03-04T12:00:00Z') });
+  // Period and settings changes rebuild and log what they corrected, which is expected here
+  mock.method(console, 'log', () => {});
+});
+
+after(() => {
+  mock.timers.reset();
+});
+
+test("incremental statistics match a rebuild after random saves", async () => {
+  for (let seed = 1; seed <= SEQUENCES; seed++) {
+    const random = createRandom(seed);
+    const userId = `statistics-test-${seed}`;
+    const steps: string[] = [];
+
+    for (let step = 0; step < STEPS; step++) {
+      const today = getPrayerDate(new Date(), await storage.getUserSettings(userId));
+      const randomDate = () => addDaysToDateString(today, -Math.floor(random() * 45));
+      const roll = random();
+
+      if (roll < 0.55) {
+        const date = randomDate();
+        steps.push(`save ${date}`);
+        await saveDays(userId, [{ date, prayers: randomDay(random, date) }]);
+      } else if (roll < 0.7) {
+        const dates = Array.from(new Set(Array.from({ length: 2 + Math.floor(random() * 4) }, randomDate)));
+        steps.push(`batch ${dates.join(' ')}`);
+        await saveDays(userId, dates.map(date => ({ date, prayers: randomDay(random, date) })));
+      } else if (roll < 0.8) {
+        // Statistics are only updated on the next save after the day rolls over
+        steps.push('next day');
+        mock.timers.setTime(Date.now() + DAY_MS);
+        continue;
+      } else if (roll < 0.86) {
+        const date = randomDate();
+        steps.push(`voluntary ${date}`);
+        await storage.updateVoluntaryPrayers(userId, date, { witr: { completed: true } });
+        continue;
+      } else if (roll < 0.91) {
+        const startDate = randomDate();
+        const endDate = random() < 0.3 ? null : addDaysToDateString(startDate, Math.floor(random() * 7));
+        steps.push(`excused ${startDate}..${endDate ?? ''}`);
+        await storage.createExcusedPeriod({ userId, startDate, endDate });
+        await updateUserStatistics(userId);
+      } else if (roll < 0.96) {
+        const startDate = randomDate();
+        const endDate = addDaysToDateString(startDate, Math.floor(random() * 14));
+        steps.push(`travel ${startDate}..${endDate}`);
+        await storage.createTravelPeriod({ userId, startDate, endDate });
+        await updateUserStatistics(userId);
+      } else {
+        const weekStartDay = Math.floor(random() * 7);
+        steps.push(`week starts ${weekStartDay}`);
+        await storage.upsertUserSettings(userId, { weekStartDay });
+        await updateUserStatistics(userId);
+      }
+
+      await assertMatchesRebuild(userId, `seed ${seed}: ${steps.join(', ')}`);
+    }
+  }
+});
+
+test("overlapping saves for one user are applied one at a time", async () => {
+  const random = createRandom(1000);
+  const userId = 'statistics-test-overlap';
+  const today = getPrayerDate(new Date(), await storage.getUserSettings(userId));
+
+  // Start from stored statistics so the saves update them rather than each rebuilding
+  await saveDays(userId, [{ date: today, prayers: randomDay(random, today) }]);
+  await Promise.all(Array.from({ length: 30 }, () => {
+    const date = addDaysToDateString(today, -Math.floor(random() * 20));
+    const prayers = randomDay(random, date);
+    return runSerializedForUser(userId, () => saveDays(userId, [{ date, prayers }]));
+  }));
+
+  await assertMatchesRebuild(userId, 'overlapping saves');
+});
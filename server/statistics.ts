@@ -0,0 +1,511 @@
+// User statistics kept in user_stats: prayer totals by state, the daily and Jumu'ah streaks and
+// perfect weeks. A rebuild folds the user's whole history. Saves instead update the stored row
+// from the days that changed, re-reading only the weeks and streak runs those days fall in.
+// Both paths read days through the same helpers, so they arrive at the same statistics.
+
+import type { ExcusedPeriod, PrayerRecord, TravelPeriod, UserStats } from "@shared/schema";
+import { getDayStreakState, getPrayerState, isDateInPeriods, isPrayerPerformed, toPrayerEntry } from "@shared/prayer-status";
+import { addDaysToDateString, getPrayerDate, isFriday } from "@shared/prayer-times";
+import { storage } from "./storage";
+
+type DayPrayers = PrayerRecord['prayers'];
+
+// Reads a day as statistics count it, or undefined when the day was not tracked
+type DayReader = (date: string) => Promise<DayPrayers | undefined>;
+
+// How a day, or a Friday for Jumu'ah, bears on a streak
+type StreakState = 'kept' | 'broken' | 'skipped';
+type StreakReader = (date: string) => Promise<StreakState>;
+
+type PrayerCounts = {
+  totalPrayers: number;
+  onTimePrayers: number;
+  latePrayers: number;
+  madeUpPrayers: number;
+  excusedPrayers: number;
+  qazaPrayers: number;
+};
+
+type Statistics = PrayerCounts & {
+  currentStreak: number;
+  bestStreak: number;
+  jumuahStreak: number;
+  bestJumuahStreak: number;
+  perfectWeeks: number;
+};
+
+interface StatisticsContext {
+  excused: ExcusedPeriod[];
+  travel: TravelPeriod[];
+  today: string; // YYYY-MM-DD in the user's time zone
+  weekStartDay: number;
+  firstDate?: string; // Earliest day that can hold a record or an excused day
+  lastDate?: string;
+}
+
+const statisticFields = ['totalPrayers', 'onTimePrayers', 'latePrayers', 'madeUpPrayers', 'excusedPrayers', 'qazaPrayers', 'currentStreak', 'bestStreak', 'jumuahStreak', 'bestJumuahStreak', 'perfectWeeks'] as const;
+
+const excusedDay: DayPrayers = {
+  fajr: toPrayerEntry('excused'),
+  dhuhr: toPrayerEntry('excused'),
+  asr: toPrayerEntry('excused'),
+  maghrib: toPrayerEntry('excused'),
+  isha: toPrayerEntry('excused'),
+};
+
+// The tail of each user's queue of record and statistics changes
+const pendingChanges = new Map<string, Promise<unknown>>();
+
+/**
+ * Run a change to a user's records and statistics once the user's earlier changes
+ * have finished. Updates read the stored statistics and write them back, so two
+ * saves in flight at once would each add their day to the same old totals.
+ */
+export function runSerializedForUser<T>(userId: string, change: () => Promise<T>): Promise<T> {
+  const result = (pendingChanges.get(userId) ?? Promise.resolve()).then(change);
+  const settled = result.catch(() => undefined);
+  pendingChanges.set(userId, settled);
+  settled.then(() => {
+    if (pendingChanges.get(userId) === settled) {
+      pendingChanges.delete(userId);
+    }
+  });
+  return result;
+}
+
+// Helper function to tell real fard records from ones created only to hold voluntary prayers.
+// Those have no prayer states, so skipping them counts the day the same as one with no record.
+export function hasFardEntries(record: PrayerRecord): boolean {
+  return Object.values(record.prayers).some(prayer => prayer.completed || prayer.status);
+}
+
+// Helper function to excuse the prayers of a day inside an excused period that were not performed
+function excuseUnperformedPrayers(prayers: DayPrayers): DayPrayers {
+  return Object.fromEntries(
+    Object.entries(prayers).map(([name, prayer]) => [
+      name,
+      isPrayerPerformed(getPrayerState(prayer)) ? prayer : toPrayerEntry('excused'),
+    ])
+  ) as DayPrayers;
+}
+
+// Helper function to treat days inside excused periods as excused. Prayers not performed on those
+// days become excused, and excused days without a record get an all-excused one so that streaks
+// and weeks skip over them instead of reading them as gaps.
+export function applyExcusedPeriods(records: PrayerRecord[], periods: ExcusedPeriod[], today: string): Array<Pick<PrayerRecord, 'date' | 'prayers'>> {
+  if (periods.length === 0) {
+    return records;
+  }
+
+  const result: Array<Pick<PrayerRecord, 'date' | 'prayers'>> = records.map(record => {
+    if (!record.prayers || !isDateInPeriods(record.date, periods)) {
+      return record;
+    }
+    return { ...record, prayers: excuseUnperformedPrayers(record.prayers) };
+  });
+
+  const recordedDates = new Set(records.map(record => record.date));
+  periods.forEach(period => {
+    // Ongoing periods only cover days up to today
+    const lastDate = period.endDate && period.endDate < today ? period.endDate : today;
+    for (let date = period.startDate; date <= lastDate; date = addDaysToDateString(date, 1)) {
+      if (!recordedDates.has(date)) {
+        recordedDates.add(date);
+        result.push({ date, prayers: excusedDay });
+      }
+    }
+  });
+
+  return result;
+}
+
+// Helper function to read one day the way applyExcusedPeriods reads a whole history
+function toStatisticsDay(record: PrayerRecord | undefined, date: string, excused: ExcusedPeriod[], today: string): DayPrayers | undefined {
+  const isExcusedDay = isDateInPeriods(date, excused);
+  if (record && hasFardEntries(record)) {
+    return isExcusedDay ? excuseUnperformedPrayers(record.prayers) : record.prayers;
+  }
+  return isExcusedDay && date <= today ? excusedDay : undefined;
+}
+
+// Helper function to get the first day of the week containing a date
+function getWeekStartDate(date: string, weekStartDay: number): string {
+  const dayOfWeek = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDaysToDateString(date, -((dayOfWeek - weekStartDay + 7) % 7));
+}
+
+// Helper function to get the Friday on or before a date
+function getFridayOnOrBefore(date: string): string {
+  let friday = date;
+  while (!isFriday(friday)) {
+    friday = addDaysToDateString(friday, -1);
+  }
+  return friday;
+}
+
+// Helper function to load what statistics are measured against. The bounds cover every record and
+// every excused day up to the later of today and the day the statistics were last updated.
+async function getStatisticsContext(userId: string, lastUpdated?: string | null): Promise<StatisticsContext> {
+  const settings = await storage.getUserSettings(userId);
+  const excused = await storage.getExcusedPeriods(userId);
+  const travel = await storage.getTravelPeriods(userId);
+  const today = getPrayerDate(new Date(), settings);
+  const range = await storage.getPrayerRecordDateRange(userId);
+
+  const latestToday = lastUpdated && lastUpdated > today ? lastUpdated : today;
+  const dates = range ? [range.firstDate, range.lastDate] : [];
+  excused.forEach(period => {
+    const lastDate = period.endDate && period.endDate < latestToday ? period.endDate : latestToday;
+    if (period.startDate <= lastDate) {
+      dates.push(period.startDate, lastDate);
+    }
+  });
+  dates.sort();
+
+  return {
+    excused,
+    travel,
+    today,
+    weekStartDay: settings?.weekStartDay ?? 1,
+    firstDate: dates[0],
+    lastDate: dates[dates.length - 1],
+  };
+}
+
+// Helper function to read records a month at a time as walks move away from the changed days,
+// so a save only loads the stretch of history it touches
+function createRecordLoader(userId: string): (date: string) => Promise<PrayerRecord | undefined> {
+  const months = new Map<string, Promise<Map<string, PrayerRecord>>>();
+  return async date => {
+    const month = date.slice(0, 7);
+    let records = months.get(month);
+    if (!records) {
+      records = storage.getPrayerRecords(userId, `${month}-01`, `${month}-31`)
+        .then(loaded => new Map(loaded.map(record => [record.date, record])));
+      months.set(month, records);
+    }
+    return (await records).get(date);
+  };
+}
+
+// Helper function to read days for the daily streaks. Untracked days end the current streak but
+// only pause the best one, which has always spanned gaps in tracking.
+function toDailyStreakReader(readDay: DayReader, untracked: StreakState): StreakReader {
+  return async date => {
+    const day = await readDay(date);
+    if (!day) {
+      return untracked;
+    }
+    const state = getDayStreakState(day);
+    return state === 'excused' ? 'skipped' : state;
+  };
+}
+
+// Helper function to read Fridays for the Jumu'ah streaks. Fridays spent travelling or excused are
+// not owed and are skipped, as are Fridays after today and today until Dhuhr has been logged.
+function toJumuahStreakReader(readDay: DayReader, travel: TravelPeriod[], today: string): StreakReader {
+  return async friday => {
+    if (friday > today) {
+      return 'skipped';
+    }
+    const dhuhr = (await readDay(friday))?.dhuhr;
+    if (dhuhr?.completed && dhuhr.jumuah) {
+      return 'kept';
+    }
+    if (friday === today || isDateInPeriods(friday, travel) || (dhuhr && getPrayerState(dhuhr) === 'excused')) {
+      return 'skipped';
+    }
+    return 'broken';
+  };
+}
+
+// Helper function to count one day's prayers by state
+function countPrayers(day: DayPrayers | undefined): PrayerCounts {
+  const counts: PrayerCounts = { totalPrayers: 0, onTimePrayers: 0, latePrayers: 0, madeUpPrayers: 0, excusedPrayers: 0, qazaPrayers: 0 };
+  if (!day) {
+    return counts;
+  }
+
+  Object.values(day).forEach(prayer => {
+    const state = getPrayerState(prayer);
+    if (isPrayerPerformed(state)) {
+      counts.totalPrayers++;
+    }
+    if (state === 'on-time') {
+      counts.onTimePrayers++;
+    } else if (state === 'late') {
+      counts.latePrayers++;
+    } else if (state === 'made-up') {
+      counts.madeUpPrayers++;
+    } else if (state === 'excused') {
+      counts.excusedPrayers++;
+    } else {
+      counts.qazaPrayers++;
+    }
+  });
+  return counts;
+}
+
+// Helper function to check a week was perfect: all seven days tracked and every prayer owed that
+// week prayed on its day. Made-up prayers were not prayed that week; a fully excused week owes nothing.
+async function isPerfectWeek(readDay: DayReader, weekStart: string): Promise<boolean> {
+  let completed = 0;
+  let excused = 0;
+  for (let offset = 0; offset < 7; offset++) {
+    const day = await readDay(addDaysToDateString(weekStart, offset));
+    if (!day) {
+      return false;
+    }
+    Object.values(day).forEach(prayer => {
+      const state = getPrayerState(prayer);
+      if (state === 'excused') {
+        excused++;
+      } else if (state === 'on-time' || state === 'late') {
+        completed++;
+      }
+    });
+  }
+  const required = 35 - excused;
+  return required > 0 && completed === required;
+}
+
+// Helper function to count the kept days of the streak running back from a date
+async function countStreakBack(readStreak: StreakReader, fromDate: string, firstDate: string, step: number): Promise<number> {
+  let streak = 0;
+  for (let date = fromDate; date >= firstDate; date = addDaysToDateString(date, -step)) {
+    const state = await readStreak(date);
+    if (state === 'broken') {
+      break;
+    }
+    if (state === 'kept') {
+      streak++;
+    }
+  }
+  return streak;
+}
+
+// Helper function to find the longest streak between two dates
+async function getLongestStreak(readStreak: StreakReader, startDate: string, endDate: string, step: number): Promise<number> {
+  let longest = 0;
+  let streak = 0;
+  for (let date = startDate; date <= endDate; date = addDaysToDateString(date, step)) {
+    const state = await readStreak(date);
+    if (state === 'kept') {
+      streak++;
+      longest = Math.max(longest, streak);
+    } else if (state === 'broken') {
+      streak = 0;
+    }
+  }
+  return longest;
+}
+
+// Helper function to walk from a date until the first day that breaks a streak, or just past the
+// bound of history
+async function findStreakBreak(readStreak: StreakReader, fromDate: string, step: number, bound: string): Promise<string> {
+  let date = fromDate;
+  while (step > 0 ? date <= bound : date >= bound) {
+    if (await readStreak(date) === 'broken') {
+      break;
+    }
+    date = addDaysToDateString(date, step);
+  }
+  return date;
+}
+
+// Helper function to bring a best streak up to date after days from fromDate to toDate changed.
+// Only the streaks running through those days are re-read. The whole history is read again only
+// when the streak that held the best may have been cut short.
+async function updateBestStreak(best: number, before: StreakReader, after: StreakReader, fromDate: string, toDate: string, step: number, firstDate: string, lastDate: string): Promise<number> {
+  const startDate = await findStreakBreak(after, addDaysToDateString(fromDate, -step), -step, firstDate);
+  const endDate = await findStreakBreak(after, addDaysToDateString(toDate, step), step, lastDate);
+  const longest = await getLongestStreak(after, startDate, endDate, step);
+  if (longest >= best) {
+    return longest;
+  }
+  if (await getLongestStreak(before, startDate, endDate, step) < best) {
+    return best;
+  }
+  return getLongestStreak(after, firstDate, lastDate, step);
+}
+
+// Helper function to find the current daily streak, which runs back from the latest tracked day
+async function getCurrentStreak(readDay: DayReader, context: StatisticsContext): Promise<number> {
+  const { firstDate, lastDate } = context;
+  if (!firstDate || !lastDate) {
+    return 0;
+  }
+  let latestDate = lastDate;
+  while (latestDate >= firstDate && !await readDay(latestDate)) {
+    latestDate = addDaysToDateString(latestDate, -1);
+  }
+  return countStreakBack(toDailyStreakReader(readDay, 'broken'), latestDate, firstDate, 1);
+}
+
+// Helper function to measure statistics over the user's whole history
+async function measureHistory(readDay: DayReader, context: StatisticsContext): Promise<Statistics> {
+  const { firstDate, lastDate, today, travel, weekStartDay } = context;
+  const statistics: Statistics = {
+    ...countPrayers(undefined),
+    currentStreak: 0,
+    bestStreak: 0,
+    jumuahStreak: 0,
+    bestJumuahStreak: 0,
+    perfectWeeks: 0,
+  };
+  if (!firstDate || !lastDate) {
+    return statistics;
+  }
+
+  for (let date = firstDate; date <= lastDate; date = addDaysToDateString(date, 1)) {
+    const counts = countPrayers(await readDay(date));
+    (Object.keys(counts) as Array<keyof PrayerCounts>).forEach(field => {
+      statistics[field] += counts[field];
+    });
+  }
+  for (let weekStart = getWeekStartDate(firstDate, weekStartDay); weekStart <= lastDate; weekStart = addDaysToDateString(weekStart, 7)) {
+    if (await isPerfectWeek(readDay, weekStart)) {
+      statistics.perfectWeeks++;
+    }
+  }
+
+  statistics.currentStreak = await getCurrentStreak(readDay, context);
+  statistics.bestStreak = Math.max(
+    await getLongestStreak(toDailyStreakReader(readDay, 'skipped'), firstDate, lastDate, 1),
+    statistics.currentStreak
+  );
+
+  const readJumuah = toJumuahStreakReader(readDay, travel, today);
+  const lastFriday = getFridayOnOrBefore(today);
+  statistics.jumuahStreak = await countStreakBack(readJumuah, lastFriday, firstDate, 7);
+  statistics.bestJumuahStreak = await getLongestStreak(readJumuah, getFridayOnOrBefore(firstDate), lastFriday, 7);
+
+  return statistics;
+}
+
+// Helper function to store measured statistics, returning the row as saved
+async function saveUserStatistics(userId: string, statistics: Statistics, today: string): Promise<UserStats> {
+  const existing = await storage.getUserStats(userId);
+  if (existing) {
+    return storage.updateUserStats(userId, { ...statistics, lastStreakUpdate: today, updatedAt: new Date() });
+  }
+  return storage.createUserStats({ userId, ...statistics, lastStreakUpdate: today });
+}
+
+/**
+ * Rebuild a user's statistics from their whole history, for repair. Returns the
+ * rebuilt row and the fields that differed from what was stored.
+ */
+export async function rebuildUserStatistics(userId: string): Promise<{ stats: UserStats; corrected: string[] }> {
+  const previous = await storage.getUserStats(userId);
+  const context = await getStatisticsContext(userId);
+  const recordsByDate = new Map((await storage.getPrayerRecords(userId)).map(record => [record.date, record]));
+  const readDay: DayReader = async date => toStatisticsDay(recordsByDate.get(date), date, context.excused, context.today);
+
+  const stats = await saveUserStatistics(userId, await measureHistory(readDay, context), context.today);
+  const corrected = previous ? statisticFields.filter(field => (previous[field] ?? 0) !== stats[field]) : [];
+  if (corrected.length > 0) {
+    console.log(`Rebuilt statistics for user ${userId} corrected ${corrected.join(', ')}`);
+  }
+  return { stats, corrected };
+}
+
+/**
+ * Update a user's statistics after records were saved, given each saved day's
+ * record as it was before the save. Days that became excused or stopped being
+ * today since the last update are re-read as well. Without the previous records,
+ * or without statistics to update, the statistics are rebuilt from full history.
+ */
+export async function updateUserStatistics(userId: string, previous?: Map<string, PrayerRecord | undefined>): Promise<void> {
+  try {
+    const stats = await storage.getUserStats(userId);
+    const lastUpdated = stats?.lastStreakUpdate;
+    if (!previous || !stats || !lastUpdated) {
+      await rebuildUserStatistics(userId);
+      return;
+    }
+
+    const context = await getStatisticsContext(userId, lastUpdated);
+    const { excused, travel, today, weekStartDay, firstDate, lastDate } = context;
+    const readRecord = createRecordLoader(userId);
+    const readAfter: DayReader = async date => toStatisticsDay(await readRecord(date), date, excused, today);
+    const readBefore: DayReader = async date => toStatisticsDay(previous.has(date) ? previous.get(date) : await readRecord(date), date, excused, lastUpdated);
+
+    // Days whose reading changed: the saved days, and every day from the last update to today
+    const changedDates = new Set(previous.keys());
+    const [fromToday, toToday] = [lastUpdated, today].sort();
+    if (fromToday !== toToday) {
+      for (let date = fromToday; date <= toToday; date = addDaysToDateString(date, 1)) {
+        changedDates.add(date);
+      }
+    }
+    const dates = Array.from(changedDates).sort();
+    if (dates.length === 0 || !firstDate || !lastDate) {
+      return;
+    }
+
+    const statistics: Statistics = {
+      totalPrayers: stats.totalPrayers ?? 0,
+      onTimePrayers: stats.onTimePrayers ?? 0,
+      latePrayers: stats.latePrayers ?? 0,
+      madeUpPrayers: stats.madeUpPrayers ?? 0,
+      excusedPrayers: stats.excusedPrayers ?? 0,
+      qazaPrayers: stats.qazaPrayers ?? 0,
+      currentStreak: 0,
+      bestStreak: stats.bestStreak ?? 0,
+      jumuahStreak: 0,
+      bestJumuahStreak: stats.bestJumuahStreak ?? 0,
+      perfectWeeks: stats.perfectWeeks ?? 0,
+    };
+
+    for (const date of dates) {
+      const before = countPrayers(await readBefore(date));
+      const after = countPrayers(await readAfter(date));
+      (Object.keys(after) as Array<keyof PrayerCounts>).forEach(field => {
+        statistics[field] += after[field] - before[field];
+      });
+    }
+
+    const weekStarts = new Set(dates.map(date => getWeekStartDate(date, weekStartDay)));
+    for (const weekStart of Array.from(weekStarts)) {
+      statistics.perfectWeeks += Number(await isPerfectWeek(readAfter, weekStart)) - Number(await isPerfectWeek(readBefore, weekStart));
+    }
+
+    statistics.currentStreak = await getCurrentStreak(readAfter, context);
+    statistics.bestStreak = Math.max(
+      await updateBestStreak(
+        statistics.bestStreak,
+        toDailyStreakReader(readBefore, 'skipped'),
+        toDailyStreakReader(readAfter, 'skipped'),
+        dates[0],
+        dates[dates.length - 1],
+        1,
+        firstDate,
+        lastDate
+      ),
+      statistics.currentStreak
+    );
+
+    const readJumuah = toJumuahStreakReader(readAfter, travel, today);
+    const firstFriday = getFridayOnOrBefore(firstDate);
+    const lastFriday = getFridayOnOrBefore(toToday);
+    statistics.jumuahStreak = await countStreakBack(readJumuah, getFridayOnOrBefore(today), firstDate, 7);
+    const fridays = dates.filter(isFriday);
+    if (fridays.length > 0) {
+      statistics.bestJumuahStreak = await updateBestStreak(
+        statistics.bestJumuahStreak,
+        toJumuahStreakReader(readBefore, travel, lastUpdated),
+        readJumuah,
+        fridays[0],
+        fridays[fridays.length - 1],
+        7,
+        firstFriday,
+        lastFriday
+      );
+    }
+
+    await saveUserStatistics(userId, statistics, today);
+  } catch (error) {
+    console.error('Failed to update user statistics:', error);
+  }
+}
@@ -2,58 +2,294 @@ import {
   users,
   prayerRecords,
   achievements,
+  achievementLog,
   userStats,
+  userSettings,
+  excusedPeriods,
+  travelPeriods,
+  savedMosques,
+  qazaLedgerEntries,
+  qazaEstimates,
+  qazaPlans,
+  sessions,
+  prayerTypes,
   type User,
   type UpsertUser,
   type PrayerRecord,
   type InsertPrayerRecord,
   type Achievement,
   type InsertAchievement,
+  type AchievementLogEntry,
+  type InsertAchievementLogEntry,
   type UserStats,
   type InsertUserStats,
+  type UserSettings,
+  type ExcusedPeriod,
+  type InsertExcusedPeriod,
+  type TravelPeriod,
+  type InsertTravelPeriod,
+  type SavedMosque,
+  type InsertSavedMosque,
+  type QazaLedgerEntry,
+  type InsertQazaLedgerEntry,
+  type QazaLedgerKind,
+  type QazaLedgerSource,
+  type QazaEstimate,
+  type QazaPlan,
+  type InsertQazaPlan,
+  type Session,
+  type InsertSession,
+  type SessionRevocationReason,
+  type QazaBalance,
+  type PrayerType,
   type DailyPrayers,
+  type VoluntaryPrayers,
   type BatchUpdatePrayers,
+  type AnalyticsSummary,
+  type AnalyticsByPrayer,
+  type AnalyticsTrend,
+  type AnalyticsGranularity,
 } from "@shared/schema";
+import { getPrayerState, isDateInPeriods, isPrayerPerformed, type PrayerState } from "@shared/prayer-status";
+import { addDaysToDateString } from "@shared/prayer-times";
 import { db } from "./db";
-import { eq, and, gte, lte } from "drizzle-orm";
+import { eq, and, gte, lte, desc, sql, isNull } from "drizzle-orm";
 import { randomUUID } from "crypto";
 
+// Fard prayers for a record created only to hold voluntary prayers
+const emptyDailyPrayers: PrayerRecord["prayers"] = {
+  fajr: { completed: false, onTime: false },
+  dhuhr: { completed: false, onTime: false },
+  asr: { completed: false, onTime: false },
+  maghrib: { completed: false, onTime: false },
+  isha: { completed: false, onTime: false },
+};
+
+// Helper function to turn debit and credit totals per prayer into a running balance
+function toQazaBalance(totals: Array<{ prayer: PrayerType; kind: QazaLedgerKind; count: number }>): QazaBalance {
+  const balance: QazaBalance = { fajr: 0, dhuhr: 0, asr: 0, maghrib: 0, isha: 0, total: 0 };
+  totals.forEach(({ prayer, kind, count }) => {
+    const amount = kind === 'debit' ? count : -count;
+    balance[prayer] += amount;
+    balance.total += amount;
+  });
+  return balance;
+}
+
+// Prayers per bucket, prayer type and state over a date range; every analytics view is folded
+// from these. Excused periods are applied, and days without a record count as missed.
+type PrayerStateCount = { bucket: string; prayer: PrayerType; state: PrayerState; count: number };
+
+// Helper function to get the first day of the analytics bucket a date falls in
+function getAnalyticsBucket(date: string, granularity: AnalyticsGranularity | null, weekStartDay: number, startDate: string): string {
+  switch (granularity) {
+    case 'day':
+      return date;
+    case 'week':
+      return addDaysToDateString(date, -((new Date(`${date}T00:00:00Z`).getUTCDay() - weekStartDay + 7) % 7));
+    case 'month':
+      return `${date.slice(0, 7)}-01`;
+    default:
+      return startDate;
+  }
+}
+
+// Helper function to get the last day of the analytics bucket starting on a date
+function getAnalyticsBucketEnd(bucket: string, granularity: AnalyticsGranularity): string {
+  switch (granularity) {
+    case 'day':
+      return bucket;
+    case 'week':
+      return addDaysToDateString(bucket, 6);
+    case 'month': {
+      const [year, month] = bucket.split('-').map(Number);
+      return new Date(Date.UTC(year, month, 0)).toISOString().split('T')[0];
+    }
+  }
+}
+
+// Helper function to total prayer state counts for a summary of the whole range
+function toAnalyticsSummary(counts: PrayerStateCount[], startDate: string, endDate: string): AnalyticsSummary {
+  const byState = (state: PrayerState) => counts.filter(count => count.state === state).reduce((sum, count) => sum + count.count, 0);
+  const totalPrayers = byState('on-time') + byState('late') + byState('made-up');
+  const totalPossible = totalPrayers + byState('missed');
+  return {
+    startDate,
+    endDate,
+    totalPrayers,
+    totalPossible,
+    successRate: totalPossible > 0 ? Math.round((totalPrayers / totalPossible) * 100) : 0,
+    qazaPrayers: byState('missed'),
+    onTimePrayers: byState('on-time'),
+    latePrayers: byState('late'),
+    madeUpPrayers: byState('made-up'),
+    excusedPrayers: byState('excused'),
+  };
+}
+
+// Helper function to total prayer state counts per prayer type
+function toAnalyticsByPrayer(counts: PrayerStateCount[], startDate: string, endDate: string): AnalyticsByPrayer {
+  const prayers = Object.fromEntries(
+    prayerTypes.map(prayer => [prayer, { completed: 0, total: 0 }])
+  ) as AnalyticsByPrayer['prayers'];
+  counts.forEach(({ prayer, state, count }) => {
+    if (state === 'excused') return; // Excused prayers are not owed
+    prayers[prayer].total += count;
+    if (isPrayerPerformed(state)) prayers[prayer].completed += count;
+  });
+  return { startDate, endDate, prayers };
+}
+
+// Helper function to total prayer state counts per bucket, clipping buckets to the range
+function toAnalyticsTrend(counts: PrayerStateCount[], startDate: string, endDate: string, granularity: AnalyticsGranularity): AnalyticsTrend {
+  const buckets = new Map<string, { completed: number; total: number; prayers: number }>();
+  counts.forEach(({ bucket, state, count }) => {
+    const totals = buckets.get(bucket) ?? { completed: 0, total: 0, prayers: 0 };
+    totals.prayers += count;
+    if (state !== 'excused') totals.total += count;
+    if (isPrayerPerformed(state)) totals.completed += count;
+    buckets.set(bucket, totals);
+  });
+
+  const points = Array.from(buckets.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([bucket, { completed, total, prayers }]) => {
+      const bucketEnd = getAnalyticsBucketEnd(bucket, granularity);
+      const days = prayers / prayerTypes.length;
+      return {
+        startDate: bucket > startDate ? bucket : startDate,
+        endDate: bucketEnd < endDate ? bucketEnd : endDate,
+        completed,
+        total,
+        averagePerDay: days > 0 ? Math.round((completed / days) * 10) / 10 : 0,
+      };
+    });
+  return { startDate, endDate, granularity, points };
+}
+
+// The qaza ledger and estimate operations a ledger change can make as one unit
+export type QazaLedgerStore = Pick<IStorage, 'getQazaBalance' | 'getQazaEstimate' | 'upsertQazaEstimate' | 'createQazaLedgerEntry' | 'deleteQazaLedgerEntry' | 'deleteQazaLedgerEntriesBySource'>;
+
 export interface IStorage {
   // User management
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUserIds(): Promise<string[]>;
   createUser(user: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): Promise<User>;
   upsertUser(user: UpsertUser): Promise<User>;
 
+  // Sessions
+  getSession(id: string): Promise<Session | undefined>;
+  getActiveSessions(userId: string): Promise<Session[]>;
+  createSession(session: InsertSession): Promise<Session>;
+  // Swap in a new refresh token only if the presented one is still current, so two
+  // refreshes racing with the same token cannot both succeed
+  rotateSessionToken(id: string, currentHash: string, nextHash: string, expiresAt: Date): Promise<Session | undefined>;
+  touchSession(id: string, seen: Pick<Session, 'lastSeenAt' | 'userAgent' | 'ipAddress'>): Promise<void>;
+  revokeSession(userId: string, id: string, reason: SessionRevocationReason): Promise<boolean>;
+  revokeUserSessions(userId: string, reason: SessionRevocationReason): Promise<number>;
+
   // Prayer records
   getPrayerRecord(userId: string, date: string): Promise<PrayerRecord | undefined>;
   getPrayerRecords(userId: string, startDate?: string, endDate?: string): Promise<PrayerRecord[]>;
+  getPrayerRecordDateRange(userId: string): Promise<{ firstDate: string; lastDate: string } | undefined>;
   createPrayerRecord(record: InsertPrayerRecord): Promise<PrayerRecord>;
   updatePrayerRecord(userId: string, date: string, prayers: any): Promise<PrayerRecord>;
   batchUpdatePrayerRecords(userId: string, updates: Array<{ date: string; prayers: DailyPrayers }>): Promise<PrayerRecord[]>;
+  updateVoluntaryPrayers(userId: string, date: string, voluntaryPrayers: VoluntaryPrayers): Promise<PrayerRecord>;
 
   // Achievements
   getAchievements(userId: string): Promise<Achievement[]>;
   createAchievement(achievement: InsertAchievement): Promise<Achievement>;
+  awardAchievement(achievement: InsertAchievement & { key: string }): Promise<Achievement | undefined>;
+  markAchievementHistorical(userId: string, id: string): Promise<Achievement | undefined>;
+  deleteAchievement(userId: string, id: string): Promise<boolean>;
+  getAchievementLog(userId: string): Promise<AchievementLogEntry[]>;
+  createAchievementLogEntry(entry: InsertAchievementLogEntry): Promise<AchievementLogEntry>;
 
   // User statistics
   getUserStats(userId: string): Promise<UserStats | undefined>;
   createUserStats(stats: InsertUserStats): Promise<UserStats>;
   updateUserStats(userId: string, updates: Partial<UserStats>): Promise<UserStats>;
+
+  // User settings
+  getUserSettings(userId: string): Promise<UserSettings | undefined>;
+  upsertUserSettings(userId: string, updates: Partial<UserSettings>): Promise<UserSettings>;
+
+  // Excused periods
+  getExcusedPeriods(userId: string): Promise<ExcusedPeriod[]>;
+  createExcusedPeriod(period: InsertExcusedPeriod): Promise<ExcusedPeriod>;
+  updateExcusedPeriod(userId: string, id: string, updates: Partial<ExcusedPeriod>): Promise<ExcusedPeriod | undefined>;
+  deleteExcusedPeriod(userId: string, id: string): Promise<boolean>;
+
+  // Travel periods
+  getTravelPeriods(userId: string): Promise<TravelPeriod[]>;
+  createTravelPeriod(period: InsertTravelPeriod): Promise<TravelPeriod>;
+  updateTravelPeriod(userId: string, id: string, updates: Partial<TravelPeriod>): Promise<TravelPeriod | undefined>;
+  deleteTravelPeriod(userId: string, id: string): Promise<boolean>;
+  
+  // Saved mosques
+  getSavedMosques(userId: string): Promise<SavedMosque[]>;
+  createSavedMosque(mosque: InsertSavedMosque): Promise<SavedMosque>;
+  updateSavedMosque(userId: string, id: string, updates: Partial<SavedMosque>): Promise<SavedMosque | undefined>;
+  deleteSavedMosque(userId: string, id: string): Promise<boolean>;
+  
+  // Qaza ledger
+  getQazaLedgerEntries(userId: string): Promise<QazaLedgerEntry[]>;
+  createQazaLedgerEntry(entry: InsertQazaLedgerEntry): Promise<QazaLedgerEntry>;
+  deleteQazaLedgerEntry(userId: string, id: string): Promise<boolean>;
+  getQazaBalance(userId: string): Promise<QazaBalance>;
+  // Removes the entries from one source, only those dated on the given day if one is passed
+  deleteQazaLedgerEntriesBySource(userId: string, source: QazaLedgerSource, date?: string): Promise<number>;
+  getQazaEstimate(userId: string): Promise<QazaEstimate | undefined>;
+  upsertQazaEstimate(estimate: Omit<QazaEstimate, 'id' | 'createdAt' | 'updatedAt'>): Promise<QazaEstimate>;
+  // Runs a change that checks the balance and then writes, so no other change to the user's
+  // ledger lands in between; if the change throws, none of its writes are kept
+  updateQazaLedger<T>(userId: string, change: (ledger: QazaLedgerStore) => Promise<T>): Promise<T>;
+  
+  // Qaza repayment plan
+  getQazaPlan(userId: string): Promise<QazaPlan | undefined>;
+  upsertQazaPlan(plan: InsertQazaPlan): Promise<QazaPlan>;
+  deleteQazaPlan(userId: string): Promise<boolean>;
+  
+  // Analytics over a date range, with excused periods applied
+  getAnalyticsSummary(userId: string, startDate: string, endDate: string): Promise<AnalyticsSummary>;
+  getAnalyticsByPrayer(userId: string, startDate: string, endDate: string): Promise<AnalyticsByPrayer>;
+  getAnalyticsTrend(userId: string, startDate: string, endDate: string, granularity: AnalyticsGranularity, weekStartDay: number): Promise<AnalyticsTrend>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private prayerRecords: Map<string, PrayerRecord>; // key: userId-date
   private achievements: Map<string, Achievement>;
+  private achievementLog: Map<string, AchievementLogEntry>;
   private userStats: Map<string, UserStats>; // key: userId
+  private userSettings: Map<string, UserSettings>; // key: userId
+  private excusedPeriods: Map<string, ExcusedPeriod>;
+  private travelPeriods: Map<string, TravelPeriod>;
+  private savedMosques: Map<string, SavedMosque>;
+  private qazaLedgerEntries: Map<string, QazaLedgerEntry>;
+  private qazaEstimates: Map<string, QazaEstimate>; // key: userId
+  private qazaPlans: Map<string, QazaPlan>; // key: userId
+  private sessions: Map<string, Session>;
+  private qazaLedgerChanges: Map<string, Promise<unknown>>; // key: userId, the last queued change
 
   constructor() {
     this.users = new Map();
     this.prayerRecords = new Map();
     this.achievements = new Map();
+    this.achievementLog = new Map();
     this.userStats = new Map();
+    this.userSettings = new Map();
+    this.excusedPeriods = new Map();
+    this.travelPeriods = new Map();
+    this.savedMosques = new Map();
+    this.qazaLedgerEntries = new Map();
+    this.qazaEstimates = new Map();
+    this.qazaPlans = new Map();
+    this.sessions = new Map();
+    this.qazaLedgerChanges = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -92,9 +328,14 @@ export class MemStorage implements IStorage {
       userId: user.id,
       totalPrayers: 0,
       onTimePrayers: 0,
+      latePrayers: 0,
+      madeUpPrayers: 0,
+      excusedPrayers: 0,
       qazaPrayers: 0,
       currentStreak: 0,
       bestStreak: 0,
+      jumuahStreak: 0,
+      bestJumuahStreak: 0,
       perfectWeeks: 0,
       lastStreakUpdate: null,
       updatedAt: new Date(),
@@ -121,14 +362,26 @@ export class MemStorage implements IStorage {
     return records;
   }
 
+  async getPrayerRecordDateRange(userId: string): Promise<{ firstDate: string; lastDate: string } | undefined> {
+    const dates = Array.from(this.prayerRecords.values())
+      .filter(record => record.userId === userId)
+      .map(record => record.date)
+      .sort();
+    return dates.length > 0 ? { firstDate: dates[0], lastDate: dates[dates.length - 1] } : undefined;
+  }
+
   async createPrayerRecord(insertRecord: InsertPrayerRecord): Promise<PrayerRecord> {
     const id = randomUUID();
-    const userId = insertRecord.userId || "demo-user"; // Ensure userId is never null
+    const userId = insertRecord.userId;
+    if (!userId) {
+      throw new Error("Prayer record requires a user");
+    }
     const record: PrayerRecord = {
       id,
       userId,
       date: insertRecord.date,
       prayers: insertRecord.prayers as PrayerRecord["prayers"],
+      voluntaryPrayers: (insertRecord.voluntaryPrayers ?? {}) as VoluntaryPrayers,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -166,6 +419,23 @@ export class MemStorage implements IStorage {
     return updatedRecords;
   }
 
+  async updateVoluntaryPrayers(userId: string, date: string, voluntaryPrayers: VoluntaryPrayers): Promise<PrayerRecord> {
+    const key = `${userId}-${date}`;
+    const existing = this.prayerRecords.get(key);
+    
+    if (existing) {
+      const updated: PrayerRecord = {
+        ...existing,
+        voluntaryPrayers,
+        updatedAt: new Date(),
+      };
+      this.prayerRecords.set(key, updated);
+      return updated;
+    }
+    
+    return this.createPrayerRecord({ userId, date, prayers: emptyDailyPrayers, voluntaryPrayers });
+  }
+
   async getAchievements(userId: string): Promise<Achievement[]> {
     return Array.from(this.achievements.values())
       .filter(achievement => achievement.userId === userId)
@@ -173,7 +443,10 @@ export class MemStorage implements IStorage {
   }
 
   async createAchievement(insertAchievement: InsertAchievement): Promise<Achievement> {
-    const userId = insertAchievement.userId || "demo-user"; // Ensure userId is never null
+    const userId = insertAchievement.userId;
+    if (!userId) {
+      throw new Error("Achievement requires a user");
+    }
     
     // Check for existing achievement with same userId, type, and earnedDate (idempotency)
     const existingAchievement = Array.from(this.achievements.values()).find(
@@ -192,9 +465,11 @@ export class MemStorage implements IStorage {
       id,
       userId,
       type: insertAchievement.type,
+      key: insertAchievement.key ?? null,
       title: insertAchievement.title,
       description: insertAchievement.description,
       earnedDate: insertAchievement.earnedDate,
+      historical: insertAchievement.historical ?? false,
       metadata: insertAchievement.metadata as Achievement["metadata"] || null,
       createdAt: new Date(),
     };
@@ -203,6 +478,57 @@ export class MemStorage implements IStorage {
     return achievement;
   }
 
+  async awardAchievement(insertAchievement: InsertAchievement & { key: string }): Promise<Achievement | undefined> {
+    const alreadyEarned = Array.from(this.achievements.values()).some(
+      achievement => achievement.userId === insertAchievement.userId && achievement.key === insertAchievement.key
+    );
+    if (alreadyEarned) {
+      return undefined;
+    }
+    return this.createAchievement(insertAchievement);
+  }
+
+  async markAchievementHistorical(userId: string, id: string): Promise<Achievement | undefined> {
+    const existing = this.achievements.get(id);
+    if (!existing || existing.userId !== userId) {
+      return undefined;
+    }
+    
+    const updated: Achievement = { ...existing, historical: true };
+    this.achievements.set(id, updated);
+    return updated;
+  }
+
+  async deleteAchievement(userId: string, id: string): Promise<boolean> {
+    const existing = this.achievements.get(id);
+    if (!existing || existing.userId !== userId) {
+      return false;
+    }
+    return this.achievements.delete(id);
+  }
+
+  async getAchievementLog(userId: string): Promise<AchievementLogEntry[]> {
+    return Array.from(this.achievementLog.values())
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async createAchievementLogEntry(insertEntry: InsertAchievementLogEntry): Promise<AchievementLogEntry> {
+    const id = randomUUID();
+    const entry: AchievementLogEntry = {
+      id,
+      userId: insertEntry.userId ?? null,
+      achievementKey: insertEntry.achievementKey ?? null,
+      title: insertEntry.title,
+      action: insertEntry.action as AchievementLogEntry['action'],
+      reason: insertEntry.reason,
+      createdAt: new Date(),
+    };
+    
+    this.achievementLog.set(id, entry);
+    return entry;
+  }
+
   async getUserByUsername(username: string): Promise<User | undefined> {
     return Array.from(this.users.values()).find(user => user.username === username);
   }
@@ -211,6 +537,10 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values()).find(user => user.email === email);
   }
 
+  async getUserIds(): Promise<string[]> {
+    return Array.from(this.users.keys());
+  }
+
   async createUser(user: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): Promise<User> {
     const userData = {
       ...user,
@@ -227,9 +557,14 @@ export class MemStorage implements IStorage {
       userId: userData.id,
       totalPrayers: 0,
       onTimePrayers: 0,
+      latePrayers: 0,
+      madeUpPrayers: 0,
+      excusedPrayers: 0,
       qazaPrayers: 0,
       currentStreak: 0,
       bestStreak: 0,
+      jumuahStreak: 0,
+      bestJumuahStreak: 0,
       perfectWeeks: 0,
       lastStreakUpdate: null,
       updatedAt: new Date(),
@@ -239,6 +574,72 @@ export class MemStorage implements IStorage {
     return userData;
   }
 
+  async getSession(id: string): Promise<Session | undefined> {
+    return this.sessions.get(id);
+  }
+
+  async getActiveSessions(userId: string): Promise<Session[]> {
+    const now = new Date();
+    return Array.from(this.sessions.values())
+      .filter(session => session.userId === userId && !session.revokedAt && session.expiresAt > now)
+      .sort((a, b) => (b.lastSeenAt?.getTime() ?? 0) - (a.lastSeenAt?.getTime() ?? 0));
+  }
+
+  async createSession(insertSession: InsertSession): Promise<Session> {
+    const id = randomUUID();
+    const session: Session = {
+      id,
+      userId: insertSession.userId ?? null,
+      refreshTokenHash: insertSession.refreshTokenHash,
+      expiresAt: insertSession.expiresAt,
+      userAgent: insertSession.userAgent ?? null,
+      ipAddress: insertSession.ipAddress ?? null,
+      lastSeenAt: new Date(),
+      revokedAt: null,
+      revokedReason: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  async rotateSessionToken(id: string, currentHash: string, nextHash: string, expiresAt: Date): Promise<Session | undefined> {
+    const existing = this.sessions.get(id);
+    if (!existing || existing.revokedAt || existing.refreshTokenHash !== currentHash) {
+      return undefined;
+    }
+    const updated: Session = { ...existing, refreshTokenHash: nextHash, expiresAt, updatedAt: new Date() };
+    this.sessions.set(id, updated);
+    return updated;
+  }
+
+  async touchSession(id: string, seen: Pick<Session, 'lastSeenAt' | 'userAgent' | 'ipAddress'>): Promise<void> {
+    const existing = this.sessions.get(id);
+    if (existing) {
+      this.sessions.set(id, { ...existing, ...seen });
+    }
+  }
+
+  async revokeSession(userId: string, id: string, reason: SessionRevocationReason): Promise<boolean> {
+    const existing = this.sessions.get(id);
+    if (!existing || existing.userId !== userId || existing.revokedAt) {
+      return false;
+    }
+    this.sessions.set(id, { ...existing, revokedAt: new Date(), revokedReason: reason, updatedAt: new Date() });
+    return true;
+  }
+
+  async revokeUserSessions(userId: string, reason: SessionRevocationReason): Promise<number> {
+    let revoked = 0;
+    for (const session of Array.from(this.sessions.values())) {
+      if (await this.revokeSession(userId, session.id, reason)) {
+        revoked++;
+      }
+    }
+    return revoked;
+  }
+
   async getUserStats(userId: string): Promise<UserStats | undefined> {
     return this.userStats.get(userId);
   }
@@ -251,9 +652,14 @@ export class MemStorage implements IStorage {
       userId: insertStats.userId || null,
       totalPrayers: insertStats.totalPrayers || 0,
       onTimePrayers: insertStats.onTimePrayers || 0,
+      latePrayers: insertStats.latePrayers || 0,
+      madeUpPrayers: insertStats.madeUpPrayers || 0,
+      excusedPrayers: insertStats.excusedPrayers || 0,
       qazaPrayers: insertStats.qazaPrayers || 0,
       currentStreak: insertStats.currentStreak || 0,
       bestStreak: insertStats.bestStreak || 0,
+      jumuahStreak: insertStats.jumuahStreak || 0,
+      bestJumuahStreak: insertStats.bestJumuahStreak || 0,
       perfectWeeks: insertStats.perfectWeeks || 0,
       lastStreakUpdate: insertStats.lastStreakUpdate || null,
       updatedAt: new Date(),
@@ -278,10 +684,391 @@ export class MemStorage implements IStorage {
     this.userStats.set(userId, updated);
     return updated;
   }
+
+  async getUserSettings(userId: string): Promise<UserSettings | undefined> {
+    return this.userSettings.get(userId);
+  }
+
+  async upsertUserSettings(userId: string, updates: Partial<UserSettings>): Promise<UserSettings> {
+    const existing = this.userSettings.get(userId);
+    const settings: UserSettings = {
+      id: existing?.id ?? randomUUID(),
+      calculationMethod: 'MWL',
+      asrMethod: 'standard',
+      customFajrAngle: null,
+      customIshaAngle: null,
+      customIshaInterval: null,
+      highLatitudeRule: 'middleOfNight',
+      prayerOffsets: {},
+      locationName: null,
+      latitude: null,
+      longitude: null,
+      timezone: null,
+      weekStartDay: 1,
+      language: 'en',
+      hijriAdjustment: 0,
+      trackedVoluntaryPrayers: [],
+      attendsJumuah: true,
+      dayStartsAtFajr: false,
+      ...existing,
+      ...updates,
+      userId,
+      updatedAt: new Date(),
+    };
+    
+    this.userSettings.set(userId, settings);
+    return settings;
+  }
+
+  async getExcusedPeriods(userId: string): Promise<ExcusedPeriod[]> {
+    return Array.from(this.excusedPeriods.values())
+      .filter(period => period.userId === userId)
+      .sort((a, b) => b.startDate.localeCompare(a.startDate));
+  }
+
+  async createExcusedPeriod(insertPeriod: InsertExcusedPeriod): Promise<ExcusedPeriod> {
+    const id = randomUUID();
+    const period: ExcusedPeriod = {
+      id,
+      userId: insertPeriod.userId ?? null,
+      startDate: insertPeriod.startDate,
+      endDate: insertPeriod.endDate ?? null,
+      label: insertPeriod.label ?? null,
+      createdAt: new Date(),
+    };
+    
+    this.excusedPeriods.set(id, period);
+    return period;
+  }
+
+  async updateExcusedPeriod(userId: string, id: string, updates: Partial<ExcusedPeriod>): Promise<ExcusedPeriod | undefined> {
+    const existing = this.excusedPeriods.get(id);
+    if (!existing || existing.userId !== userId) {
+      return undefined;
+    }
+    
+    const updated: ExcusedPeriod = {
+      ...existing,
+      ...updates,
+      id,
+      userId,
+    };
+    this.excusedPeriods.set(id, updated);
+    return updated;
+  }
+
+  async deleteExcusedPeriod(userId: string, id: string): Promise<boolean> {
+    const existing = this.excusedPeriods.get(id);
+    if (!existing || existing.userId !== userId) {
+      return false;
+    }
+    return this.excusedPeriods.delete(id);
+  }
+
+  async getTravelPeriods(userId: string): Promise<TravelPeriod[]> {
+    return Array.from(this.travelPeriods.values())
+      .filter(period => period.userId === userId)
+      .sort((a, b) => b.startDate.localeCompare(a.startDate));
+  }
+
+  async createTravelPeriod(insertPeriod: InsertTravelPeriod): Promise<TravelPeriod> {
+    const id = randomUUID();
+    const period: TravelPeriod = {
+      id,
+      userId: insertPeriod.userId ?? null,
+      startDate: insertPeriod.startDate,
+      endDate: insertPeriod.endDate ?? null,
+      destination: insertPeriod.destination ?? null,
+      createdAt: new Date(),
+    };
+    
+    this.travelPeriods.set(id, period);
+    return period;
+  }
+
+  async updateTravelPeriod(userId: string, id: string, updates: Partial<TravelPeriod>): Promise<TravelPeriod | undefined> {
+    const existing = this.travelPeriods.get(id);
+    if (!existing || existing.userId !== userId) {
+      return undefined;
+    }
+    
+    const updated: TravelPeriod = {
+      ...existing,
+      ...updates,
+      id,
+      userId,
+    };
+    this.travelPeriods.set(id, updated);
+    return updated;
+  }
+
+  async deleteTravelPeriod(userId: string, id: string): Promise<boolean> {
+    const existing = this.travelPeriods.get(id);
+    if (!existing || existing.userId !== userId) {
+      return false;
+    }
+    return this.travelPeriods.delete(id);
+  }
+
+  async getSavedMosques(userId: string): Promise<SavedMosque[]> {
+    return Array.from(this.savedMosques.values())
+      .filter(mosque => mosque.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createSavedMosque(insertMosque: InsertSavedMosque): Promise<SavedMosque> {
+    const id = randomUUID();
+    const mosque: SavedMosque = {
+      id,
+      userId: insertMosque.userId ?? null,
+      name: insertMosque.name,
+      address: insertMosque.address ?? null,
+      createdAt: new Date(),
+    };
+    
+    this.savedMosques.set(id, mosque);
+    return mosque;
+  }
+
+  async updateSavedMosque(userId: string, id: string, updates: Partial<SavedMosque>): Promise<SavedMosque | undefined> {
+    const existing = this.savedMosques.get(id);
+    if (!existing || existing.userId !== userId) {
+      return undefined;
+    }
+    
+    const updated: SavedMosque = {
+      ...existing,
+      ...updates,
+      id,
+      userId,
+    };
+    this.savedMosques.set(id, updated);
+    return updated;
+  }
+
+  async deleteSavedMosque(userId: string, id: string): Promise<boolean> {
+    const existing = this.savedMosques.get(id);
+    if (!existing || existing.userId !== userId) {
+      return false;
+    }
+    return this.savedMosques.delete(id);
+  }
+
+  async getQazaLedgerEntries(userId: string): Promise<QazaLedgerEntry[]> {
+    return Array.from(this.qazaLedgerEntries.values())
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => b.date.localeCompare(a.date) || (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async createQazaLedgerEntry(insertEntry: InsertQazaLedgerEntry): Promise<QazaLedgerEntry> {
+    const id = randomUUID();
+    const entry: QazaLedgerEntry = {
+      id,
+      userId: insertEntry.userId ?? null,
+      prayer: insertEntry.prayer as PrayerType,
+      kind: insertEntry.kind as QazaLedgerKind,
+      count: insertEntry.count ?? 1,
+      date: insertEntry.date,
+      note: insertEntry.note ?? null,
+      source: (insertEntry.source ?? 'manual') as QazaLedgerSource,
+      createdAt: new Date(),
+    };
+    
+    this.qazaLedgerEntries.set(id, entry);
+    return entry;
+  }
+
+  async deleteQazaLedgerEntry(userId: string, id: string): Promise<boolean> {
+    const existing = this.qazaLedgerEntries.get(id);
+    if (!existing || existing.userId !== userId) {
+      return false;
+    }
+    return this.qazaLedgerEntries.delete(id);
+  }
+
+  async getQazaBalance(userId: string): Promise<QazaBalance> {
+    return toQazaBalance(await this.getQazaLedgerEntries(userId));
+  }
+
+  async deleteQazaLedgerEntriesBySource(userId: string, source: QazaLedgerSource, date?: string): Promise<number> {
+    const entries = (await this.getQazaLedgerEntries(userId))
+      .filter(entry => entry.source === source && (!date || entry.date === date));
+    entries.forEach(entry => this.qazaLedgerEntries.delete(entry.id));
+    return entries.length;
+  }
+
+  async getQazaEstimate(userId: string): Promise<QazaEstimate | undefined> {
+    return this.qazaEstimates.get(userId);
+  }
+
+  async upsertQazaEstimate(updates: Omit<QazaEstimate, 'id' | 'createdAt' | 'updatedAt'>): Promise<QazaEstimate> {
+    const existing = updates.userId ? this.qazaEstimates.get(updates.userId) : undefined;
+    const estimate: QazaEstimate = {
+      ...updates,
+      id: existing?.id ?? randomUUID(),
+      createdAt: existing?.createdAt ?? new Date(),
+      updatedAt: new Date(),
+    };
+    
+    this.qazaEstimates.set(updates.userId!, estimate);
+    return estimate;
+  }
+
+  async updateQazaLedger<T>(userId: string, change: (ledger: QazaLedgerStore) => Promise<T>): Promise<T> {
+    const run = async () => {
+      const entries = await this.getQazaLedgerEntries(userId);
+      const estimate = this.qazaEstimates.get(userId);
+      try {
+        return await change(this);
+      } catch (error) {
+        // Put the user's ledger and estimate back as they were before the change
+        (await this.getQazaLedgerEntries(userId)).forEach(entry => this.qazaLedgerEntries.delete(entry.id));
+        entries.forEach(entry => this.qazaLedgerEntries.set(entry.id, entry));
+        if (estimate) {
+          this.qazaEstimates.set(userId, estimate);
+        } else {
+          this.qazaEstimates.delete(userId);
+        }
+        throw error;
+      }
+    };
+    
+    // Queue the change behind the user's earlier ones
+    const result = (this.qazaLedgerChanges.get(userId) ?? Promise.resolve()).then(run);
+    this.qazaLedgerChanges.set(userId, result.catch(() => undefined));
+    return result;
+  }
+
+  async getQazaPlan(userId: string): Promise<QazaPlan | undefined> {
+    return this.qazaPlans.get(userId);
+  }
+
+  async upsertQazaPlan(updates: InsertQazaPlan): Promise<QazaPlan> {
+    const existing = updates.userId ? this.qazaPlans.get(updates.userId) : undefined;
+    const plan: QazaPlan = {
+      id: existing?.id ?? randomUUID(),
+      userId: updates.userId ?? null,
+      dailyQuota: updates.dailyQuota ?? 1,
+      startDate: updates.startDate,
+      createdAt: existing?.createdAt ?? new Date(),
+      updatedAt: new Date(),
+    };
+    
+    this.qazaPlans.set(updates.userId!, plan);
+    return plan;
+  }
+
+  async deleteQazaPlan(userId: string): Promise<boolean> {
+    return this.qazaPlans.delete(userId);
+  }
+
+  async getAnalyticsSummary(userId: string, startDate: string, endDate: string): Promise<AnalyticsSummary> {
+    return toAnalyticsSummary(await this.countPrayerStates(userId, startDate, endDate, null, 0), startDate, endDate);
+  }
+
+  async getAnalyticsByPrayer(userId: string, startDate: string, endDate: string): Promise<AnalyticsByPrayer> {
+    return toAnalyticsByPrayer(await this.countPrayerStates(userId, startDate, endDate, null, 0), startDate, endDate);
+  }
+
+  async getAnalyticsTrend(userId: string, startDate: string, endDate: string, granularity: AnalyticsGranularity, weekStartDay: number): Promise<AnalyticsTrend> {
+    return toAnalyticsTrend(await this.countPrayerStates(userId, startDate, endDate, granularity, weekStartDay), startDate, endDate, granularity);
+  }
+
+  private async countPrayerStates(userId: string, startDate: string, endDate: string, granularity: AnalyticsGranularity | null, weekStartDay: number): Promise<PrayerStateCount[]> {
+    const recordsByDate = new Map((await this.getPrayerRecords(userId, startDate, endDate)).map(record => [record.date, record]));
+    const excused = await this.getExcusedPeriods(userId);
+    const counts = new Map<string, PrayerStateCount>();
+    
+    for (let date = startDate; date <= endDate; date = addDaysToDateString(date, 1)) {
+      const bucket = getAnalyticsBucket(date, granularity, weekStartDay, startDate);
+      const isExcusedDay = isDateInPeriods(date, excused);
+      prayerTypes.forEach(prayer => {
+        const entry = recordsByDate.get(date)?.prayers[prayer];
+        let state = entry ? getPrayerState(entry) : 'missed';
+        if (isExcusedDay && !isPrayerPerformed(state)) state = 'excused';
+        
+        const key = `${bucket}|${prayer}|${state}`;
+        const count = counts.get(key) ?? { bucket, prayer, state, count: 0 };
+        count.count++;
+        counts.set(key, count);
+      });
+    }
+    return Array.from(counts.values());
+  }
 }
 
 // Database storage implementation
+// Qaza ledger queries on the database or inside a transaction, so that a ledger change can
+// make its reads and writes as one unit
+function createDatabaseQazaLedger(executor: any): QazaLedgerStore {
+  return {
+    async createQazaLedgerEntry(entry: InsertQazaLedgerEntry): Promise<QazaLedgerEntry> {
+      const [created] = await executor
+        .insert(qazaLedgerEntries)
+        .values(entry)
+        .returning();
+      return created;
+    },
+
+    async deleteQazaLedgerEntry(userId: string, id: string): Promise<boolean> {
+      const deleted = await executor
+        .delete(qazaLedgerEntries)
+        .where(and(eq(qazaLedgerEntries.id, id), eq(qazaLedgerEntries.userId, userId)))
+        .returning();
+      return deleted.length > 0;
+    },
+
+    async getQazaBalance(userId: string): Promise<QazaBalance> {
+      // Sum in the database rather than loading every entry
+      const totals = await executor
+        .select({
+          prayer: qazaLedgerEntries.prayer,
+          kind: qazaLedgerEntries.kind,
+          count: sql<number>`cast(sum(${qazaLedgerEntries.count}) as integer)`,
+        })
+        .from(qazaLedgerEntries)
+        .where(eq(qazaLedgerEntries.userId, userId))
+        .groupBy(qazaLedgerEntries.prayer, qazaLedgerEntries.kind);
+      return toQazaBalance(totals);
+    },
+
+    async deleteQazaLedgerEntriesBySource(userId: string, source: QazaLedgerSource, date?: string): Promise<number> {
+      const deleted = await executor
+        .delete(qazaLedgerEntries)
+        .where(and(
+          eq(qazaLedgerEntries.userId, userId),
+          eq(qazaLedgerEntries.source, source),
+          date ? eq(qazaLedgerEntries.date, date) : undefined
+        ))
+        .returning();
+      return deleted.length;
+    },
+
+    async getQazaEstimate(userId: string): Promise<QazaEstimate | undefined> {
+      const [estimate] = await executor.select().from(qazaEstimates).where(eq(qazaEstimates.userId, userId));
+      return estimate;
+    },
+
+    async upsertQazaEstimate(estimate: Omit<QazaEstimate, 'id' | 'createdAt' | 'updatedAt'>): Promise<QazaEstimate> {
+      const [saved] = await executor
+        .insert(qazaEstimates)
+        .values(estimate)
+        .onConflictDoUpdate({
+          target: qazaEstimates.userId,
+          set: {
+            ...estimate,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+      return saved;
+    },
+  };
+}
+
 export class DatabaseStorage implements IStorage {
+  private qazaLedger = createDatabaseQazaLedger(db);
+
   // User operations (IMPORTANT: these are mandatory for Replit Auth)
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -342,6 +1129,17 @@ export class DatabaseStorage implements IStorage {
       .where(and(...conditions));
   }
 
+  async getPrayerRecordDateRange(userId: string): Promise<{ firstDate: string; lastDate: string } | undefined> {
+    const [range] = await db
+      .select({
+        firstDate: sql<string | null>`min(${prayerRecords.date})`,
+        lastDate: sql<string | null>`max(${prayerRecords.date})`,
+      })
+      .from(prayerRecords)
+      .where(eq(prayerRecords.userId, userId));
+    return range?.firstDate && range.lastDate ? { firstDate: range.firstDate, lastDate: range.lastDate } : undefined;
+  }
+
   async createPrayerRecord(record: InsertPrayerRecord): Promise<PrayerRecord> {
     const [created] = await db
       .insert(prayerRecords)
@@ -384,6 +1182,24 @@ export class DatabaseStorage implements IStorage {
     return updatedRecords;
   }
 
+  async updateVoluntaryPrayers(userId: string, date: string, voluntaryPrayers: VoluntaryPrayers): Promise<PrayerRecord> {
+    const existing = await this.getPrayerRecord(userId, date);
+    
+    if (existing) {
+      const [updated] = await db
+        .update(prayerRecords)
+        .set({
+          voluntaryPrayers,
+          updatedAt: new Date(),
+        })
+        .where(eq(prayerRecords.id, existing.id))
+        .returning();
+      return updated;
+    }
+    
+    return this.createPrayerRecord({ userId, date, prayers: emptyDailyPrayers, voluntaryPrayers });
+  }
+
   // Achievements
   async getAchievements(userId: string): Promise<Achievement[]> {
     return await db
@@ -414,6 +1230,49 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async awardAchievement(achievement: InsertAchievement & { key: string }): Promise<Achievement | undefined> {
+    // The unique (user, key) index makes concurrent awards from several devices insert only once
+    const [created] = await db
+      .insert(achievements)
+      .values([achievement as any])
+      .onConflictDoNothing({ target: [achievements.userId, achievements.key] })
+      .returning();
+    return created;
+  }
+
+  async markAchievementHistorical(userId: string, id: string): Promise<Achievement | undefined> {
+    const [updated] = await db
+      .update(achievements)
+      .set({ historical: true })
+      .where(and(eq(achievements.id, id), eq(achievements.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteAchievement(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(achievements)
+      .where(and(eq(achievements.id, id), eq(achievements.userId, userId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async getAchievementLog(userId: string): Promise<AchievementLogEntry[]> {
+    return await db
+      .select()
+      .from(achievementLog)
+      .where(eq(achievementLog.userId, userId))
+      .orderBy(desc(achievementLog.createdAt));
+  }
+
+  async createAchievementLogEntry(entry: InsertAchievementLogEntry): Promise<AchievementLogEntry> {
+    const [created] = await db
+      .insert(achievementLog)
+      .values(entry)
+      .returning();
+    return created;
+  }
+
   // User statistics
   async getUserByUsername(username: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.username, username));
@@ -425,6 +1284,11 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserIds(): Promise<string[]> {
+    const rows: Array<{ id: string }> = await db.select({ id: users.id }).from(users);
+    return rows.map(row => row.id);
+  }
+
   async createUser(user: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): Promise<User> {
     const [created] = await db
       .insert(users)
@@ -437,6 +1301,65 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  // Sessions
+  async getSession(id: string): Promise<Session | undefined> {
+    const [session] = await db
+      .select()
+      .from(sessions)
+      .where(eq(sessions.id, id));
+    return session;
+  }
+
+  async getActiveSessions(userId: string): Promise<Session[]> {
+    return await db
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt), gte(sessions.expiresAt, new Date())))
+      .orderBy(desc(sessions.lastSeenAt));
+  }
+
+  async createSession(session: InsertSession): Promise<Session> {
+    const [created] = await db
+      .insert(sessions)
+      .values(session)
+      .returning();
+    return created;
+  }
+
+  async rotateSessionToken(id: string, currentHash: string, nextHash: string, expiresAt: Date): Promise<Session | undefined> {
+    const [updated] = await db
+      .update(sessions)
+      .set({ refreshTokenHash: nextHash, expiresAt, updatedAt: new Date() })
+      .where(and(eq(sessions.id, id), eq(sessions.refreshTokenHash, currentHash), isNull(sessions.revokedAt)))
+      .returning();
+    return updated;
+  }
+
+  async touchSession(id: string, seen: Pick<Session, 'lastSeenAt' | 'userAgent' | 'ipAddress'>): Promise<void> {
+    await db
+      .update(sessions)
+      .set(seen)
+      .where(eq(sessions.id, id));
+  }
+
+  async revokeSession(userId: string, id: string, reason: SessionRevocationReason): Promise<boolean> {
+    const revoked = await db
+      .update(sessions)
+      .set({ revokedAt: new Date(), revokedReason: reason, updatedAt: new Date() })
+      .where(and(eq(sessions.id, id), eq(sessions.userId, userId), isNull(sessions.revokedAt)))
+      .returning();
+    return revoked.length > 0;
+  }
+
+  async revokeUserSessions(userId: string, reason: SessionRevocationReason): Promise<number> {
+    const revoked = await db
+      .update(sessions)
+      .set({ revokedAt: new Date(), revokedReason: reason, updatedAt: new Date() })
+      .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt)))
+      .returning();
+    return revoked.length;
+  }
+
   async getUserStats(userId: string): Promise<UserStats | undefined> {
     const [stats] = await db
       .select()
@@ -469,6 +1392,264 @@ export class DatabaseStorage implements IStorage {
     
     return updated;
   }
+
+  // User settings
+  async getUserSettings(userId: string): Promise<UserSettings | undefined> {
+    const [settings] = await db
+      .select()
+      .from(userSettings)
+      .where(eq(userSettings.userId, userId));
+    return settings;
+  }
+
+  async upsertUserSettings(userId: string, updates: Partial<UserSettings>): Promise<UserSettings> {
+    const [settings] = await db
+      .insert(userSettings)
+      .values({ ...updates, userId })
+      .onConflictDoUpdate({
+        target: userSettings.userId,
+        set: {
+          ...updates,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return settings;
+  }
+
+  // Excused periods
+  async getExcusedPeriods(userId: string): Promise<ExcusedPeriod[]> {
+    return await db
+      .select()
+      .from(excusedPeriods)
+      .where(eq(excusedPeriods.userId, userId))
+      .orderBy(desc(excusedPeriods.startDate));
+  }
+
+  async createExcusedPeriod(period: InsertExcusedPeriod): Promise<ExcusedPeriod> {
+    const [created] = await db
+      .insert(excusedPeriods)
+      .values(period)
+      .returning();
+    return created;
+  }
+
+  async updateExcusedPeriod(userId: string, id: string, updates: Partial<ExcusedPeriod>): Promise<ExcusedPeriod | undefined> {
+    const [updated] = await db
+      .update(excusedPeriods)
+      .set(updates)
+      .where(and(eq(excusedPeriods.id, id), eq(excusedPeriods.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteExcusedPeriod(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(excusedPeriods)
+      .where(and(eq(excusedPeriods.id, id), eq(excusedPeriods.userId, userId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Travel periods
+  async getTravelPeriods(userId: string): Promise<TravelPeriod[]> {
+    return await db
+      .select()
+      .from(travelPeriods)
+      .where(eq(travelPeriods.userId, userId))
+      .orderBy(desc(travelPeriods.startDate));
+  }
+
+  async createTravelPeriod(period: InsertTravelPeriod): Promise<TravelPeriod> {
+    const [created] = await db
+      .insert(travelPeriods)
+      .values(period)
+      .returning();
+    return created;
+  }
+
+  async updateTravelPeriod(userId: string, id: string, updates: Partial<TravelPeriod>): Promise<TravelPeriod | undefined> {
+    const [updated] = await db
+      .update(travelPeriods)
+      .set(updates)
+      .where(and(eq(travelPeriods.id, id), eq(travelPeriods.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteTravelPeriod(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(travelPeriods)
+      .where(and(eq(travelPeriods.id, id), eq(travelPeriods.userId, userId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Saved mosques
+  async getSavedMosques(userId: string): Promise<SavedMosque[]> {
+    return await db
+      .select()
+      .from(savedMosques)
+      .where(eq(savedMosques.userId, userId))
+      .orderBy(savedMosques.name);
+  }
+
+  async createSavedMosque(mosque: InsertSavedMosque): Promise<SavedMosque> {
+    const [created] = await db
+      .insert(savedMosques)
+      .values(mosque)
+      .returning();
+    return created;
+  }
+
+  async updateSavedMosque(userId: string, id: string, updates: Partial<SavedMosque>): Promise<SavedMosque | undefined> {
+    const [updated] = await db
+      .update(savedMosques)
+      .set(updates)
+      .where(and(eq(savedMosques.id, id), eq(savedMosques.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteSavedMosque(userId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(savedMosques)
+      .where(and(eq(savedMosques.id, id), eq(savedMosques.userId, userId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Qaza ledger
+  async getQazaLedgerEntries(userId: string): Promise<QazaLedgerEntry[]> {
+    return await db
+      .select()
+      .from(qazaLedgerEntries)
+      .where(eq(qazaLedgerEntries.userId, userId))
+      .orderBy(desc(qazaLedgerEntries.date), desc(qazaLedgerEntries.createdAt));
+  }
+
+  async createQazaLedgerEntry(entry: InsertQazaLedgerEntry): Promise<QazaLedgerEntry> {
+    return this.qazaLedger.createQazaLedgerEntry(entry);
+  }
+
+  async deleteQazaLedgerEntry(userId: string, id: string): Promise<boolean> {
+    return this.qazaLedger.deleteQazaLedgerEntry(userId, id);
+  }
+
+  async getQazaBalance(userId: string): Promise<QazaBalance> {
+    return this.qazaLedger.getQazaBalance(userId);
+  }
+
+  async deleteQazaLedgerEntriesBySource(userId: string, source: QazaLedgerSource, date?: string): Promise<number> {
+    return this.qazaLedger.deleteQazaLedgerEntriesBySource(userId, source, date);
+  }
+
+  async getQazaEstimate(userId: string): Promise<QazaEstimate | undefined> {
+    return this.qazaLedger.getQazaEstimate(userId);
+  }
+
+  async upsertQazaEstimate(estimate: Omit<QazaEstimate, 'id' | 'createdAt' | 'updatedAt'>): Promise<QazaEstimate> {
+    return this.qazaLedger.upsertQazaEstimate(estimate);
+  }
+
+  async updateQazaLedger<T>(userId: string, change: (ledger: QazaLedgerStore) => Promise<T>): Promise<T> {
+    return db.transaction(async (tx: any) => {
+      // Lock the user's row so concurrent ledger changes check the balance one at a time
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for('update');
+      return change(createDatabaseQazaLedger(tx));
+    });
+  }
+
+  // Qaza repayment plan
+  async getQazaPlan(userId: string): Promise<QazaPlan | undefined> {
+    const [plan] = await db.select().from(qazaPlans).where(eq(qazaPlans.userId, userId));
+    return plan;
+  }
+
+  async upsertQazaPlan(plan: InsertQazaPlan): Promise<QazaPlan> {
+    const [saved] = await db
+      .insert(qazaPlans)
+      .values(plan)
+      .onConflictDoUpdate({
+        target: qazaPlans.userId,
+        set: {
+          ...plan,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteQazaPlan(userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(qazaPlans)
+      .where(eq(qazaPlans.userId, userId))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Analytics
+  async getAnalyticsSummary(userId: string, startDate: string, endDate: string): Promise<AnalyticsSummary> {
+    return toAnalyticsSummary(await this.countPrayerStates(userId, startDate, endDate, null, 0), startDate, endDate);
+  }
+
+  async getAnalyticsByPrayer(userId: string, startDate: string, endDate: string): Promise<AnalyticsByPrayer> {
+    return toAnalyticsByPrayer(await this.countPrayerStates(userId, startDate, endDate, null, 0), startDate, endDate);
+  }
+
+  async getAnalyticsTrend(userId: string, startDate: string, endDate: string, granularity: AnalyticsGranularity, weekStartDay: number): Promise<AnalyticsTrend> {
+    return toAnalyticsTrend(await this.countPrayerStates(userId, startDate, endDate, granularity, weekStartDay), startDate, endDate, granularity);
+  }
+
+  // Count in the database rather than loading every record: one row per day and prayer type,
+  // with the state read the same way as getPrayerState and excused periods applied on top
+  private async countPrayerStates(userId: string, startDate: string, endDate: string, granularity: AnalyticsGranularity | null, weekStartDay: number): Promise<PrayerStateCount[]> {
+    const bucket = granularity === 'day'
+      ? sql`days.date`
+      : granularity === 'week'
+        ? sql`to_char(days.day - ((extract(dow from days.day)::int - ${weekStartDay} + 7) % 7), 'YYYY-MM-DD')`
+        : granularity === 'month'
+          ? sql`to_char(days.day, 'YYYY-MM-01')`
+          : sql`${startDate}::text`;
+    
+    return await db.execute(sql`
+      WITH days AS (
+        SELECT series::date AS day, to_char(series, 'YYYY-MM-DD') AS date
+        FROM generate_series(${startDate}::date, ${endDate}::date, interval '1 day') AS series
+      ),
+      states AS (
+        SELECT
+          ${bucket} AS bucket,
+          prayer.name AS prayer,
+          COALESCE(
+            entry.value->>'status',
+            CASE
+              WHEN NOT COALESCE((entry.value->>'completed')::boolean, false) THEN 'missed'
+              WHEN (entry.value->>'onTime')::boolean THEN 'on-time'
+              ELSE 'made-up'
+            END
+          ) AS state,
+          EXISTS (
+            SELECT 1 FROM ${excusedPeriods}
+            WHERE ${excusedPeriods.userId} = ${userId}
+              AND ${excusedPeriods.startDate} <= days.date
+              AND (${excusedPeriods.endDate} IS NULL OR days.date <= ${excusedPeriods.endDate})
+          ) AS excused_day
+        FROM days
+        CROSS JOIN unnest(ARRAY['fajr', 'dhuhr', 'asr', 'maghrib', 'isha']) AS prayer(name)
+        LEFT JOIN ${prayerRecords} ON ${prayerRecords.userId} = ${userId} AND ${prayerRecords.date} = days.date
+        CROSS JOIN LATERAL (SELECT ${prayerRecords.prayers} -> prayer.name AS value) AS entry
+      )
+      SELECT
+        bucket,
+        prayer,
+        CASE WHEN excused_day AND state NOT IN ('on-time', 'late', 'made-up') THEN 'excused' ELSE state END AS state,
+        cast(count(*) as integer) AS count
+      FROM states
+      GROUP BY 1, 2, 3
+    `);
+  }
 }
 
 // Use database storage for persistent data, fallback to memory storage
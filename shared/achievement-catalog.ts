@@ -0,0 +1,142 @@
+// Every achievement, defined as data. The server evaluates the rules after prayers are saved
+// and serves the catalog with each user's progress; adding an achievement is one entry here.
+//
+// A rule is a metric compared against a threshold over a window:
+// - Period windows (a day, week, month, year or Hijri season) can be earned once per period.
+//   The metric is measured over the whole period, so days still to come count as not prayed.
+// - 'ever' windows read a running total or streak and are earned once.
+// - The 'run' window follows the current run of kept days and is earned once per run.
+
+export const achievementTiers = ["bronze", "silver", "gold", "platinum"] as const;
+export type AchievementTier = typeof achievementTiers[number];
+
+// Names of the icons the client draws for each achievement
+export type AchievementIcon =
+  | 'check-circle' | 'trophy' | 'medal' | 'calendar' | 'calendar-days' | 'flame' | 'target'
+  | 'landmark' | 'star' | 'sun' | 'moon' | 'shield' | 'crown' | 'rotate-ccw' | 'zap';
+
+export type AchievementPeriodWindow =
+  | 'day' | 'week' | 'month' | 'year'
+  | 'ramadan' | 'last-ten-nights' | 'arafah' | 'dhul-hijjah-ten' | 'ashura';
+
+export type AchievementPeriodMetric =
+  | 'perfectDayRate' // Percentage of days in the period with every prayer kept or excused
+  | 'completionRate' // Percentage of owed prayers prayed on their day
+  | 'perfectWeekends' // Weekends with Saturday and Sunday both perfect
+  | 'perfectMonths'; // Calendar months with every day perfect
+
+export type AchievementRunningMetric =
+  | 'currentStreak' | 'totalPrayers' | 'jumuahStreak'
+  | 'fajrStreak' | 'maghribStreak' | 'ishaStreak' // Consecutive days with that prayer prayed on its day
+  | 'perfectWeekendStreak'; // Consecutive perfect weekends
+
+export type AchievementRule =
+  | { metric: AchievementPeriodMetric; threshold: number; window: AchievementPeriodWindow }
+  | { metric: AchievementRunningMetric; threshold: number; window: 'ever' }
+  | { metric: 'comebackStreak'; threshold: number; window: 'run' }; // Kept days since the last broken one
+
+export interface AchievementDefinition {
+  id: string; // Stable; stored in each earned achievement's key
+  type: string; // Family the achievement belongs to, e.g. 'streak_milestone'
+  title: string;
+  description: string;
+  icon: AchievementIcon;
+  tier: AchievementTier;
+  rule: AchievementRule;
+}
+
+// A catalog entry with one user's state, as served by GET /api/achievements/catalog
+export interface AchievementCatalogEntry extends AchievementDefinition {
+  unlocked: boolean;
+  earnedCount: number; // Period achievements can be earned once per period
+  lastEarnedDate: string | null;
+  progress: { current: number; target: number }; // For period windows, measured over the current period
+}
+
+export const achievementCatalog: AchievementDefinition[] = [
+  // Perfect periods and consistency
+  { id: 'perfect-day', type: 'perfect_day', title: "Perfect Day", description: "All 5 prayers completed today!", icon: 'check-circle', tier: 'bronze', rule: { metric: 'perfectDayRate', threshold: 100, window: 'day' } },
+  { id: 'perfect-week', type: 'perfect_week', title: "Perfect Week", description: "All 35 prayers completed this week!", icon: 'trophy', tier: 'silver', rule: { metric: 'perfectDayRate', threshold: 100, window: 'week' } },
+  { id: 'perfect-month', type: 'perfect_month', title: "Perfect Month", description: "All prayers completed this month!", icon: 'medal', tier: 'gold', rule: { metric: 'perfectDayRate', threshold: 100, window: 'month' } },
+  { id: 'consistent-week', type: 'consistency', title: "Consistent Devotee", description: "90%+ prayer completion this week!", icon: 'calendar', tier: 'bronze', rule: { metric: 'completionRate', threshold: 90, window: 'week' } },
+  { id: 'consistent-month', type: 'consistency', title: "Monthly Consistency", description: "80%+ prayer completion this month!", icon: 'calendar', tier: 'silver', rule: { metric: 'completionRate', threshold: 80, window: 'month' } },
+
+  // Daily streaks
+  { id: 'streak-7', type: 'streak_milestone', title: "Week Warrior", description: "7-day prayer streak achieved!", icon: 'flame', tier: 'bronze', rule: { metric: 'currentStreak', threshold: 7, window: 'ever' } },
+  { id: 'streak-30', type: 'streak_milestone', title: "Monthly Master", description: "30-day prayer streak achieved!", icon: 'flame', tier: 'silver', rule: { metric: 'currentStreak', threshold: 30, window: 'ever' } },
+  { id: 'streak-50', type: 'streak_milestone', title: "Consistency Champion", description: "50-day prayer streak achieved!", icon: 'flame', tier: 'silver', rule: { metric: 'currentStreak', threshold: 50, window: 'ever' } },
+  { id: 'streak-100', type: 'streak_milestone', title: "Century Devotee", description: "100-day prayer streak achieved!", icon: 'flame', tier: 'gold', rule: { metric: 'currentStreak', threshold: 100, window: 'ever' } },
+  { id: 'streak-200', type: 'streak_milestone', title: "Dedication Legend", description: "200-day prayer streak achieved!", icon: 'flame', tier: 'platinum', rule: { metric: 'currentStreak', threshold: 200, window: 'ever' } },
+  { id: 'streak-365', type: 'streak_milestone', title: "Yearly Devotee", description: "365-day prayer streak achieved!", icon: 'flame', tier: 'platinum', rule: { metric: 'currentStreak', threshold: 365, window: 'ever' } },
+
+  // Total prayers
+  { id: 'prayers-50', type: 'prayer_milestone', title: "Prayer Beginner", description: "50 prayers completed!", icon: 'target', tier: 'bronze', rule: { metric: 'totalPrayers', threshold: 50, window: 'ever' } },
+  { id: 'prayers-100', type: 'prayer_milestone', title: "Prayer Enthusiast", description: "100 prayers completed!", icon: 'target', tier: 'bronze', rule: { metric: 'totalPrayers', threshold: 100, window: 'ever' } },
+  { id: 'prayers-250', type: 'prayer_milestone', title: "Prayer Devotee", description: "250 prayers completed!", icon: 'target', tier: 'silver', rule: { metric: 'totalPrayers', threshold: 250, window: 'ever' } },
+  { id: 'prayers-500', type: 'prayer_milestone', title: "Prayer Champion", description: "500 prayers completed!", icon: 'target', tier: 'silver', rule: { metric: 'totalPrayers', threshold: 500, window: 'ever' } },
+  { id: 'prayers-1000', type: 'prayer_milestone', title: "Prayer Master", description: "1000 prayers completed!", icon: 'target', tier: 'gold', rule: { metric: 'totalPrayers', threshold: 1000, window: 'ever' } },
+  { id: 'prayers-2500', type: 'prayer_milestone', title: "Prayer Legend", description: "2500 prayers completed!", icon: 'target', tier: 'gold', rule: { metric: 'totalPrayers', threshold: 2500, window: 'ever' } },
+  { id: 'prayers-5000', type: 'prayer_milestone', title: "Prayer Saint", description: "5000 prayers completed!", icon: 'target', tier: 'platinum', rule: { metric: 'totalPrayers', threshold: 5000, window: 'ever' } },
+
+  // Jumu'ah attendance
+  { id: 'jumuah-4', type: 'jumuah_milestone', title: "Friday Regular", description: "Attended Jumu'ah 4 Fridays in a row!", icon: 'landmark', tier: 'bronze', rule: { metric: 'jumuahStreak', threshold: 4, window: 'ever' } },
+  { id: 'jumuah-12', type: 'jumuah_milestone', title: "Friday Faithful", description: "Attended Jumu'ah 12 Fridays in a row!", icon: 'landmark', tier: 'silver', rule: { metric: 'jumuahStreak', threshold: 12, window: 'ever' } },
+  { id: 'jumuah-26', type: 'jumuah_milestone', title: "Half-Year of Jumu'ah", description: "Attended Jumu'ah 26 Fridays in a row!", icon: 'landmark', tier: 'gold', rule: { metric: 'jumuahStreak', threshold: 26, window: 'ever' } },
+  { id: 'jumuah-52', type: 'jumuah_milestone', title: "Year of Jumu'ah", description: "Attended Jumu'ah every Friday for a year!", icon: 'landmark', tier: 'platinum', rule: { metric: 'jumuahStreak', threshold: 52, window: 'ever' } },
+
+  // Fajr
+  { id: 'early-bird-3', type: 'early_bird', title: "Early Starter", description: "3 consecutive days of Fajr prayers!", icon: 'star', tier: 'bronze', rule: { metric: 'fajrStreak', threshold: 3, window: 'ever' } },
+  { id: 'early-bird-7', type: 'early_bird', title: "Dawn Devotee", description: "1 week of consistent Fajr prayers!", icon: 'star', tier: 'bronze', rule: { metric: 'fajrStreak', threshold: 7, window: 'ever' } },
+  { id: 'early-bird-15', type: 'early_bird', title: "Morning Master", description: "15 days of Fajr dedication!", icon: 'star', tier: 'silver', rule: { metric: 'fajrStreak', threshold: 15, window: 'ever' } },
+  { id: 'early-bird-30', type: 'early_bird', title: "Fajr Champion", description: "30 days of early morning devotion!", icon: 'star', tier: 'silver', rule: { metric: 'fajrStreak', threshold: 30, window: 'ever' } },
+  { id: 'early-bird-60', type: 'early_bird', title: "Early Bird Legend", description: "60 days of Fajr consistency!", icon: 'star', tier: 'gold', rule: { metric: 'fajrStreak', threshold: 60, window: 'ever' } },
+  { id: 'early-bird-100', type: 'early_bird', title: "Dawn Guardian", description: "100 days of Fajr mastery!", icon: 'star', tier: 'platinum', rule: { metric: 'fajrStreak', threshold: 100, window: 'ever' } },
+
+  // Maghrib
+  { id: 'golden-hour-3', type: 'golden_hour', title: "Sunset Starter", description: "3 consecutive days of Maghrib prayers!", icon: 'sun', tier: 'bronze', rule: { metric: 'maghribStreak', threshold: 3, window: 'ever' } },
+  { id: 'golden-hour-7', type: 'golden_hour', title: "Golden Devotee", description: "1 week of consistent Maghrib prayers!", icon: 'sun', tier: 'bronze', rule: { metric: 'maghribStreak', threshold: 7, window: 'ever' } },
+  { id: 'golden-hour-15', type: 'golden_hour', title: "Sunset Master", description: "15 days of Maghrib dedication!", icon: 'sun', tier: 'silver', rule: { metric: 'maghribStreak', threshold: 15, window: 'ever' } },
+  { id: 'golden-hour-30', type: 'golden_hour', title: "Maghrib Champion", description: "30 days of golden hour devotion!", icon: 'sun', tier: 'silver', rule: { metric: 'maghribStreak', threshold: 30, window: 'ever' } },
+  { id: 'golden-hour-60', type: 'golden_hour', title: "Golden Hour Legend", description: "60 days of Maghrib consistency!", icon: 'sun', tier: 'gold', rule: { metric: 'maghribStreak', threshold: 60, window: 'ever' } },
+  { id: 'golden-hour-100', type: 'golden_hour', title: "Sunset Guardian", description: "100 days of Maghrib mastery!", icon: 'sun', tier: 'platinum', rule: { metric: 'maghribStreak', threshold: 100, window: 'ever' } },
+
+  // Isha
+  { id: 'night-owl-3', type: 'night_owl', title: "Night Starter", description: "3 consecutive nights of Isha prayers!", icon: 'moon', tier: 'bronze', rule: { metric: 'ishaStreak', threshold: 3, window: 'ever' } },
+  { id: 'night-owl-7', type: 'night_owl', title: "Evening Devotee", description: "1 week of consistent Isha prayers!", icon: 'moon', tier: 'bronze', rule: { metric: 'ishaStreak', threshold: 7, window: 'ever' } },
+  { id: 'night-owl-15', type: 'night_owl', title: "Night Master", description: "15 nights of Isha dedication!", icon: 'moon', tier: 'silver', rule: { metric: 'ishaStreak', threshold: 15, window: 'ever' } },
+  { id: 'night-owl-30', type: 'night_owl', title: "Isha Champion", description: "30 nights of evening devotion!", icon: 'moon', tier: 'silver', rule: { metric: 'ishaStreak', threshold: 30, window: 'ever' } },
+  { id: 'night-owl-60', type: 'night_owl', title: "Night Owl Legend", description: "60 nights of Isha consistency!", icon: 'moon', tier: 'gold', rule: { metric: 'ishaStreak', threshold: 60, window: 'ever' } },
+  { id: 'night-owl-100', type: 'night_owl', title: "Night Guardian", description: "100 nights of Isha mastery!", icon: 'moon', tier: 'platinum', rule: { metric: 'ishaStreak', threshold: 100, window: 'ever' } },
+
+  // Weekends
+  { id: 'weekend-warrior-1', type: 'weekend_warrior', title: "Weekend Starter", description: "First perfect weekend achieved!", icon: 'shield', tier: 'bronze', rule: { metric: 'perfectWeekends', threshold: 1, window: 'year' } },
+  { id: 'weekend-warrior-2', type: 'weekend_warrior', title: "Weekend Enthusiast", description: "2 perfect weekends completed!", icon: 'shield', tier: 'bronze', rule: { metric: 'perfectWeekends', threshold: 2, window: 'year' } },
+  { id: 'weekend-warrior-4', type: 'weekend_warrior', title: "Weekend Champion", description: "4 perfect weekends in a month!", icon: 'shield', tier: 'silver', rule: { metric: 'perfectWeekends', threshold: 4, window: 'month' } },
+  { id: 'weekend-warrior-8', type: 'weekend_warrior', title: "Weekend Master", description: "8 perfect weekends achieved!", icon: 'shield', tier: 'silver', rule: { metric: 'perfectWeekends', threshold: 8, window: 'year' } },
+  { id: 'weekend-warrior-12', type: 'weekend_warrior', title: "Weekend Legend", description: "12 perfect weekends completed!", icon: 'shield', tier: 'gold', rule: { metric: 'perfectWeekends', threshold: 12, window: 'year' } },
+  { id: 'weekend-warrior-24', type: 'weekend_warrior', title: "Weekend Guardian", description: "24 perfect weekends mastered!", icon: 'shield', tier: 'platinum', rule: { metric: 'perfectWeekends', threshold: 24, window: 'year' } },
+  { id: 'dedication-3', type: 'dedication', title: "Dedicated Beginner", description: "3 consecutive perfect weekends!", icon: 'crown', tier: 'bronze', rule: { metric: 'perfectWeekendStreak', threshold: 3, window: 'ever' } },
+  { id: 'dedication-7', type: 'dedication', title: "Weekend Devotee", description: "7 consecutive perfect weekends!", icon: 'crown', tier: 'silver', rule: { metric: 'perfectWeekendStreak', threshold: 7, window: 'ever' } },
+  { id: 'dedication-15', type: 'dedication', title: "Dedication Master", description: "15 consecutive perfect weekends!", icon: 'crown', tier: 'gold', rule: { metric: 'perfectWeekendStreak', threshold: 15, window: 'ever' } },
+  { id: 'dedication-30', type: 'dedication', title: "Ultimate Dedication", description: "30 consecutive perfect weekends!", icon: 'crown', tier: 'platinum', rule: { metric: 'perfectWeekendStreak', threshold: 30, window: 'ever' } },
+
+  // Comebacks after missed prayers
+  { id: 'comeback-3', type: 'comeback', title: "Fresh Start", description: "3 days back on track after missing prayers!", icon: 'rotate-ccw', tier: 'bronze', rule: { metric: 'comebackStreak', threshold: 3, window: 'run' } },
+  { id: 'comeback-7', type: 'comeback', title: "Comeback Kid", description: "1 week of prayers after a setback!", icon: 'rotate-ccw', tier: 'silver', rule: { metric: 'comebackStreak', threshold: 7, window: 'run' } },
+  { id: 'comeback-15', type: 'comeback', title: "Resilient Soul", description: "15 days of recovery and dedication!", icon: 'rotate-ccw', tier: 'gold', rule: { metric: 'comebackStreak', threshold: 15, window: 'run' } },
+  { id: 'comeback-30', type: 'comeback', title: "Phoenix Rising", description: "30 days of comeback dedication!", icon: 'rotate-ccw', tier: 'platinum', rule: { metric: 'comebackStreak', threshold: 30, window: 'run' } },
+
+  // Perfect months in a year
+  { id: 'monthly-champion-1', type: 'monthly_champion', title: "Monthly Achiever", description: "First perfect month completed!", icon: 'calendar-days', tier: 'bronze', rule: { metric: 'perfectMonths', threshold: 1, window: 'year' } },
+  { id: 'monthly-champion-2', type: 'monthly_champion', title: "Bi-Monthly Champion", description: "2 perfect months achieved!", icon: 'calendar-days', tier: 'silver', rule: { metric: 'perfectMonths', threshold: 2, window: 'year' } },
+  { id: 'monthly-champion-3', type: 'monthly_champion', title: "Quarterly Master", description: "3 perfect months completed!", icon: 'calendar-days', tier: 'silver', rule: { metric: 'perfectMonths', threshold: 3, window: 'year' } },
+  { id: 'monthly-champion-6', type: 'monthly_champion', title: "Half-Year Champion", description: "6 perfect months achieved!", icon: 'calendar-days', tier: 'gold', rule: { metric: 'perfectMonths', threshold: 6, window: 'year' } },
+  { id: 'monthly-champion-12', type: 'monthly_champion', title: "Yearly Champion", description: "12 perfect months - A full year!", icon: 'calendar-days', tier: 'platinum', rule: { metric: 'perfectMonths', threshold: 12, window: 'year' } },
+
+  // Seasons of the Hijri year
+  { id: 'ramadan-champion', type: 'seasonal', title: "Ramadan Champion", description: "Perfect prayers throughout the holy month!", icon: 'zap', tier: 'gold', rule: { metric: 'perfectDayRate', threshold: 100, window: 'ramadan' } },
+  { id: 'last-ten-nights', type: 'seasonal', title: "Last Ten Nights", description: "Perfect prayers through the last ten nights of Ramadan!", icon: 'zap', tier: 'silver', rule: { metric: 'perfectDayRate', threshold: 100, window: 'last-ten-nights' } },
+  { id: 'day-of-arafah', type: 'seasonal', title: "Day of Arafah", description: "All five prayers on the Day of Arafah!", icon: 'zap', tier: 'bronze', rule: { metric: 'perfectDayRate', threshold: 100, window: 'arafah' } },
+  { id: 'blessed-ten-days', type: 'seasonal', title: "Blessed Ten Days", description: "Perfect prayers through the first ten days of Dhul Hijjah!", icon: 'zap', tier: 'silver', rule: { metric: 'perfectDayRate', threshold: 100, window: 'dhul-hijjah-ten' } },
+  { id: 'day-of-ashura', type: 'seasonal', title: "Day of Ashura", description: "All five prayers on the Day of Ashura!", icon: 'zap', tier: 'bronze', rule: { metric: 'perfectDayRate', threshold: 100, window: 'ashura' } },
+];
@@ -0,0 +1,169 @@
+// Gregorian <-> Hijri conversion shared by the server and the client.
+// Dates between 1300 and 1500 AH follow the Umm al-Qura calendar of Saudi Arabia;
+// outside that range the arithmetic (Kuwaiti) tabular calendar is used.
+
+export interface HijriDate {
+  year: number;
+  month: number; // 1 = Muharram ... 12 = Dhu al-Hijjah
+  day: number;
+}
+
+export const HIJRI_MONTH_NAMES = [
+  "Muharram", "Safar", "Rabi' I", "Rabi' II", "Jumada I", "Jumada II",
+  "Rajab", "Sha'ban", "Ramadan", "Shawwal", "Dhu al-Qi'dah", "Dhu al-Hijjah",
+];
+
+// Month numbers referenced by seasonal features
+export const HIJRI_MONTHS = {
+  muharram: 1,
+  ramadan: 9,
+  shawwal: 10,
+  dhulHijjah: 12,
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Umm al-Qura month lengths for 1300-1500 AH, one entry per year.
+// Bit n set means month n + 1 has 30 days, otherwise 29.
+const UMM_AL_QURA_START_YEAR = 1300;
+const UMM_AL_QURA_MONTHS = [
+  0x555, 0x2ab, 0x937, 0x2b6, 0x576, 0x36c, 0xb55, 0xaaa, 0x956, 0x49e,
+  0x95d, 0x2ba, 0x5b5, 0x3aa, 0xb4b, 0xa96, 0x52e, 0x2ad, 0x56d, 0xb5a,
+  0x752, 0xf25, 0xe8a, 0xd16, 0xa56, 0xab5, 0x6b4, 0xda9, 0xb92, 0xb25,
+  0x64b, 0xa9b, 0x35a, 0x6d9, 0x5d4, 0xda5, 0xd4a, 0xa95, 0x536, 0x975,
+  0x2f4, 0x6e9, 0x6d4, 0x6a9, 0x535, 0x25d, 0x4bd, 0x9ba, 0x3b4, 0xb69,
+  0xb2a, 0xa55, 0x4ad, 0xa5d, 0x2da, 0x6d9, 0xeaa, 0xe94, 0xd2a, 0xc56,
+  0x4ae, 0xa6d, 0x56a, 0xd55, 0xd4a, 0xa93, 0x52b, 0xa5b, 0x53a, 0x6b5,
+  0xea9, 0xd52, 0xd29, 0xa55, 0x4ad, 0x56d, 0xaea, 0x6e4, 0xed1, 0xda2,
+  0xaaa, 0x95a, 0x2da, 0x5b9, 0xbb2, 0x764, 0x6c9, 0x555, 0x2ab, 0x4db,
+  0xaba, 0x5b4, 0xda9, 0xd52, 0xaa5, 0x92d, 0x26d, 0x8ed, 0x2da, 0xad5,
+  0xaa5, 0xa4b, 0x497, 0x937, 0x2b6, 0x975, 0xd69, 0xd52, 0xc95, 0x92b,
+  0x25b, 0x4db, 0x9d5, 0x5d2, 0xda5, 0xd4a, 0xa95, 0x54d, 0xaad, 0x3aa,
+  0xbd2, 0xbc4, 0xb89, 0xa95, 0x52d, 0x5ad, 0xb6a, 0x6d4, 0xdc9, 0xd92,
+  0xaa6, 0x956, 0x2ae, 0x56d, 0x36a, 0xb55, 0xaaa, 0x94d, 0x49d, 0x95d,
+  0x2ba, 0x5b5, 0x5aa, 0xd55, 0xa9a, 0x92e, 0x26e, 0x55d, 0xada, 0x6d4,
+  0x6a5, 0xb27, 0xa4d, 0x4ad, 0x56d, 0xb5a, 0x754, 0xf49, 0xe92, 0xd26,
+  0xa56, 0x356, 0x6b5, 0xbaa, 0xb92, 0xb25, 0x68b, 0xa9b, 0x55a, 0xada,
+  0x5b4, 0xda9, 0xb52, 0xa9a, 0x536, 0x276, 0x575, 0xaf2, 0x6d4, 0x6a9,
+  0x555, 0x2ad, 0x4bd, 0x9ba, 0x574, 0xb69, 0xb52, 0xa95, 0x52d, 0xa5d,
+  0x4da, 0xad9, 0x6b2, 0xe95, 0xe2a, 0xc96, 0x92e, 0xaad, 0x56a, 0xd65,
+  0xd4a,
+];
+const UMM_AL_QURA_END_YEAR = UMM_AL_QURA_START_YEAR + UMM_AL_QURA_MONTHS.length - 1;
+
+// 1 Muharram 1300 AH, in days since 1970-01-01
+const UMM_AL_QURA_EPOCH_DAY = Date.UTC(1882, 10, 12) / DAY_MS;
+
+// Day number of 1 Muharram for each year in the table, plus the day after the table ends
+const ummAlQuraYearStarts: number[] = UMM_AL_QURA_MONTHS.reduce(
+  (starts, _mask, index) => [...starts, starts[index] + ummAlQuraYearLength(UMM_AL_QURA_START_YEAR + index)],
+  [UMM_AL_QURA_EPOCH_DAY],
+);
+
+// 1 Muharram 1 AH in the civil (Kuwaiti) tabular calendar, in days since 1970-01-01
+const KUWAITI_EPOCH_DAY = -492148;
+
+function ummAlQuraMonthLength(year: number, month: number): number {
+  return (UMM_AL_QURA_MONTHS[year - UMM_AL_QURA_START_YEAR] >> (month - 1)) & 1 ? 30 : 29;
+}
+
+function ummAlQuraYearLength(year: number): number {
+  let length = 0;
+  for (let month = 1; month <= 12; month++) {
+    length += ummAlQuraMonthLength(year, month);
+  }
+  return length;
+}
+
+function isUmmAlQuraYear(year: number): boolean {
+  return year >= UMM_AL_QURA_START_YEAR && year <= UMM_AL_QURA_END_YEAR;
+}
+
+// Kuwaiti leap years (30 days in Dhu al-Hijjah) fall on years 2, 5, 7, 10, 13, 16, 18, 21, 24, 26 and 29 of each 30-year cycle
+function kuwaitiToDayNumber({ year, month, day }: HijriDate): number {
+  return KUWAITI_EPOCH_DAY + (year - 1) * 354 + Math.floor((3 + 11 * year) / 30) + Math.ceil(29.5 * (month - 1)) + day - 1;
+}
+
+function dayNumberToKuwaiti(dayNumber: number): HijriDate {
+  const year = Math.floor((30 * (dayNumber - KUWAITI_EPOCH_DAY) + 10646) / 10631);
+  const month = Math.min(12, Math.ceil((dayNumber - 29 - kuwaitiToDayNumber({ year, month: 1, day: 1 })) / 29.5) + 1);
+  const day = dayNumber - kuwaitiToDayNumber({ year, month, day: 1 }) + 1;
+  return { year, month, day };
+}
+
+function dayNumberToHijri(dayNumber: number): HijriDate {
+  const lastDay = ummAlQuraYearStarts[ummAlQuraYearStarts.length - 1];
+  if (dayNumber < UMM_AL_QURA_EPOCH_DAY || dayNumber >= lastDay) {
+    return dayNumberToKuwaiti(dayNumber);
+  }
+
+  let yearIndex = 0;
+  while (ummAlQuraYearStarts[yearIndex + 1] <= dayNumber) {
+    yearIndex++;
+  }
+  const year = UMM_AL_QURA_START_YEAR + yearIndex;
+
+  let day = dayNumber - ummAlQuraYearStarts[yearIndex] + 1;
+  let month = 1;
+  while (day > ummAlQuraMonthLength(year, month)) {
+    day -= ummAlQuraMonthLength(year, month);
+    month++;
+  }
+  return { year, month, day };
+}
+
+function hijriToDayNumber(hijri: HijriDate): number {
+  if (!isUmmAlQuraYear(hijri.year)) {
+    return kuwaitiToDayNumber(hijri);
+  }
+
+  let dayNumber = ummAlQuraYearStarts[hijri.year - UMM_AL_QURA_START_YEAR];
+  for (let month = 1; month < hijri.month; month++) {
+    dayNumber += ummAlQuraMonthLength(hijri.year, month);
+  }
+  return dayNumber + hijri.day - 1;
+}
+
+// YYYY-MM-DD <-> days since 1970-01-01
+function dateStringToDayNumber(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+function dayNumberToDateString(dayNumber: number): string {
+  return new Date(dayNumber * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Convert a Gregorian calendar date (YYYY-MM-DD) to its Hijri date.
+ * A positive adjustment moves the Hijri date forward, e.g. when the new moon
+ * was sighted locally a day earlier than the calendar predicts.
+ */
+export function toHijri(date: string, adjustment: number = 0): HijriDate {
+  return dayNumberToHijri(dateStringToDayNumber(date) + adjustment);
+}
+
+/**
+ * Convert a Hijri date to its Gregorian calendar date (YYYY-MM-DD), undoing the same adjustment as `toHijri`
+ */
+export function toGregorian(hijri: HijriDate, adjustment: number = 0): string {
+  return dayNumberToDateString(hijriToDayNumber(hijri) - adjustment);
+}
+
+/**
+ * Number of days (29 or 30) in a Hijri month
+ */
+export function getHijriMonthLength(year: number, month: number): number {
+  if (isUmmAlQuraYear(year)) {
+    return ummAlQuraMonthLength(year, month);
+  }
+  const next = month === 12 ? { year: year + 1, month: 1, day: 1 } : { year, month: month + 1, day: 1 };
+  return kuwaitiToDayNumber(next) - kuwaitiToDayNumber({ year, month, day: 1 });
+}
+
+/**
+ * Format a Hijri date for display (e.g. "26 Rabi' II 1447")
+ */
+export function formatHijriDate({ year, month, day }: HijriDate): string {
+  return `${day} ${HIJRI_MONTH_NAMES[month - 1]} ${year}`;
+}
@@ -0,0 +1,77 @@
+// Prayer states shared by the server and the client.
+// - on-time: prayed within its window
+// - late: prayed after its window closed, before the next day's Fajr
+// - made-up: prayed later as qaza
+// - missed: not prayed yet (still owed)
+// - excused: not required, e.g. during illness or menstruation
+
+export const prayerStates = ['on-time', 'late', 'made-up', 'missed', 'excused'] as const;
+export type PrayerState = typeof prayerStates[number];
+
+// The part of a stored prayer entry needed to work out its state
+interface PrayerEntry {
+  completed: boolean;
+  onTime: boolean;
+  status?: PrayerState;
+}
+
+/**
+ * Read a prayer's state. Entries saved before states existed only carry the
+ * `completed` and `onTime` flags; completed entries that were not on time came
+ * from marking past days, so they are treated as made up.
+ */
+export function getPrayerState(prayer: PrayerEntry): PrayerState {
+  if (prayer.status) {
+    return prayer.status;
+  }
+  if (!prayer.completed) {
+    return 'missed';
+  }
+  return prayer.onTime ? 'on-time' : 'made-up';
+}
+
+/**
+ * Whether the prayer was performed at all, whenever that was
+ */
+export function isPrayerPerformed(state: PrayerState): boolean {
+  return state === 'on-time' || state === 'late' || state === 'made-up';
+}
+
+/**
+ * How a day affects a streak:
+ * - kept: every prayer was prayed on its day (on time or late) or excused
+ * - excused: every prayer was excused, so the streak neither grows nor breaks
+ * - broken: at least one prayer was missed or only made up later
+ */
+export function getDayStreakState<T extends Record<keyof T, PrayerEntry>>(prayers: T): 'kept' | 'excused' | 'broken' {
+  const states = (Object.values(prayers) as PrayerEntry[]).map(getPrayerState);
+
+  if (states.every(state => state === 'excused')) {
+    return 'excused';
+  }
+  const keptDay = states.every(state => state === 'on-time' || state === 'late' || state === 'excused');
+  return keptDay ? 'kept' : 'broken';
+}
+
+/**
+ * Build the stored entry for a state, keeping the legacy flags in sync
+ */
+export function toPrayerEntry(state: PrayerState, completedAt?: string): { completed: boolean; onTime: boolean; completedAt?: string; status: PrayerState } {
+  return isPrayerPerformed(state)
+    ? { completed: true, onTime: state === 'on-time', completedAt, status: state }
+    : { completed: false, onTime: false, status: state };
+}
+
+// The part of an excused or travel period needed to check a date against it
+interface DatePeriod {
+  startDate: string;
+  endDate: string | null;
+}
+
+/**
+ * Whether a YYYY-MM-DD date falls inside any of the periods. Periods without
+ * an end date are still ongoing and cover every date from their start.
+ */
+export function isDateInPeriods(date: string, periods: DatePeriod[]): boolean {
+  return periods.some(period => period.startDate <= date && (!period.endDate || date <= period.endDate));
+}
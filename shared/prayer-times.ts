@@ -0,0 +1,414 @@
+// Astronomical prayer time engine shared by the server and the client.
+// Solar position follows the low-precision formulas from the U.S. Naval Observatory
+// (accurate to about a minute between 1950 and 2050), the same basis used by praytimes.org.
+
+export type PrayerTimeKey = 'fajr' | 'sunrise' | 'dhuhr' | 'asr' | 'maghrib' | 'isha';
+
+export type PrayerSchedule = Record<PrayerTimeKey, Date>;
+
+export interface PrayerLocation {
+  latitude: number;
+  longitude: number;
+  timezone: string; // IANA zone, e.g. "Europe/London"
+}
+
+export interface CalculationParameters {
+  fajrAngle: number; // Sun depression below the horizon at Fajr, in degrees
+  ishaAngle: number; // Sun depression below the horizon at Isha, in degrees
+  ishaInterval?: number; // Minutes after Maghrib; takes precedence over ishaAngle when set
+  maghribAngle?: number; // Sun depression at Maghrib; sunset is used when unset
+  asrFactor: number; // Shadow length factor for Asr (1 = shadow equals object length)
+  highLatitudeRule?: HighLatitudeRule; // Defaults to 'none'
+  offsets?: PrayerTimeOffsets; // Minutes added to each computed time
+}
+
+// How Fajr and Isha are bounded when twilight lasts all night (or nearly so)
+// - middleOfNight: no earlier/later than the middle of the night
+// - oneSeventh: within the last/first seventh of the night
+// - angleBased: within angle/60 of the night (e.g. 18° -> 18/60 of the night)
+export type HighLatitudeRule = 'none' | 'middleOfNight' | 'oneSeventh' | 'angleBased';
+
+export type PrayerTimeOffsets = Partial<Record<PrayerTimeKey, number>>;
+
+export type CalculationMethod = 'MWL' | 'ISNA' | 'Egypt' | 'Makkah' | 'Karachi' | 'Tehran' | 'Custom';
+
+// Shafi'i, Maliki and Hanbali schools use the standard shadow factor; Hanafi uses twice the length
+export type AsrMethod = 'standard' | 'hanafi';
+
+export const CALCULATION_METHODS: Record<Exclude<CalculationMethod, 'Custom'>, {
+  name: string;
+  fajrAngle: number;
+  ishaAngle: number;
+  ishaInterval?: number;
+  maghribAngle?: number;
+}> = {
+  MWL: { name: 'Muslim World League', fajrAngle: 18, ishaAngle: 17 },
+  ISNA: { name: 'Islamic Society of North America', fajrAngle: 15, ishaAngle: 15 },
+  Egypt: { name: 'Egyptian General Authority of Survey', fajrAngle: 19.5, ishaAngle: 17.5 },
+  Makkah: { name: 'Umm al-Qura University, Makkah', fajrAngle: 18.5, ishaAngle: 0, ishaInterval: 90 },
+  Karachi: { name: 'University of Islamic Sciences, Karachi', fajrAngle: 18, ishaAngle: 18 },
+  Tehran: { name: 'Institute of Geophysics, University of Tehran', fajrAngle: 17.7, ishaAngle: 14, maghribAngle: 4.5 },
+};
+
+export const ASR_FACTORS: Record<AsrMethod, number> = {
+  standard: 1,
+  hanafi: 2,
+};
+
+// The calculation choices a user can store with their settings
+export interface PrayerCalculationSettings {
+  calculationMethod: CalculationMethod;
+  asrMethod: AsrMethod;
+  customFajrAngle?: number | null;
+  customIshaAngle?: number | null;
+  customIshaInterval?: number | null;
+  highLatitudeRule?: HighLatitudeRule | null;
+  prayerOffsets?: PrayerTimeOffsets | null;
+}
+
+// Used until the user has chosen a location
+export const DEFAULT_PRAYER_LOCATION: PrayerLocation = {
+  latitude: 21.4225,
+  longitude: 39.8262,
+  timezone: 'Asia/Riyadh',
+};
+
+export const DEFAULT_CALCULATION_PARAMETERS: CalculationParameters = {
+  fajrAngle: 18,
+  ishaAngle: 17,
+  asrFactor: 1,
+};
+
+/**
+ * Turn a user's stored calculation choices into engine parameters.
+ * Missing or incomplete custom values fall back to the Muslim World League angles,
+ * and the middle-of-night rule applies unless the user picked another.
+ */
+export function resolveCalculationParameters(settings?: Partial<PrayerCalculationSettings> | null): CalculationParameters {
+  const method = settings?.calculationMethod ?? 'MWL';
+  const asrFactor = ASR_FACTORS[settings?.asrMethod ?? 'standard'];
+  const highLatitudeRule = settings?.highLatitudeRule ?? 'middleOfNight';
+  const offsets = settings?.prayerOffsets ?? {};
+
+  if (method === 'Custom') {
+    const fallback = CALCULATION_METHODS.MWL;
+    return {
+      fajrAngle: settings?.customFajrAngle ?? fallback.fajrAngle,
+      ishaAngle: settings?.customIshaAngle ?? fallback.ishaAngle,
+      ishaInterval: settings?.customIshaInterval ?? undefined,
+      asrFactor,
+      highLatitudeRule,
+      offsets,
+    };
+  }
+
+  const { fajrAngle, ishaAngle, ishaInterval, maghribAngle } = CALCULATION_METHODS[method];
+  return { fajrAngle, ishaAngle, ishaInterval, maghribAngle, asrFactor, highLatitudeRule, offsets };
+}
+
+// The location fields a user can store with their settings
+export interface PrayerLocationSettings {
+  latitude?: number | null;
+  longitude?: number | null;
+  timezone?: string | null;
+}
+
+/**
+ * Turn a user's stored location into an engine location.
+ * Coordinates fall back to the default location until both are set;
+ * the time zone falls back on its own.
+ */
+export function resolvePrayerLocation(settings?: PrayerLocationSettings | null): PrayerLocation {
+  const timezone = settings?.timezone ?? DEFAULT_PRAYER_LOCATION.timezone;
+  if (settings?.latitude == null || settings?.longitude == null) {
+    return { ...DEFAULT_PRAYER_LOCATION, timezone };
+  }
+  return { latitude: settings.latitude, longitude: settings.longitude, timezone };
+}
+
+export const PRAYER_TIME_KEYS: PrayerTimeKey[] = ['fajr', 'sunrise', 'dhuhr', 'asr', 'maghrib', 'isha'];
+
+// Atmospheric refraction plus the sun's apparent radius
+const SUNRISE_ANGLE = 0.833;
+
+// Degree-based trigonometry helpers
+const dtr = (d: number) => (d * Math.PI) / 180;
+const rtd = (r: number) => (r * 180) / Math.PI;
+const dsin = (d: number) => Math.sin(dtr(d));
+const dcos = (d: number) => Math.cos(dtr(d));
+const dtan = (d: number) => Math.tan(dtr(d));
+const darcsin = (x: number) => rtd(Math.asin(x));
+const darccos = (x: number) => rtd(Math.acos(x));
+const darctan2 = (y: number, x: number) => rtd(Math.atan2(y, x));
+const darccot = (x: number) => rtd(Math.atan(1 / x));
+
+const fixAngle = (a: number) => a - 360 * Math.floor(a / 360);
+const fixHour = (h: number) => h - 24 * Math.floor(h / 24);
+
+// Hours from t1 forward to t2, wrapping past midnight
+const timeDiff = (t1: number, t2: number) => fixHour(t2 - t1);
+
+// Longest stretch of the night Fajr or Isha may be away from sunrise or sunset
+function nightPortion(rule: Exclude<HighLatitudeRule, 'none'>, angle: number, night: number): number {
+  switch (rule) {
+    case 'middleOfNight':
+      return night / 2;
+    case 'oneSeventh':
+      return night / 7;
+    case 'angleBased':
+      return (angle / 60) * night;
+  }
+}
+
+function julianDate(year: number, month: number, day: number): number {
+  if (month <= 2) {
+    year -= 1;
+    month += 12;
+  }
+  const a = Math.floor(year / 100);
+  const b = 2 - a + Math.floor(a / 4);
+  return Math.floor(365.25 * (year + 4716)) + Math.floor(30.6001 * (month + 1)) + day + b - 1524.5;
+}
+
+// Sun declination and equation of time for a given Julian date
+function sunPosition(jd: number): { declination: number; equation: number } {
+  const d = jd - 2451545.0;
+  const g = fixAngle(357.529 + 0.98560028 * d);
+  const q = fixAngle(280.459 + 0.98564736 * d);
+  const l = fixAngle(q + 1.915 * dsin(g) + 0.020 * dsin(2 * g));
+  const e = 23.439 - 0.00000036 * d;
+
+  const ra = darctan2(dcos(e) * dsin(l), dcos(l)) / 15;
+  const equation = q / 15 - fixHour(ra);
+  const declination = darcsin(dsin(e) * dsin(l));
+
+  return { declination, equation };
+}
+
+/**
+ * Parse a YYYY-MM-DD string into its numeric parts
+ */
+function parseDateString(date: string): { year: number; month: number; day: number } {
+  const [year, month, day] = date.split('-').map(Number);
+  return { year, month, day };
+}
+
+/**
+ * Format an instant as a YYYY-MM-DD calendar date in the given time zone
+ */
+export function toDateStringInTimeZone(instant: Date, timezone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return instant.toLocaleDateString('en-CA', { timeZone: timezone });
+}
+
+// The settings that decide which day a user is logging prayers for
+export type PrayerDaySettings = PrayerLocationSettings & Partial<PrayerCalculationSettings> & {
+  dayStartsAtFajr?: boolean | null;
+};
+
+/**
+ * The YYYY-MM-DD day a user is logging prayers for at an instant, in their time zone.
+ * With `dayStartsAtFajr` the day rolls over at Fajr rather than midnight, so Isha
+ * prayed after midnight still counts toward the evening it belongs to.
+ */
+export function getPrayerDate(instant: Date, settings?: PrayerDaySettings | null): string {
+  const location = resolvePrayerLocation(settings);
+  const date = toDateStringInTimeZone(instant, location.timezone);
+  if (!settings?.dayStartsAtFajr) {
+    return date;
+  }
+  
+  const fajr = calculatePrayerTimes(date, location, resolveCalculationParameters(settings)).fajr;
+  return instant.getTime() < fajr.getTime() ? addDaysToDateString(date, -1) : date;
+}
+
+/**
+ * Add a number of days to a YYYY-MM-DD string
+ */
+export function addDaysToDateString(date: string, days: number): string {
+  const { year, month, day } = parseDateString(date);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+/**
+ * Whether a YYYY-MM-DD date is a Friday, when Jumu'ah takes the place of Dhuhr.
+ */
+export function isFriday(date: string): boolean {
+  const { year, month, day } = parseDateString(date);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay() === 5;
+}
+
+/**
+ * Compute the prayer schedule for a calendar date at a location.
+ * Returned values are absolute instants; format them with `formatPrayerTime`.
+ * When the sun never reaches the required depression (high latitudes in summer)
+ * the affected times are Invalid Dates unless a high-latitude rule is set.
+ * Per-prayer offsets are applied last.
+ */
+export function calculatePrayerTimes(
+  date: string,
+  location: PrayerLocation,
+  params: CalculationParameters = DEFAULT_CALCULATION_PARAMETERS,
+): PrayerSchedule {
+  const { year, month, day } = parseDateString(date);
+  const { latitude, longitude } = location;
+  const jd = julianDate(year, month, day) - longitude / (15 * 24);
+
+  // Hours in local solar time; `time` is the first guess used to sample the sun's position
+  const midDay = (time: number) => fixHour(12 - sunPosition(jd + time / 24).equation);
+
+  const sunAngleTime = (angle: number, time: number, direction: 'ccw' | 'cw') => {
+    const { declination } = sunPosition(jd + time / 24);
+    const noon = midDay(time);
+    const t = darccos((-dsin(angle) - dsin(declination) * dsin(latitude)) / (dcos(declination) * dcos(latitude))) / 15;
+    return noon + (direction === 'ccw' ? -t : t);
+  };
+
+  const asrTime = (factor: number, time: number) => {
+    const { declination } = sunPosition(jd + time / 24);
+    const angle = -darccot(factor + dtan(Math.abs(latitude - declination)));
+    return sunAngleTime(angle, time, 'cw');
+  };
+
+  // Initial guesses, refined by sampling the sun at each approximate time
+  let fajr = sunAngleTime(params.fajrAngle, 5, 'ccw');
+  const sunrise = sunAngleTime(SUNRISE_ANGLE, 6, 'ccw');
+  const dhuhr = midDay(12);
+  const asr = asrTime(params.asrFactor, 13);
+  const sunset = sunAngleTime(SUNRISE_ANGLE, 18, 'cw');
+  let maghrib = params.maghribAngle !== undefined ? sunAngleTime(params.maghribAngle, 18, 'cw') : sunset;
+  let isha = params.ishaInterval !== undefined
+    ? maghrib + params.ishaInterval / 60
+    : sunAngleTime(params.ishaAngle, 18, 'cw');
+
+  // Clamp twilight times that are missing or too far into the night
+  const rule = params.highLatitudeRule ?? 'none';
+  if (rule !== 'none') {
+    const night = timeDiff(sunset, sunrise);
+
+    const fajrPortion = nightPortion(rule, params.fajrAngle, night);
+    if (isNaN(fajr) || timeDiff(fajr, sunrise) > fajrPortion) {
+      fajr = sunrise - fajrPortion;
+    }
+
+    if (params.ishaInterval === undefined) {
+      const ishaPortion = nightPortion(rule, params.ishaAngle, night);
+      if (isNaN(isha) || timeDiff(sunset, isha) > ishaPortion) {
+        isha = sunset + ishaPortion;
+      }
+    }
+
+    if (params.maghribAngle !== undefined) {
+      const maghribPortion = nightPortion(rule, params.maghribAngle, night);
+      if (isNaN(maghrib) || timeDiff(sunset, maghrib) > maghribPortion) {
+        maghrib = sunset + maghribPortion;
+      }
+    }
+  }
+
+  // Local solar hours -> UTC instants on the requested date
+  const dayStart = Date.UTC(year, month - 1, day);
+  const offsets = params.offsets ?? {};
+  const toInstant = (key: PrayerTimeKey, hours: number) =>
+    new Date(dayStart + (hours - longitude / 15 + (offsets[key] ?? 0) / 60) * 60 * 60 * 1000);
+
+  return {
+    fajr: toInstant('fajr', fajr),
+    sunrise: toInstant('sunrise', sunrise),
+    dhuhr: toInstant('dhuhr', dhuhr),
+    asr: toInstant('asr', asr),
+    maghrib: toInstant('maghrib', maghrib),
+    isha: toInstant('isha', isha),
+  };
+}
+
+export type ObligatoryPrayer = Exclude<PrayerTimeKey, 'sunrise'>;
+
+// When a prayer was completed relative to its window; see PrayerState in prayer-status.ts
+export type PrayerTiming = 'on-time' | 'late' | 'made-up';
+
+// Pairs a traveller may combine, first prayer of each pair first
+export const COMBINABLE_PAIRS: Array<[ObligatoryPrayer, ObligatoryPrayer]> = [['dhuhr', 'asr'], ['maghrib', 'isha']];
+
+// Four-rak'ah prayers a traveller shortens to two
+export const SHORTENED_PRAYERS: ObligatoryPrayer[] = ['dhuhr', 'asr', 'isha'];
+
+/**
+ * The prayer a traveller may combine with `prayer`, if any
+ */
+export function getCombinablePartner(prayer: ObligatoryPrayer): ObligatoryPrayer | undefined {
+  const pair = COMBINABLE_PAIRS.find(([first, second]) => first === prayer || second === prayer);
+  if (!pair) {
+    return undefined;
+  }
+  return pair[0] === prayer ? pair[1] : pair[0];
+}
+
+/**
+ * Start and end of a prayer's window on a calendar date.
+ * Each window closes when the next prayer begins; Fajr closes at sunrise
+ * and Isha at the next day's Fajr. With `combine` (while travelling), Dhuhr
+ * and Asr share one window from Dhuhr to Maghrib, and Maghrib and Isha one
+ * from Maghrib to the next Fajr.
+ */
+export function getPrayerWindow(
+  prayer: ObligatoryPrayer,
+  date: string,
+  location: PrayerLocation,
+  params: CalculationParameters = DEFAULT_CALCULATION_PARAMETERS,
+  combine: boolean = false,
+): { start: Date; end: Date } {
+  const schedule = calculatePrayerTimes(date, location, params);
+  const windowEnds: Record<ObligatoryPrayer, () => Date> = {
+    fajr: () => schedule.sunrise,
+    dhuhr: () => schedule.asr,
+    asr: () => schedule.maghrib,
+    maghrib: () => schedule.isha,
+    isha: () => calculatePrayerTimes(addDaysToDateString(date, 1), location, params).fajr,
+  };
+  
+  const pair = combine ? COMBINABLE_PAIRS.find(([first, second]) => first === prayer || second === prayer) : undefined;
+  if (pair) {
+    return { start: schedule[pair[0]], end: windowEnds[pair[1]]() };
+  }
+  return { start: schedule[prayer], end: windowEnds[prayer]() };
+}
+
+/**
+ * Classify a completion time against the prayer's window.
+ * Returns 'early' when the window has not opened yet, which callers should not record.
+ * Pass `combine` on travel days to use the combined windows.
+ */
+export function classifyPrayerCompletion(
+  prayer: ObligatoryPrayer,
+  date: string,
+  completedAt: Date,
+  location: PrayerLocation,
+  params: CalculationParameters = DEFAULT_CALCULATION_PARAMETERS,
+  combine: boolean = false,
+): PrayerTiming | 'early' {
+  const { start, end } = getPrayerWindow(prayer, date, location, params, combine);
+  const nextFajr = calculatePrayerTimes(addDaysToDateString(date, 1), location, params).fajr;
+  const time = completedAt.getTime();
+
+  // Times that could not be computed (no high-latitude rule) never open or close a window
+  const isBefore = (boundary: Date) => isNaN(boundary.getTime()) || time < boundary.getTime();
+
+  if (!isNaN(start.getTime()) && time < start.getTime()) {
+    return 'early';
+  }
+  if (isBefore(end)) {
+    return 'on-time';
+  }
+  return isBefore(nextFajr) ? 'late' : 'made-up';
+}
+
+/**
+ * Format a computed prayer time for display (e.g. "5:30 AM") in the location's time zone
+ */
+export function formatPrayerTime(time: Date, timezone: string, locale: string = 'en-US'): string {
+  if (isNaN(time.getTime())) {
+    return '--:--';
+  }
+  return time.toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit', hour12: true, timeZone: timezone });
+}
@@ -0,0 +1,67 @@
+// Lifetime qaza estimate for users who start tracking with years of missed prayers behind them.
+// Shared so the onboarding form can preview exactly what the server will seed into the ledger.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AVERAGE_DAYS_PER_MONTH = 30.44;
+
+export interface PrayedPeriod {
+  startDate: string; // YYYY-MM-DD, inclusive
+  endDate: string; // YYYY-MM-DD, inclusive
+}
+
+export interface QazaEstimateAssumptions {
+  maturityDate: string; // YYYY-MM-DD, first day prayers were owed
+  trackingStartDate: string; // YYYY-MM-DD, first day covered by daily records; not part of the estimate
+  prayedPeriods: PrayedPeriod[]; // Stretches when prayers were reliably prayed
+  excusedDaysPerMonth: number; // Average days a month when prayers were not owed, e.g. menstruation
+  additionalExcusedDays: number; // One-off excused days, e.g. postpartum
+}
+
+export interface QazaEstimateResult {
+  totalDays: number;
+  prayedDays: number;
+  excusedDays: number;
+  owedDays: number;
+  prayersOwed: number; // Per prayer type; each of the five is owed once per owed day
+}
+
+// Helper function to count days from one YYYY-MM-DD date to another
+function daysBetween(startDate: string, endDate: string): number {
+  return Math.round((Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${startDate}T00:00:00Z`)) / DAY_MS);
+}
+
+/**
+ * Estimate the prayers owed for each prayer type between maturity and the start of tracking.
+ * Prayed periods are clipped to that range and may overlap; excused days are only taken
+ * from days that were not prayed.
+ */
+export function estimateLifetimeQaza(assumptions: QazaEstimateAssumptions): QazaEstimateResult {
+  const { maturityDate, trackingStartDate } = assumptions;
+  const totalDays = Math.max(0, daysBetween(maturityDate, trackingStartDate));
+
+  // Merge prayed periods as [start, end) day offsets from maturity so overlaps count once
+  const ranges = assumptions.prayedPeriods
+    .map(period => [
+      Math.max(0, daysBetween(maturityDate, period.startDate)),
+      Math.min(totalDays, daysBetween(maturityDate, period.endDate) + 1),
+    ])
+    .filter(([start, end]) => start < end)
+    .sort((a, b) => a[0] - b[0]);
+
+  let prayedDays = 0;
+  let coveredUntil = 0;
+  ranges.forEach(([start, end]) => {
+    const from = Math.max(start, coveredUntil);
+    if (end > from) {
+      prayedDays += end - from;
+      coveredUntil = end;
+    }
+  });
+
+  const unprayedDays = totalDays - prayedDays;
+  const monthlyExcused = Math.round((unprayedDays / AVERAGE_DAYS_PER_MONTH) * assumptions.excusedDaysPerMonth);
+  const excusedDays = Math.min(unprayedDays, monthlyExcused + assumptions.additionalExcusedDays);
+  const owedDays = unprayedDays - excusedDays;
+
+  return { totalDays, prayedDays, excusedDays, owedDays, prayersOwed: owedDays };
+}
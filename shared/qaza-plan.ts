@@ -0,0 +1,54 @@
+// Qaza repayment plan: a daily make-up quota per prayer type and the finish date it leads to.
+
+import { addDaysToDateString } from "./prayer-times";
+import { prayerTypes, type PrayerType, type QazaBalance, type QazaPlan } from "./schema";
+
+export interface QazaPlanPrayerProgress {
+  remaining: number; // Still owed after every credit so far, including today's
+  madeUpToday: number;
+  dueToday: number; // Left of today's quota, never more than is still owed
+}
+
+export interface QazaPlanProgress {
+  date: string; // YYYY-MM-DD, the user's today
+  dailyQuota: number;
+  prayers: Record<PrayerType, QazaPlanPrayerProgress>;
+  quotaMetToday: boolean;
+  projectedFinishDate: string | null; // null once nothing is owed
+}
+
+export interface QazaPlanStatus {
+  plan: QazaPlan;
+  progress: QazaPlanProgress;
+}
+
+/**
+ * Project a repayment plan from the current balance and today's make-ups.
+ * Today's outstanding quota is assumed to be prayed today; every later day
+ * makes up the full quota until the largest balance is cleared.
+ */
+export function projectQazaPlan(
+  balance: QazaBalance,
+  madeUpToday: Partial<Record<PrayerType, number>>,
+  dailyQuota: number,
+  today: string
+): QazaPlanProgress {
+  const prayers = {} as Record<PrayerType, QazaPlanPrayerProgress>;
+  let daysAfterToday = 0;
+
+  prayerTypes.forEach(prayer => {
+    const remaining = balance[prayer];
+    const madeUp = madeUpToday[prayer] ?? 0;
+    const dueToday = Math.min(remaining, Math.max(0, dailyQuota - madeUp));
+    prayers[prayer] = { remaining, madeUpToday: madeUp, dueToday };
+    daysAfterToday = Math.max(daysAfterToday, Math.ceil((remaining - dueToday) / dailyQuota));
+  });
+
+  return {
+    date: today,
+    dailyQuota,
+    prayers,
+    quotaMetToday: prayerTypes.every(prayer => prayers[prayer].dueToday === 0),
+    projectedFinishDate: balance.total > 0 ? addDaysToDateString(today, daysAfterToday) : null,
+  };
+}
@@ -1,7 +1,50 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, timestamp, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, timestamp, jsonb, index, uniqueIndex, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { CalculationMethod, AsrMethod, HighLatitudeRule, PrayerTimeOffsets } from "./prayer-times";
+import { prayerStates, type PrayerState } from "./prayer-status";
+import type { PrayedPeriod } from "./qaza-estimate";
+
+// Sunnah, Witr and Nafl prayers a user can choose to track alongside the five fard prayers
+export const voluntaryPrayerTypes = ["fajrSunnah", "dhuhrSunnah", "maghribSunnah", "ishaSunnah", "witr", "duha", "tahajjud"] as const;
+export type VoluntaryPrayerType = typeof voluntaryPrayerTypes[number];
+export type VoluntaryPrayers = Partial<Record<VoluntaryPrayerType, { completed: boolean; completedAt?: string }>>;
+
+// The five fard prayers, in order
+export const prayerTypes = ["fajr", "dhuhr", "asr", "maghrib", "isha"] as const;
+
+// Where a prayer was prayed; 'mosque' can point at one of the user's saved mosques
+export const prayerPlaces = ["home", "mosque", "work"] as const;
+export type PrayerPlace = typeof prayerPlaces[number];
+
+// Debits add prayers owed to the qaza ledger; credits record make-up prayers
+export const qazaLedgerKinds = ["debit", "credit"] as const;
+export type QazaLedgerKind = typeof qazaLedgerKinds[number];
+
+// 'estimate' debits are seeded from the lifetime qaza estimate and replaced when it is edited;
+// 'missed' debits follow the fard prayers recorded as missed in daily records
+export const qazaLedgerSources = ["manual", "estimate", "missed"] as const;
+export type QazaLedgerSource = typeof qazaLedgerSources[number];
+
+// Analytics default to the current period up to today, bucketed by the next smaller unit
+export const analyticsPeriods = ["week", "month", "year"] as const;
+export type AnalyticsPeriod = typeof analyticsPeriods[number];
+export const analyticsGranularities = ["day", "week", "month"] as const;
+export type AnalyticsGranularity = typeof analyticsGranularities[number];
+
+// Recomputing achievements revokes those that no longer hold and marks those that can no longer be checked as historical
+export const achievementLogActions = ["revoked", "historical"] as const;
+export type AchievementLogAction = typeof achievementLogActions[number];
+
+// "local" serves a single self-hosted user without sign-in; "accounts" requires login
+export const authModes = ["local", "accounts"] as const;
+export type AuthMode = typeof authModes[number];
+
+// Why a session stopped being usable; "refresh_reuse" means an already rotated refresh token came back
+// and "remote_logout" that it was signed out from another device's session list
+export const sessionRevocationReasons = ["logout", "logout_all", "refresh_reuse", "remote_logout"] as const;
+export type SessionRevocationReason = typeof sessionRevocationReasons[number];
 
 // User storage table with custom authentication
 export const users = pgTable("users", {
@@ -22,12 +65,13 @@ export const prayerRecords = pgTable("prayer_records", {
   userId: varchar("user_id").references(() => users.id),
   date: text("date").notNull(), // YYYY-MM-DD format
   prayers: jsonb("prayers").$type<{
-    fajr: { completed: boolean; onTime: boolean; completedAt?: string };
-    dhuhr: { completed: boolean; onTime: boolean; completedAt?: string };
-    asr: { completed: boolean; onTime: boolean; completedAt?: string };
-    maghrib: { completed: boolean; onTime: boolean; completedAt?: string };
-    isha: { completed: boolean; onTime: boolean; completedAt?: string };
+    fajr: PrayerStatus;
+    dhuhr: PrayerStatus;
+    asr: PrayerStatus;
+    maghrib: PrayerStatus;
+    isha: PrayerStatus;
   }>().notNull(),
+  voluntaryPrayers: jsonb("voluntary_prayers").$type<VoluntaryPrayers>().notNull().default({}), // Kept apart from `prayers` so they never count towards fard stats
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -36,9 +80,11 @@ export const achievements = pgTable("achievements", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id),
   type: text("type").notNull(), // 'perfect_week', 'streak_milestone', etc.
+  key: text("key"), // Catalog id plus the period earned in, e.g. 'perfect-week:2024-03-04', so it is only ever awarded once
   title: text("title").notNull(),
   description: text("description").notNull(),
   earnedDate: text("earned_date").notNull(), // YYYY-MM-DD format
+  historical: boolean("historical").notNull().default(false), // Kept, but no catalog rule can re-check it
   metadata: jsonb("metadata").$type<{
     weekNumber?: number;
     year?: number;
@@ -55,24 +101,154 @@ export const achievements = pgTable("achievements", {
     comebackDays?: number;
     perfectMonths?: number;
     specialMonth?: string;
+    jumuahStreak?: number;
     dateRange?: { start: string; end: string };
+    month?: number;
+    season?: string;
+    hijriYear?: number;
+    hijriDate?: string;
   }>(),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("achievements_user_key_idx").on(table.userId, table.key),
+]);
 
 export const userStats = pgTable("user_stats", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id).unique(),
   totalPrayers: integer("total_prayers").default(0),
   onTimePrayers: integer("on_time_prayers").default(0),
-  qazaPrayers: integer("qaza_prayers").default(0),
+  latePrayers: integer("late_prayers").default(0),
+  madeUpPrayers: integer("made_up_prayers").default(0),
+  excusedPrayers: integer("excused_prayers").default(0),
+  qazaPrayers: integer("qaza_prayers").default(0), // Missed prayers still owed
   currentStreak: integer("current_streak").default(0),
   bestStreak: integer("best_streak").default(0),
+  jumuahStreak: integer("jumuah_streak").default(0), // Consecutive Fridays with Jumu'ah attended
+  bestJumuahStreak: integer("best_jumuah_streak").default(0),
   perfectWeeks: integer("perfect_weeks").default(0),
   lastStreakUpdate: text("last_streak_update"), // YYYY-MM-DD format
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const supportedLanguages = ["en", "ar", "ur"] as const;
+export type Language = typeof supportedLanguages[number];
+
+export const userSettings = pgTable("user_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).unique(),
+  calculationMethod: text("calculation_method").$type<CalculationMethod>().notNull().default("MWL"),
+  asrMethod: text("asr_method").$type<AsrMethod>().notNull().default("standard"),
+  customFajrAngle: real("custom_fajr_angle"), // Only used with the 'Custom' method
+  customIshaAngle: real("custom_isha_angle"),
+  customIshaInterval: integer("custom_isha_interval"), // Minutes after Maghrib
+  highLatitudeRule: text("high_latitude_rule").$type<HighLatitudeRule>().notNull().default("middleOfNight"),
+  prayerOffsets: jsonb("prayer_offsets").$type<PrayerTimeOffsets>().notNull().default({}), // Minutes per prayer, e.g. { fajr: 2, isha: -5 }
+  locationName: text("location_name"), // e.g. "London, UK"
+  latitude: real("latitude"),
+  longitude: real("longitude"),
+  timezone: varchar("timezone"), // IANA zone, e.g. "Europe/London"
+  weekStartDay: integer("week_start_day").notNull().default(1), // 0 = Sunday, 1 = Monday, ... 6 = Saturday
+  language: text("language").$type<Language>().notNull().default("en"),
+  hijriAdjustment: integer("hijri_adjustment").notNull().default(0), // Days added for local moon sighting (-2 to +2)
+  trackedVoluntaryPrayers: jsonb("tracked_voluntary_prayers").$type<VoluntaryPrayerType[]>().notNull().default([]),
+  attendsJumuah: boolean("attends_jumuah").notNull().default(true), // Show Jumu'ah in place of Dhuhr on Fridays
+  dayStartsAtFajr: boolean("day_starts_at_fajr").notNull().default(false), // Roll the tracked day over at Fajr instead of midnight
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Date ranges when prayers are not owed, e.g. menstruation or postpartum
+export const excusedPeriods = pgTable("excused_periods", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  startDate: text("start_date").notNull(), // YYYY-MM-DD format
+  endDate: text("end_date"), // YYYY-MM-DD format, inclusive; null while the period is ongoing
+  label: text("label"), // Optional private label chosen by the user
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Date ranges when the user is travelling and may shorten and combine prayers
+export const travelPeriods = pgTable("travel_periods", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  startDate: text("start_date").notNull(), // YYYY-MM-DD format
+  endDate: text("end_date"), // YYYY-MM-DD format, inclusive; null until the user is back
+  destination: text("destination"), // e.g. "Istanbul"
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Mosques the user prays at, used to tag where a prayer was prayed
+export const savedMosques = pgTable("saved_mosques", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  name: text("name").notNull(),
+  address: text("address"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Lifetime qaza debt, kept apart from daily records so making up a prayer never rewrites the day it was missed
+export const qazaLedgerEntries = pgTable("qaza_ledger_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  prayer: text("prayer").$type<PrayerType>().notNull(),
+  kind: text("kind").$type<QazaLedgerKind>().notNull(),
+  count: integer("count").notNull().default(1),
+  date: text("date").notNull(), // YYYY-MM-DD format; when the make-up was prayed for credits, when the debt was recorded for debits
+  note: text("note"),
+  source: text("source").$type<QazaLedgerSource>().notNull().default("manual"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Why achievements were revoked or marked historical when they were recomputed
+export const achievementLog = pgTable("achievement_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  achievementKey: text("achievement_key"),
+  title: text("title").notNull(),
+  action: text("action").$type<AchievementLogAction>().notNull(),
+  reason: text("reason").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Assumptions behind a user's lifetime qaza estimate, kept so it can be edited later
+export const qazaEstimates = pgTable("qaza_estimates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).unique(),
+  maturityDate: text("maturity_date").notNull(), // YYYY-MM-DD format
+  trackingStartDate: text("tracking_start_date").notNull(), // YYYY-MM-DD format; days from here on come from daily records
+  prayedPeriods: jsonb("prayed_periods").$type<PrayedPeriod[]>().notNull().default([]),
+  excusedDaysPerMonth: real("excused_days_per_month").notNull().default(0),
+  additionalExcusedDays: integer("additional_excused_days").notNull().default(0),
+  prayersOwed: integer("prayers_owed").notNull().default(0), // Per prayer type, as seeded into the ledger
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// A user's qaza repayment plan; progress and the finish date are projected from the ledger
+export const qazaPlans = pgTable("qaza_plans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).unique(),
+  dailyQuota: integer("daily_quota").notNull().default(1), // Make-ups per prayer type per day
+  startDate: text("start_date").notNull(), // YYYY-MM-DD format
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// A signed-in device; its refresh token rotates on every use and only the hash is stored
+export const sessions = pgTable("sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  refreshTokenHash: text("refresh_token_hash").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  lastSeenAt: timestamp("last_seen_at").defaultNow(),
+  revokedAt: timestamp("revoked_at"),
+  revokedReason: text("revoked_reason").$type<SessionRevocationReason>(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const upsertUserSchema = createInsertSchema(users).pick({
   id: true,
   username: true,
@@ -91,8 +267,11 @@ export const registerUserSchema = createInsertSchema(users).omit({
   createdAt: true,
   updatedAt: true,
   isActive: true,
+  passwordHash: true,
 }).extend({
-  passwordHash: z.string().min(60), // bcrypt hash length
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  email: z.string().email("Invalid email address"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
 });
 
 // Login schema for user authentication
@@ -101,6 +280,11 @@ export const loginUserSchema = z.object({
   password: z.string().min(6, "Password must be at least 6 characters"),
 });
 
+// Refresh tokens are "<session id>.<secret>"
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().regex(/^[0-9a-f-]{36}\.[A-Za-z0-9_-]+$/, "Invalid refresh token"),
+});
+
 // User without password for responses
 export const safeUserSchema = createInsertSchema(users).omit({
   passwordHash: true,
@@ -122,14 +306,130 @@ export const insertUserStatsSchema = createInsertSchema(userStats).omit({
   updatedAt: true,
 });
 
+export const insertUserSettingsSchema = createInsertSchema(userSettings).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertExcusedPeriodSchema = createInsertSchema(excusedPeriods).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTravelPeriodSchema = createInsertSchema(travelPeriods).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSavedMosqueSchema = createInsertSchema(savedMosques).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertQazaLedgerEntrySchema = createInsertSchema(qazaLedgerEntries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertQazaEstimateSchema = createInsertSchema(qazaEstimates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertAchievementLogEntrySchema = createInsertSchema(achievementLog).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertQazaPlanSchema = createInsertSchema(qazaPlans).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSessionSchema = createInsertSchema(sessions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  revokedAt: true,
+  revokedReason: true,
+});
+
 export type UpsertUser = z.infer<typeof upsertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertPrayerRecord = z.infer<typeof insertPrayerRecordSchema>;
 export type PrayerRecord = typeof prayerRecords.$inferSelect;
 export type InsertAchievement = z.infer<typeof insertAchievementSchema>;
 export type Achievement = typeof achievements.$inferSelect;
+export type InsertAchievementLogEntry = z.infer<typeof insertAchievementLogEntrySchema>;
+export type AchievementLogEntry = typeof achievementLog.$inferSelect;
 export type InsertUserStats = z.infer<typeof insertUserStatsSchema>;
 export type UserStats = typeof userStats.$inferSelect;
+export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
+export type UserSettings = typeof userSettings.$inferSelect;
+export type InsertExcusedPeriod = z.infer<typeof insertExcusedPeriodSchema>;
+export type ExcusedPeriod = typeof excusedPeriods.$inferSelect;
+export type InsertTravelPeriod = z.infer<typeof insertTravelPeriodSchema>;
+export type TravelPeriod = typeof travelPeriods.$inferSelect;
+export type InsertSavedMosque = z.infer<typeof insertSavedMosqueSchema>;
+export type SavedMosque = typeof savedMosques.$inferSelect;
+export type InsertQazaLedgerEntry = z.infer<typeof insertQazaLedgerEntrySchema>;
+export type QazaLedgerEntry = typeof qazaLedgerEntries.$inferSelect;
+export type InsertQazaEstimate = z.infer<typeof insertQazaEstimateSchema>;
+export type QazaEstimate = typeof qazaEstimates.$inferSelect;
+export type InsertQazaPlan = z.infer<typeof insertQazaPlanSchema>;
+export type QazaPlan = typeof qazaPlans.$inferSelect;
+export type InsertSession = z.infer<typeof insertSessionSchema>;
+export type Session = typeof sessions.$inferSelect;
+
+// What the session list shows about a signed-in device; hashes never leave the server
+export type SessionSummary = Pick<Session, 'id' | 'userAgent' | 'ipAddress' | 'createdAt' | 'lastSeenAt' | 'expiresAt'> & {
+  current: boolean;
+};
+
+// Prayers still owed per prayer type after credits are taken off debits
+export type QazaBalance = Record<PrayerType, number> & { total: number };
+
+// Fard prayer analytics over a date range, computed in storage. Excused prayers are not owed;
+// days without a record count as missed.
+export type AnalyticsSummary = {
+  startDate: string;
+  endDate: string;
+  totalPrayers: number; // Performed, whenever that was
+  totalPossible: number; // Owed
+  successRate: number;
+  qazaPrayers: number;
+  onTimePrayers: number;
+  latePrayers: number;
+  madeUpPrayers: number;
+  excusedPrayers: number;
+};
+
+export type AnalyticsByPrayer = {
+  startDate: string;
+  endDate: string;
+  prayers: Record<PrayerType, { completed: number; total: number }>;
+};
+
+export type AnalyticsTrendPoint = {
+  startDate: string; // First day of the bucket inside the range
+  endDate: string;
+  completed: number;
+  total: number;
+  averagePerDay: number; // Performed prayers per day, 0-5
+};
+
+export type AnalyticsTrend = {
+  startDate: string;
+  endDate: string;
+  granularity: AnalyticsGranularity;
+  points: AnalyticsTrendPoint[];
+};
+
+// Saving prayers returns the achievements the save earned, so clients only need to show them
+export type SavedPrayerRecord = PrayerRecord & { newAchievements: Achievement[] };
+export type BatchPrayerUpdateResult = { records: PrayerRecord[]; newAchievements: Achievement[] };
 
 // Additional validation schemas for API routes
 export const dateParamSchema = z.object({
@@ -149,14 +449,137 @@ export const dateRangeQuerySchema = z.object({
   { message: "Start date must be before or equal to end date" }
 );
 
-export const userStatsUpdateSchema = z.object({
-  totalPrayers: z.number().int().min(0).optional(),
-  onTimePrayers: z.number().int().min(0).optional(),
-  qazaPrayers: z.number().int().min(0).optional(),
-  currentStreak: z.number().int().min(0).optional(),
-  bestStreak: z.number().int().min(0).optional(),
-  perfectWeeks: z.number().int().min(0).optional(),
-  lastStreakUpdate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format").nullable().optional()
+export const analyticsQuerySchema = z.object({
+  period: z.enum(analyticsPeriods).default("week"),
+  granularity: z.enum(analyticsGranularities).optional(),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Start date must be in YYYY-MM-DD format").optional(),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "End date must be in YYYY-MM-DD format").optional()
+}).refine(
+  (data) => !data.startDate || !data.endDate || data.startDate <= data.endDate,
+  { message: "Start date must be before or equal to end date" }
+);
+
+// Checks that a string is an IANA time zone the runtime knows about
+function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const prayerTimesQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format").optional(),
+  latitude: z.coerce.number().min(-90).max(90).optional(),
+  longitude: z.coerce.number().min(-180).max(180).optional(),
+  timezone: z.string().refine(isValidTimeZone, "Unknown time zone").optional(),
+});
+
+// Schema for an admin rebuild; without a user id every user is rebuilt
+export const statisticsRebuildSchema = z.object({
+  userId: z.string().min(1).optional(),
+});
+
+const prayerOffsetSchema = z.number().int().min(-60, "Offsets must be within an hour").max(60, "Offsets must be within an hour");
+
+const prayerOffsetsSchema = z.object({
+  fajr: prayerOffsetSchema.optional(),
+  sunrise: prayerOffsetSchema.optional(),
+  dhuhr: prayerOffsetSchema.optional(),
+  asr: prayerOffsetSchema.optional(),
+  maghrib: prayerOffsetSchema.optional(),
+  isha: prayerOffsetSchema.optional(),
+}).strict();
+
+export const userSettingsUpdateSchema = z.object({
+  calculationMethod: z.enum(['MWL', 'ISNA', 'Egypt', 'Makkah', 'Karachi', 'Tehran', 'Custom']).optional(),
+  asrMethod: z.enum(['standard', 'hanafi']).optional(),
+  customFajrAngle: z.number().min(10).max(25).nullable().optional(),
+  customIshaAngle: z.number().min(10).max(25).nullable().optional(),
+  customIshaInterval: z.number().int().min(0).max(180).nullable().optional(),
+  highLatitudeRule: z.enum(['none', 'middleOfNight', 'oneSeventh', 'angleBased']).optional(),
+  prayerOffsets: prayerOffsetsSchema.optional(),
+  locationName: z.string().trim().max(100).nullable().optional(),
+  latitude: z.number().min(-90).max(90).nullable().optional(),
+  longitude: z.number().min(-180).max(180).nullable().optional(),
+  timezone: z.string().refine(isValidTimeZone, "Invalid time zone").nullable().optional(),
+  weekStartDay: z.number().int().min(0).max(6).optional(),
+  language: z.enum(supportedLanguages).optional(),
+  hijriAdjustment: z.number().int().min(-2, "Hijri adjustment must be between -2 and +2 days").max(2, "Hijri adjustment must be between -2 and +2 days").optional(),
+  trackedVoluntaryPrayers: z.array(z.enum(voluntaryPrayerTypes)).optional(),
+  attendsJumuah: z.boolean().optional(),
+  dayStartsAtFajr: z.boolean().optional(),
+});
+
+const dateStringSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+export const excusedPeriodSchema = z.object({
+  startDate: dateStringSchema,
+  endDate: dateStringSchema.nullable().optional(), // Leave empty for a period that has not ended yet
+  label: z.string().trim().max(50, "Label must be 50 characters or less").nullable().optional(),
+}).refine(
+  (data) => !data.endDate || data.startDate <= data.endDate,
+  { message: "Start date must be before or equal to end date" }
+);
+
+// Used to end an ongoing period or relabel one; dates are checked against the stored period
+export const excusedPeriodUpdateSchema = z.object({
+  startDate: dateStringSchema.optional(),
+  endDate: dateStringSchema.nullable().optional(),
+  label: z.string().trim().max(50, "Label must be 50 characters or less").nullable().optional(),
+});
+
+export const travelPeriodSchema = z.object({
+  startDate: dateStringSchema,
+  endDate: dateStringSchema.nullable().optional(), // Leave empty while still travelling
+  destination: z.string().trim().max(100).nullable().optional(),
+}).refine(
+  (data) => !data.endDate || data.startDate <= data.endDate,
+  { message: "Start date must be before or equal to end date" }
+);
+
+// Used to end an ongoing trip or change its destination; dates are checked against the stored period
+export const travelPeriodUpdateSchema = z.object({
+  startDate: dateStringSchema.optional(),
+  endDate: dateStringSchema.nullable().optional(),
+  destination: z.string().trim().max(100).nullable().optional(),
+});
+
+export const savedMosqueSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be 100 characters or less"),
+  address: z.string().trim().max(200).nullable().optional(),
+});
+
+export const savedMosqueUpdateSchema = savedMosqueSchema.partial();
+
+export const qazaLedgerEntrySchema = z.object({
+  prayer: z.enum(prayerTypes),
+  kind: z.enum(qazaLedgerKinds),
+  count: z.number().int().min(1, "Count must be at least 1").max(100000, "Count is too large"),
+  date: dateStringSchema,
+  note: z.string().trim().max(100, "Note must be 100 characters or less").nullable().optional(),
+});
+
+export const qazaEstimateSchema = z.object({
+  maturityDate: dateStringSchema,
+  trackingStartDate: dateStringSchema,
+  prayedPeriods: z.array(z.object({
+    startDate: dateStringSchema,
+    endDate: dateStringSchema,
+  }).refine(
+    (period) => period.startDate <= period.endDate,
+    { message: "Prayed periods must start before they end" }
+  )).max(50, "Maximum 50 prayed periods"),
+  excusedDaysPerMonth: z.number().min(0).max(15, "Excused days per month must be 15 or less"),
+  additionalExcusedDays: z.number().int().min(0).max(10000),
+}).refine(
+  (data) => data.maturityDate < data.trackingStartDate,
+  { message: "Date of maturity must be before tracking started" }
+);
+
+export const qazaPlanSchema = z.object({
+  dailyQuota: z.number().int().min(1, "Daily quota must be at least 1").max(50, "Daily quota must be 50 or less"),
 });
 
 export type PrayerType = 'fajr' | 'dhuhr' | 'asr' | 'maghrib' | 'isha';
@@ -164,14 +587,21 @@ export type PrayerStatus = {
   completed: boolean;
   onTime: boolean;
   completedAt?: string;
+  status?: PrayerState; // Missing on records saved before states existed; read it with getPrayerState
+  combined?: boolean; // Prayed together with its pair while travelling
+  shortened?: boolean; // Shortened to two rak'ahs while travelling
+  jumuah?: boolean; // Dhuhr on a Friday: true if Jumu'ah was attended, false if Dhuhr was prayed instead
+  congregation?: boolean; // Prayed in jama'ah
+  place?: PrayerPlace;
+  mosqueId?: string; // Saved mosque, only when place is 'mosque'
 };
 
 export type DailyPrayers = {
-  fajr: { completed: boolean; onTime: boolean; completedAt?: string };
-  dhuhr: { completed: boolean; onTime: boolean; completedAt?: string };
-  asr: { completed: boolean; onTime: boolean; completedAt?: string };
-  maghrib: { completed: boolean; onTime: boolean; completedAt?: string };
-  isha: { completed: boolean; onTime: boolean; completedAt?: string };
+  fajr: PrayerStatus;
+  dhuhr: PrayerStatus;
+  asr: PrayerStatus;
+  maghrib: PrayerStatus;
+  isha: PrayerStatus;
 };
 
 // Schema for individual prayer status
@@ -179,10 +609,33 @@ const prayerStatusSchema = z.object({
   completed: z.boolean(),
   onTime: z.boolean(),
   completedAt: z.string().optional(),
+  status: z.enum(prayerStates).optional(),
+  combined: z.boolean().optional(),
+  shortened: z.boolean().optional(),
+  jumuah: z.boolean().optional(), // Only kept for Dhuhr on Fridays
+  congregation: z.boolean().optional(),
+  place: z.enum(prayerPlaces).optional(),
+  mosqueId: z.string().optional(),
 });
 
+// Schema for a day's voluntary prayers; only the tracked ones need to be present
+const voluntaryPrayerStatusSchema = z.object({
+  completed: z.boolean(),
+  completedAt: z.string().optional(),
+});
+
+export const voluntaryPrayersSchema = z.object({
+  fajrSunnah: voluntaryPrayerStatusSchema.optional(),
+  dhuhrSunnah: voluntaryPrayerStatusSchema.optional(),
+  maghribSunnah: voluntaryPrayerStatusSchema.optional(),
+  ishaSunnah: voluntaryPrayerStatusSchema.optional(),
+  witr: voluntaryPrayerStatusSchema.optional(),
+  duha: voluntaryPrayerStatusSchema.optional(),
+  tahajjud: voluntaryPrayerStatusSchema.optional(),
+}).strict();
+
 // Schema for daily prayers object
-const dailyPrayersSchema = z.object({
+export const dailyPrayersSchema = z.object({
   fajr: prayerStatusSchema,
   dhuhr: prayerStatusSchema,
   asr: prayerStatusSchema,